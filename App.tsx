@@ -1,8 +1,88 @@
 ﻿import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { INITIAL_CATEGORIES } from './constants';
-import { Category, User, SubCategory, Question, QuizState, QuestionReport } from './types';
+import { Category, User, SubCategory, Question, QuestionImage, QuestionPassage, QuestionTable, QuizAnswer, QuizMode, QuizState, QuestionReport } from './types';
 import { Icon } from './components/Icon';
-import { parseBulkQuestionsWithReport } from './services/questionParser';
+import { TextNormalizationChangeList } from './components/TextNormalizationChangeList';
+import { DocumentImportPreview } from './components/DocumentImportPreview';
+import { RomanOptionTemplate } from './components/RomanOptionTemplate';
+import { MatchingAnswerInput } from './components/MatchingAnswerInput';
+import { OrderingAnswerInput } from './components/OrderingAnswerInput';
+import { QuestionAnswerKey } from './components/QuestionAnswerKey';
+import { QuestionTableBlock } from './components/QuestionTableBlock';
+import { ExamSectionNavigator } from './components/ExamSectionNavigator';
+import { ExamSectionResults, ExamSectionScore } from './components/ExamSectionResults';
+import { QuizModeToggle } from './components/QuizModeToggle';
+import { PracticeFeedback } from './components/PracticeFeedback';
+import {
+  BulkParseDiagnostic,
+  BulkParseProgress,
+  BulkParseReport,
+  DEFAULT_TEXT_NORMALIZATION,
+  MAX_OPTION_COUNT,
+  MIN_OPTION_COUNT,
+  NO_TEXT_NORMALIZATION,
+  extractImageMarkers,
+  extractTableBlocks,
+  findTextRoundTripMismatches,
+  formatBulkParseDiagnostic,
+  formatImageMarker,
+  formatOptionExplanationLines,
+  formatOptionRange,
+  formatQuizAnswer,
+  formatTableMarkdown,
+  getCorrectQuizAnswer,
+  getOptionLetter,
+  getOptionLetterIndex,
+  getOptionLetters,
+  getQuestionImages,
+  getQuestionType,
+  hasKnownAnswer,
+  hasOrderedOptionSet,
+  isAnswerCorrect,
+  isQuestionAnswered,
+  isSupportedOptionCount,
+  JsonRepair,
+  JsonSyntaxError,
+  TEXT_NORMALIZATION_STEP_LABELS,
+  TextNormalizationChange,
+  TextNormalizationResult,
+  TextNormalizationSettings,
+  TextNormalizationStep,
+  UNKNOWN_ANSWER_INDEX,
+  normalizeQuestionText,
+  parseAnswerKey,
+  parseBulkQuestionsWithReport,
+  parseOptionExplanations,
+  parseOptionOrder,
+  parseQuestionTables,
+  QUESTION_TYPE_LABELS,
+  serializeQuestionsToCsv,
+  serializeQuestionsToText,
+  shouldLockOptionOrder,
+} from './services/questionParser';
+import { buildSimilarityIndex, findDuplicateClusters, findSimilarQuestion } from './services/questionSimilarity';
+import {
+  ExamBlueprint,
+  ExamSectionRange,
+  KPSS_GY_GK_BLUEPRINT,
+  MAX_EXAM_DURATION_MINUTES,
+  MAX_EXAM_SECTION_QUESTION_COUNT,
+  applyExamBlueprintOverrides,
+  findExamSectionId,
+  findExamSectionRange,
+  getExamBlueprintOverrides,
+  getExamQuestionCount,
+} from './services/examBlueprint';
+import { ImportedDocument, buildDocumentText, extractDocument } from './services/documentImport';
+import { BulkParseTask, startBulkParseTask } from './services/bulkParseTask';
+import {
+  ReviewSchedule,
+  createReviewSchedule,
+  getNextReviewSchedule,
+  hasCompletedReviews,
+  isReviewDue,
+  parseReviewSchedule,
+} from './services/spacedRepetition';
 
 // --- Firebase Importları ---
 import { auth, db } from './firebase';
@@ -23,13 +103,14 @@ import {
   getDocs
 } from 'firebase/firestore';
 
-type ViewState = 'dashboard' | 'statistics' | 'quiz-setup' | 'all-quiz-setup' | 'quiz' | 'admin';
+type ViewState = 'dashboard' | 'statistics' | 'quiz-setup' | 'all-quiz-setup' | 'exam-setup' | 'quiz' | 'admin';
 type QuizConfirmAction = 'exit' | 'finish';
 type TopicProgressStats = {
   seenCount: number;
   correctCount: number;
   wrongCount: number;
   totalWrongAnswers: number;
+  totalBlankAnswers: number;
   lastPlayedAt: number;
 };
 type LegacyTopicProgressStats = {
@@ -50,6 +131,8 @@ type WrongQuestionStats = {
   wrongCount: number;
   lastWrongAt: number;
   resolvedAt: number;
+  // Tekrar takvimi; son kutuya ulasan soru cozulmus sayilir
+  review: ReviewSchedule;
 };
 type FavoriteQuestionRecord = {
   questionTrackingId: string;
@@ -59,6 +142,7 @@ type FavoriteQuestionRecord = {
   sourceTag: string | null;
   createdAt: number;
   updatedAt: number;
+  review: ReviewSchedule;
 };
 type SeenQuestionStats = {
   questionTrackingId: string;
@@ -72,6 +156,11 @@ type SeenQuestionStats = {
   answeredCount: number;
   correctCount: number;
   wrongCount: number;
+  blankCount: number;
+  // Sure olculen cozumler: ortalama ve son cozum suresi (saniye)
+  timedCount: number;
+  averageTimeSeconds: number;
+  lastTimeSeconds: number;
 };
 type QuizStatusFilter = {
   wrong: boolean;
@@ -80,8 +169,29 @@ type QuizStatusFilter = {
 type QuizQuestionMeta = {
   topicId: string;
   trackingId: string;
+  // Testte gosterilen sik sirasi (orijinal sik indeksleri); yarim kalan test ayni sirayla acilir
+  optionOrder?: number[];
+};
+// Yarim kalan test: localStorage'a ve users/{uid}/activeQuiz/current dokumanina yazilir
+type ActiveQuizSnapshot = {
+  userId: string;
+  categoryId: string;
+  topicId: string;
+  topicName: string;
+  questions: Array<QuizQuestionMeta & { answer: QuizAnswer; timeSpent?: number }>;
+  // Deneme sinavinin bolum sinirlari (diger testlerde yok)
+  sections?: ExamSectionRange[];
+  // Yalnizca alistirma modunda yazilir; yoksa sinav modu
+  mode?: QuizMode;
+  currentQuestionIndex: number;
+  timeLeft: number;
+  totalTime: number;
+  statusFilter: QuizStatusFilter;
+  savedAt: number;
 };
 type MixedQuizScope = { mode: 'all' } | { mode: 'category'; categoryId: string };
+// Toplu aktarimda benzer soru: bankadaysa topicId, ayni listedeyse batchIndex dolu
+type BulkDuplicateMatch = { score: number; question: Question; topicId?: string; batchIndex?: number };
 
 // Kategori Renk Tanımları
 const CATEGORY_COLORS: Record<string, { bg: string; bgLight: string; bgDark: string; text: string; textDark: string; gradient: string; shadow: string; border: string; borderDark: string }> = {
@@ -120,12 +230,33 @@ const DEFAULT_COLOR = {
 
 const getCatColor = (id: string) => CATEGORY_COLORS[id] || DEFAULT_COLOR;
 const ADMIN_QUESTIONS_PER_PAGE = 5;
+const BULK_SAVE_CHUNK_SIZE = 200;
+// Firestore belgeyi 1 MiB, tek istegi 10 MiB ile sinirlar; gorseller data URL olarak belgeye gomulu oldugu icin
+// her soru onizlemede olculur ve toplu kayit parcalari belge sayisinin yaninda boyuta gore de bolunur
+const FIRESTORE_DOCUMENT_MAX_BYTES = 1000 * 1024;
+const BULK_SAVE_CHUNK_MAX_BYTES = 8 * 1024 * 1024;
+
+// Belgenin JSON hali uzerinden yaklasik boyut (Firestore alan adlarini ve metinleri UTF-8 olarak sayar)
+const getApproxDocumentBytes = (data: unknown): number => new TextEncoder().encode(JSON.stringify(data)).length;
+
+const getOversizedQuestionDiagnostic = (question: Question, index: number): BulkParseDiagnostic | null => {
+  const bytes = getApproxDocumentBytes(question);
+  if (bytes <= FIRESTORE_DOCUMENT_MAX_BYTES) return null;
+  return {
+    severity: 'error',
+    message: `Soru ${index + 1}: kayit yaklasik ${Math.round(bytes / 1024)} KB, Firestore'un 1 MiB belge sinirini asiyor; gorselleri kucultun veya azaltin.`,
+    questionIndex: index,
+  };
+};
 const QUESTION_JUMP_PICKER_ROW_HEIGHT = 40;
 const QUESTION_JUMP_PICKER_VIEWPORT_HEIGHT = 208;
 const QUESTION_JUMP_PICKER_VERTICAL_PADDING = (QUESTION_JUMP_PICKER_VIEWPORT_HEIGHT - QUESTION_JUMP_PICKER_ROW_HEIGHT) / 2;
-const WRONG_RECOVERY_STREAK_TARGET = 3;
+const WRONG_ANSWERS_PER_NET_PENALTY = 4;
 const RESOLVED_RETENTION_DAYS = 45;
 const RESOLVED_RETENTION_MS = RESOLVED_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+const ACTIVE_QUIZ_DOC_ID = 'current';
+// Sure her saniye localStorage'a, Firestore'a ise cevap/soru degisince veya bu aralikla yazilir
+const ACTIVE_QUIZ_SYNC_INTERVAL_SECONDS = 15;
 const TOPIC_STATS_MIGRATION_KEY_PREFIX = 'kpsspro_topic_stats_migrated_v2_';
 const BLANK_STATS_CLEANUP_KEY_PREFIX = 'kpsspro_blank_stats_cleanup_v1_';
 const COMPLETED_QUIZ_COUNT_CLEANUP_KEY_PREFIX = 'kpsspro_completed_quiz_count_cleanup_v1_';
@@ -140,6 +271,9 @@ const ALL_LESSONS_CATEGORY: Category = {
   description: 'Tum derslerin tum konularindan karma sinav.',
   subCategories: [{ id: ALL_LESSONS_TOPIC_ID, name: 'Tum Konular' }],
 };
+const EXAM_SIMULATION_TOPIC_ID = '__exam_simulation__';
+const DUE_REVIEW_TOPIC_ID = '__due_review__';
+const DUE_REVIEW_TOPIC_NAME = 'Bugün Tekrar Edilecekler';
 const getCategoryMixedTopicId = (categoryId: string): string => `${CATEGORY_MIXED_TOPIC_ID_PREFIX}_${categoryId}`;
 const getCategoryIdFromMixedTopicId = (topicId: string): string | null => {
   const prefix = `${CATEGORY_MIXED_TOPIC_ID_PREFIX}_`;
@@ -154,9 +288,13 @@ const STORAGE_KEYS = {
   topicProgressStats: 'kpsspro_topic_progress_stats',
   topicBloggerPages: 'kpsspro_topic_blogger_pages',
   persistSeenQuestionsToFirestore: 'kpsspro_persist_seen_questions_firestore',
+  activeQuiz: 'kpsspro_active_quiz',
+  examBlueprint: 'kpsspro_exam_blueprint',
+  quizMode: 'kpsspro_quiz_mode',
 } as const;
 type LightThemeVariant = 'aura' | 'clean';
 const UNTAGGED_SOURCE_KEY = '__untagged__';
+const SLOW_QUESTION_LIST_LIMIT = 10;
 const QUESTION_ID_MAX_LENGTH = 120;
 const DEFAULT_BLOGGER_JSON_URL = 'https://kpsst.blogspot.com/p/kpss-iott.html';
 const APP_CONFIG_COLLECTION = 'appConfig';
@@ -176,6 +314,7 @@ const EMPTY_TOPIC_PROGRESS: TopicProgressStats = {
   correctCount: 0,
   wrongCount: 0,
   totalWrongAnswers: 0,
+  totalBlankAnswers: 0,
   lastPlayedAt: 0,
 };
 
@@ -252,11 +391,35 @@ const normalizeHttpUrl = (value: unknown): string | null => {
   }
 };
 
-const normalizeQuestionOptions = (value: unknown): string[] => {
-  if (!Array.isArray(value)) return [];
-  return value
-    .map((entry) => asNonEmptyString(entry))
-    .filter((entry): entry is string => Boolean(entry));
+// Sadece gorselden olusan secenegin metni bos olabilir; gorsel ve aciklama listeleriyle birlikte ayiklanir
+const normalizeQuestionOptions = (
+  value: unknown,
+  rawOptionImages: unknown,
+  rawOptionExplanations: unknown
+): { options: string[]; optionImages: (QuestionImage | null)[]; optionExplanations: string[] } => {
+  if (!Array.isArray(value)) return { options: [], optionImages: [], optionExplanations: [] };
+  const imageList = Array.isArray(rawOptionImages) ? rawOptionImages : [];
+  const explanationList = Array.isArray(rawOptionExplanations) ? rawOptionExplanations : [];
+  const entries = value
+    .map((entry, index) => ({
+      text: asNonEmptyString(entry) || '',
+      image: normalizeQuestionImage(imageList[index]),
+      explanation: asNonEmptyString(explanationList[index]) || '',
+    }))
+    .filter((entry) => entry.text || entry.image);
+  return {
+    options: entries.map((entry) => entry.text),
+    optionImages: entries.map((entry) => entry.image),
+    optionExplanations: entries.map((entry) => entry.explanation),
+  };
+};
+
+const normalizeQuestionImage = (raw: unknown): QuestionImage | null => {
+  if (!isRecord(raw)) return null;
+  const url = asNonEmptyString(raw.url);
+  if (!url) return null;
+  const alt = asNonEmptyString(raw.alt);
+  return alt ? { url, alt } : { url };
 };
 
 const resolveCorrectOptionIndex = (raw: Record<string, unknown>, optionCount: number): number => {
@@ -268,11 +431,11 @@ const resolveCorrectOptionIndex = (raw: Record<string, unknown>, optionCount: nu
 
   const fromAnswer = raw.answer;
   if (typeof fromAnswer === 'string') {
-    const answerIndex = 'ABCDE'.indexOf(fromAnswer.trim().toUpperCase());
-    if (answerIndex >= 0 && answerIndex < optionCount) return answerIndex;
+    const answerIndex = getOptionLetterIndex(fromAnswer, optionCount);
+    if (answerIndex >= 0) return answerIndex;
   }
 
-  return 0;
+  return UNKNOWN_ANSWER_INDEX;
 };
 
 const createFallbackQuestionId = (topicId: string, questionText: string, index: number): string => {
@@ -286,8 +449,11 @@ const normalizeExternalQuestion = (raw: unknown, topicId: string, index: number)
   const questionText = asNonEmptyString(raw.questionText);
   if (!questionText) return null;
 
-  const options = normalizeQuestionOptions(raw.options);
+  const { options, optionImages, optionExplanations } = normalizeQuestionOptions(raw.options, raw.optionImages, raw.optionExplanations);
   if (options.length < 2) return null;
+  const images = Array.isArray(raw.images)
+    ? raw.images.map(normalizeQuestionImage).filter((image): image is QuestionImage => Boolean(image))
+    : [];
   const correctOptionIndex = resolveCorrectOptionIndex(raw, options.length);
   const parsedQuestionId =
     sanitizeQuestionId(raw.questionId) ||
@@ -300,20 +466,59 @@ const normalizeExternalQuestion = (raw: unknown, topicId: string, index: number)
       .filter((item): item is string => Boolean(item))
     : undefined;
 
+  const tables = parseQuestionTables(raw.tables);
+
   return {
+    ...normalizeQuestionTypeFields(raw, options.length),
     id: parsedQuestionId,
     questionId: parsedQuestionId,
     questionText,
     options,
     correctOptionIndex,
     contextText: asNonEmptyString(raw.contextText) || undefined,
+    tables: tables.length > 0 ? tables : undefined,
     contentItems: contentItems && contentItems.length > 0 ? contentItems : undefined,
     sourceTag: asNonEmptyString(raw.sourceTag) || undefined,
     imageUrl: asNonEmptyString(raw.imageUrl) || undefined,
+    images: images.length > 0 ? images : undefined,
+    optionImages: optionImages.some(Boolean) ? optionImages : undefined,
+    lockOptionOrder: typeof raw.lockOptionOrder === 'boolean' ? raw.lockOptionOrder : undefined,
     explanation: asNonEmptyString(raw.explanation) || '',
+    optionExplanations: optionExplanations.some(Boolean) ? optionExplanations : undefined,
+    passage: normalizeQuestionPassage(raw.passage),
   };
 };
 
+// Dogru/yanlis, eslestirme ve siralama alanlari; gecersiz cevap anahtari soruyu coktan secmeli birakir
+const normalizeQuestionTypeFields = (raw: Record<string, unknown>, optionCount: number) => {
+  const isIndexList = (value: unknown): value is number[] => (
+    Array.isArray(value)
+    && value.length === optionCount
+    && new Set(value).size === optionCount
+    && value.every((index) => Number.isInteger(index) && index >= 0 && index < optionCount)
+  );
+  if (raw.type === 'trueFalse') return { type: 'trueFalse' as const };
+  if (raw.type === 'matching' && Array.isArray(raw.matchPrompts) && isIndexList(raw.correctMatches)) {
+    const matchPrompts = raw.matchPrompts.map((prompt) => asNonEmptyString(prompt) || '');
+    if (matchPrompts.length === optionCount) {
+      return { type: 'matching' as const, matchPrompts, correctMatches: raw.correctMatches };
+    }
+  }
+  if (raw.type === 'ordering' && isIndexList(raw.correctOrder)) {
+    return { type: 'ordering' as const, correctOrder: raw.correctOrder };
+  }
+  return {};
+};
+
+const normalizeQuestionPassage = (raw: unknown): QuestionPassage | undefined => {
+  if (!isRecord(raw)) return undefined;
+  const id = asNonEmptyString(raw.id);
+  const text = asNonEmptyString(raw.text);
+  if (!id || !text) return undefined;
+  const title = asNonEmptyString(raw.title);
+  return title ? { id, text, title } : { id, text };
+};
+
 const appendExternalTopicQuestions = (
   groupedQuestions: Record<string, Question[]>,
   topicId: string,
@@ -594,6 +799,17 @@ const getStoredLightThemeVariant = (): LightThemeVariant => {
   return 'clean';
 };
 
+// Deneme sinavi plani: resmi bolum listesi, kullanicinin degistirdigi soru sayilari ve sure
+const getStoredExamBlueprint = (): ExamBlueprint => {
+  if (typeof window === 'undefined') return KPSS_GY_GK_BLUEPRINT;
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEYS.examBlueprint);
+    return raw ? applyExamBlueprintOverrides(KPSS_GY_GK_BLUEPRINT, JSON.parse(raw)) : KPSS_GY_GK_BLUEPRINT;
+  } catch {
+    return KPSS_GY_GK_BLUEPRINT;
+  }
+};
+
 const getStoredQuizSize = (): 0 | 1 | 2 => {
   if (typeof window === 'undefined') return 0;
   try {
@@ -606,6 +822,15 @@ const getStoredQuizSize = (): 0 | 1 | 2 => {
   return 0;
 };
 
+const getStoredQuizMode = (): QuizMode => {
+  if (typeof window === 'undefined') return 'exam';
+  try {
+    return window.localStorage.getItem(STORAGE_KEYS.quizMode) === 'practice' ? 'practice' : 'exam';
+  } catch {
+    return 'exam';
+  }
+};
+
 const getStoredPersistSeenQuestionsToFirestore = (): boolean => {
   if (typeof window === 'undefined') return DEFAULT_PERSIST_SEEN_QUESTIONS_TO_FIRESTORE;
   try {
@@ -618,6 +843,102 @@ const getStoredPersistSeenQuestionsToFirestore = (): boolean => {
   return DEFAULT_PERSIST_SEEN_QUESTIONS_TO_FIRESTORE;
 };
 
+const parseActiveQuizSnapshot = (value: unknown): ActiveQuizSnapshot | null => {
+  if (!value || typeof value !== 'object') return null;
+  const raw = value as Record<string, unknown>;
+  const isIndexList = (entry: unknown): entry is number[] => (
+    Array.isArray(entry) && entry.every((index) => Number.isInteger(index) && index >= -1)
+  );
+  const questions = Array.isArray(raw.questions)
+    ? raw.questions.flatMap((entry) => {
+      if (!entry || typeof entry !== 'object') return [];
+      const question = entry as Record<string, unknown>;
+      if (typeof question.topicId !== 'string' || typeof question.trackingId !== 'string') return [];
+      const answer = question.answer;
+      const timeSpent = Math.floor(Number(question.timeSpent));
+      return [{
+        topicId: question.topicId,
+        trackingId: question.trackingId,
+        optionOrder: isIndexList(question.optionOrder) ? question.optionOrder : undefined,
+        answer: (Number.isInteger(answer) || isIndexList(answer)) ? answer as QuizAnswer : null,
+        timeSpent: timeSpent > 0 ? timeSpent : undefined,
+      }];
+    })
+    : [];
+  const timeLeft = Math.floor(Number(raw.timeLeft));
+  const totalTime = Math.floor(Number(raw.totalTime));
+  if (
+    typeof raw.userId !== 'string'
+    || typeof raw.categoryId !== 'string'
+    || typeof raw.topicId !== 'string'
+    || questions.length === 0
+    || !(timeLeft > 0)
+    || !(totalTime >= timeLeft)
+  ) {
+    return null;
+  }
+  const statusFilter = (raw.statusFilter && typeof raw.statusFilter === 'object' ? raw.statusFilter : {}) as Partial<QuizStatusFilter>;
+  const sections = Array.isArray(raw.sections)
+    ? raw.sections.flatMap((entry) => {
+      if (!entry || typeof entry !== 'object') return [];
+      const section = entry as Record<string, unknown>;
+      const startIndex = Math.floor(Number(section.startIndex));
+      const questionCount = Math.floor(Number(section.questionCount));
+      if (typeof section.id !== 'string' || !(startIndex >= 0) || !(questionCount > 0)) return [];
+      return [{ id: section.id, name: typeof section.name === 'string' ? section.name : section.id, startIndex, questionCount }];
+    })
+    : [];
+  const currentQuestionIndex = Math.floor(Number(raw.currentQuestionIndex));
+
+  return {
+    userId: raw.userId,
+    categoryId: raw.categoryId,
+    topicId: raw.topicId,
+    topicName: typeof raw.topicName === 'string' ? raw.topicName : '',
+    questions,
+    ...(sections.length > 0 ? { sections } : {}),
+    ...(raw.mode === 'practice' ? { mode: 'practice' as QuizMode } : {}),
+    currentQuestionIndex: Number.isFinite(currentQuestionIndex) ? Math.min(Math.max(0, currentQuestionIndex), questions.length - 1) : 0,
+    timeLeft,
+    totalTime,
+    statusFilter: { wrong: statusFilter.wrong === true, favorite: statusFilter.favorite === true },
+    savedAt: getTimestampMillis(raw.savedAt),
+  };
+};
+
+const getStoredActiveQuiz = (): ActiveQuizSnapshot | null => {
+  if (typeof window === 'undefined') return null;
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEYS.activeQuiz);
+    return raw ? parseActiveQuizSnapshot(JSON.parse(raw)) : null;
+  } catch {
+    return null;
+  }
+};
+
+const storeActiveQuiz = (snapshot: ActiveQuizSnapshot | null) => {
+  if (typeof window === 'undefined') return;
+  try {
+    if (snapshot) {
+      window.localStorage.setItem(STORAGE_KEYS.activeQuiz, JSON.stringify(snapshot));
+    } else {
+      window.localStorage.removeItem(STORAGE_KEYS.activeQuiz);
+    }
+  } catch {
+    // Ignore storage errors (private mode / quota)
+  }
+};
+
+// Zamanlayicinin her saniyesi ekrandaki soruya yazilir; alistirmada kontrol edilmis soru sayilmaz
+const addQuestionTimeTick = (state: QuizState): number[] => {
+  const index = state.currentQuestionIndex;
+  if (state.loading || index >= state.questions.length) return state.timeSpentSeconds;
+  if (state.mode === 'practice' && state.checkedQuestions[index]) return state.timeSpentSeconds;
+  const timeSpentSeconds = [...state.timeSpentSeconds];
+  timeSpentSeconds[index] = (timeSpentSeconds[index] || 0) + 1;
+  return timeSpentSeconds;
+};
+
 const normalizeTopicBloggerPagesMap = (
   value: unknown,
   validTopicIds?: Set<string>
@@ -773,12 +1094,14 @@ const normalizeTopicProgressStats = (value: Partial<TopicProgressStats>): TopicP
   const correctCount = Number.isFinite(value.correctCount) ? Math.max(0, Number(value.correctCount)) : 0;
   const wrongCount = Number.isFinite(value.wrongCount) ? Math.max(0, Number(value.wrongCount)) : 0;
   const totalWrongAnswers = Number.isFinite(value.totalWrongAnswers) ? Math.max(0, Number(value.totalWrongAnswers)) : wrongCount;
+  const totalBlankAnswers = Number.isFinite(value.totalBlankAnswers) ? Math.max(0, Number(value.totalBlankAnswers)) : 0;
 
   return {
     seenCount,
     correctCount,
     wrongCount,
     totalWrongAnswers,
+    totalBlankAnswers,
     lastPlayedAt: Number.isFinite(value.lastPlayedAt) ? Number(value.lastPlayedAt) : 0,
   };
 };
@@ -820,6 +1143,15 @@ const formatDateTime = (value: unknown): string => {
   });
 };
 
+// KPSS puanlamasinda 4 yanlis 1 dogruyu goturur.
+const calculateNet = (correctCount: number, wrongCount: number): number => {
+  return correctCount - wrongCount / WRONG_ANSWERS_PER_NET_PENALTY;
+};
+
+const formatNet = (net: number): string => {
+  return (Math.round(net * 100) / 100).toLocaleString('tr-TR', { maximumFractionDigits: 2 });
+};
+
 const getQuestionSourceKey = (question: Question): string => {
   const rawSourceTag = typeof question.sourceTag === 'string' ? question.sourceTag.trim() : '';
   return rawSourceTag.length > 0 ? rawSourceTag : UNTAGGED_SOURCE_KEY;
@@ -829,27 +1161,94 @@ const getSourceTagLabel = (sourceKey: string): string => {
   return sourceKey === UNTAGGED_SOURCE_KEY ? 'Etiketsiz' : sourceKey;
 };
 
-const shuffleOptionsWithAnswer = (question: Question): Question => {
-  const options = Array.isArray(question.options) ? [...question.options] : [];
-  if (options.length < 2) {
-    return { ...question, options };
-  }
-
-  const indexedOptions = options.map((option, originalIndex) => ({ option, originalIndex }));
-  for (let i = indexedOptions.length - 1; i > 0; i--) {
+// Testte gosterilecek sik sirasi (orijinal indeksler)
+// Coktan secmeli ve dogru/yanlis sorularin cevabi tek harftir; eslestirme ve siralama sorulari harf listesi ister
+const hasSingleAnswer = (question: Question): boolean => question.type !== 'matching' && question.type !== 'ordering';
+
+const getOptionShuffleOrder = (question: Question): number[] => {
+  const optionCount = Array.isArray(question.options) ? question.options.length : 0;
+  const order = Array.from({ length: optionCount }, (_, index) => index);
+  const questionType = getQuestionType(question);
+  // "Yalniz I / I ve II", artan sayilar, "Hepsi / Hicbiri" gibi siralar yazildigi gibi kalir;
+  // siralama ve eslestirmede ise yazilan sira cevabi ele verir, her zaman karistirilir
+  const keepsOrder = questionType === 'trueFalse'
+    || (questionType === 'multipleChoice' && shouldLockOptionOrder(question));
+  if (optionCount < 2 || keepsOrder) return order;
+
+  for (let i = order.length - 1; i > 0; i--) {
     const j = Math.floor(Math.random() * (i + 1));
-    [indexedOptions[i], indexedOptions[j]] = [indexedOptions[j], indexedOptions[i]];
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  if (question.type === 'ordering' && order.every((originalIndex, index) => originalIndex === question.correctOrder[index])) {
+    // Karistirma dogru sirayi verdiyse bir kaydirilir
+    order.push(order.shift()!);
   }
+  return order;
+};
 
-  const remappedCorrectIndex = indexedOptions.findIndex(
-    (entry) => entry.originalIndex === question.correctOptionIndex
-  );
+const isOptionOrderFor = (question: Question, order: number[] | undefined): order is number[] => {
+  const optionCount = Array.isArray(question.options) ? question.options.length : 0;
+  return Array.isArray(order)
+    && order.length === optionCount
+    && order.every((index) => Number.isInteger(index) && index >= 0 && index < optionCount)
+    && new Set(order).size === optionCount;
+};
+
+// Siklari verilen siraya dizer; cevap anahtari ve sik gorselleri/aciklamalari da yeniden eslenir
+const applyOptionOrder = (question: Question, order: number[]): Question => {
+  const options = Array.isArray(question.options) ? [...question.options] : [];
+  if (!isOptionOrderFor(question, order)) return { ...question, options };
+
+  const shuffledIndexByOriginal = new Map<number, number>(order.map((originalIndex, index) => [originalIndex, index]));
+  const remapIndexes = (indexes: number[]) => indexes.map((index) => shuffledIndexByOriginal.get(index) ?? index);
 
   return {
     ...question,
-    options: indexedOptions.map((entry) => entry.option),
-    correctOptionIndex: remappedCorrectIndex >= 0 ? remappedCorrectIndex : question.correctOptionIndex,
-  };
+    options: order.map((originalIndex) => options[originalIndex]),
+    optionImages: question.optionImages
+      ? order.map((originalIndex) => question.optionImages?.[originalIndex] ?? null)
+      : undefined,
+    optionExplanations: question.optionExplanations
+      ? order.map((originalIndex) => question.optionExplanations?.[originalIndex] ?? '')
+      : undefined,
+    correctOptionIndex: shuffledIndexByOriginal.get(question.correctOptionIndex) ?? question.correctOptionIndex,
+    ...(question.type === 'matching' ? { correctMatches: remapIndexes(question.correctMatches) } : {}),
+    ...(question.type === 'ordering' ? { correctOrder: remapIndexes(question.correctOrder) } : {}),
+  } as Question;
+};
+
+const shuffleOptionsWithAnswer = (question: Question): Question => applyOptionOrder(question, getOptionShuffleOrder(question));
+
+// Karistirilmis sira (indeks listesi); ortak metne bagli sorular yan yana ve kendi siralarinda kalir.
+// `limit` verilirse gruplar bolunmeden secilir: kalan yere sigmayan grup atlanir, hicbiri sigmazsa ilk grup alinir
+const getPassageAwareShuffleOrder = (questions: Question[], limit = questions.length): number[] => {
+  const units: number[][] = [];
+  const unitByPassageId = new Map<string, number[]>();
+  questions.forEach((question, index) => {
+    const passageId = question.passage?.id;
+    if (!passageId) {
+      units.push([index]);
+      return;
+    }
+    const existingUnit = unitByPassageId.get(passageId);
+    if (existingUnit) {
+      existingUnit.push(index);
+      return;
+    }
+    const unit = [index];
+    unitByPassageId.set(passageId, unit);
+    units.push(unit);
+  });
+
+  for (let i = units.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [units[i], units[j]] = [units[j], units[i]];
+  }
+  const order: number[] = [];
+  units.forEach((unit) => {
+    if (order.length + unit.length <= limit) order.push(...unit);
+  });
+  return order.length === 0 && limit > 0 && units.length > 0 ? units[0] : order;
 };
 
 const normalizeQuestionTrackingText = (value: string): string => value.trim().toLocaleLowerCase('tr');
@@ -882,18 +1281,25 @@ type QuestionFormState = {
   optionsText: string;
   correctOption: number;
   explanation: string;
+  optionExplanationsText: string;
+  lockOptionOrder: boolean;
 };
 
 type PendingQuestionDraft = {
   questionId: string;
   imageUrl: string | null;
+  images: QuestionImage[] | null;
+  optionImages: (QuestionImage | null)[] | null;
   contextText: string | null;
+  tables: QuestionTable[] | null;
   contentItems: string[] | null;
   sourceTag: string | null;
   questionText: string;
   options: string[];
+  lockOptionOrder: boolean | null;
   correctOptionIndex: number;
   explanation: string;
+  optionExplanations: string[] | null;
   topicId: string;
   createdAt: Date;
 };
@@ -907,6 +1313,8 @@ const EMPTY_QUESTION_FORM: QuestionFormState = {
   optionsText: '',
   correctOption: 0,
   explanation: '',
+  optionExplanationsText: '',
+  lockOptionOrder: false,
 };
 
 export default function App() {
@@ -943,14 +1351,21 @@ export default function App() {
     questionCount: 10,
     durationSeconds: 300,
   });
+  // Kurulumda secilen mod; deneme sinavi her zaman sinav modunda acilir
+  const [quizMode, setQuizMode] = useState<QuizMode>(() => getStoredQuizMode());
   const [questionCountInputValue, setQuestionCountInputValue] = useState('10');
   const [quizTagQuestionCounts, setQuizTagQuestionCounts] = useState<Record<string, number>>({});
   const [quizTagPickerSourceKey, setQuizTagPickerSourceKey] = useState('');
   const [quizTagPickerCountInput, setQuizTagPickerCountInput] = useState('');
   const [quizQuestionMeta, setQuizQuestionMeta] = useState<QuizQuestionMeta[]>([]);
+  // Panelde "Kaldigin yerden devam et" ile acilabilecek yarim test (localStorage ve Firestore'dan yenisi)
+  const [resumableQuiz, setResumableQuiz] = useState<ActiveQuizSnapshot | null>(null);
   const [mixedQuizScope, setMixedQuizScope] = useState<MixedQuizScope>({ mode: 'all' });
   const [allLessonsQuestionCount, setAllLessonsQuestionCount] = useState(20);
   const [allLessonsQuestionInputValue, setAllLessonsQuestionInputValue] = useState('20');
+  const [examBlueprint, setExamBlueprint] = useState<ExamBlueprint>(() => getStoredExamBlueprint());
+  // Deneme sinavinda bolum sinirlari; null ise test bolumsuzdur
+  const [examSections, setExamSections] = useState<ExamSectionRange[] | null>(null);
 
   // --- SORULAR STATE (ARTIK BOŞ BAŞLIYOR) ---
   const [allQuestions, setAllQuestions] = useState<Record<string, Question[]>>({});
@@ -959,6 +1374,7 @@ export default function App() {
 
   // Quiz State
   const [quizState, setQuizState] = useState<QuizState>({
+    mode: 'exam',
     currentQuestionIndex: 0,
     userAnswers: [],
     showResults: false,
@@ -968,6 +1384,8 @@ export default function App() {
     timeLeft: 0,
     totalTime: 0,
     isTimerActive: false,
+    checkedQuestions: [],
+    timeSpentSeconds: [],
   });
 
   // Admin Panel State
@@ -978,7 +1396,12 @@ export default function App() {
   const [adminQuestionPage, setAdminQuestionPage] = useState(1);
   const [isAdminActionsOpen, setIsAdminActionsOpen] = useState(false);
   const [adminPreviewQuestion, setAdminPreviewQuestion] = useState<Question | null>(null);
-  const [adminPreviewSelectedOption, setAdminPreviewSelectedOption] = useState<number | null>(null);
+  const [isDuplicateReportOpen, setIsDuplicateReportOpen] = useState(false);
+  // Cevabi eksik sorular kuyrugu: konu filtresi ('' = tum konular) ve yapistirilan cevap anahtari
+  const [isMissingAnswerQueueOpen, setIsMissingAnswerQueueOpen] = useState(false);
+  const [missingAnswerTopicFilter, setMissingAnswerTopicFilter] = useState('');
+  const [missingAnswerKeyText, setMissingAnswerKeyText] = useState('');
+  const [adminPreviewSelectedOption, setAdminPreviewSelectedOption] = useState<QuizAnswer>(null);
   const [adminPreviewChecked, setAdminPreviewChecked] = useState(false);
   const [questionReports, setQuestionReports] = useState<QuestionReport[]>([]);
   const [isSubmittingReport, setIsSubmittingReport] = useState(false);
@@ -986,6 +1409,8 @@ export default function App() {
   const [reportNote, setReportNote] = useState('');
   const [quizConfirmAction, setQuizConfirmAction] = useState<QuizConfirmAction | null>(null);
   const [isQuestionJumpModalOpen, setIsQuestionJumpModalOpen] = useState(false);
+  // Ortak metin grubun ilk sorusunda acik gelir; sonraki sorularda istenirse acilir
+  const [expandedPassageQuestionIndex, setExpandedPassageQuestionIndex] = useState<number | null>(null);
   const [questionJumpTargetIndex, setQuestionJumpTargetIndex] = useState(0);
   const [isResetStatsModalOpen, setIsResetStatsModalOpen] = useState(false);
   const [resetStatsTargetTopic, setResetStatsTargetTopic] = useState<{ id: string; name: string } | null>(null);
@@ -1017,7 +1442,11 @@ export default function App() {
     questionRoot: '',
     optionsText: '',
     correctOption: 0,
-    explanation: ''
+    explanation: '',
+    optionExplanationsText: '',
+    lockOptionOrder: false,
+    // Eslestirme/siralama sorularinda harflerle cevap ("C-A-B")
+    answerOrderText: '',
   });
 
   // Bulk Import State
@@ -1026,7 +1455,26 @@ export default function App() {
   const [bulkText, setBulkText] = useState('');
   const [bulkParsed, setBulkParsed] = useState<Question[]>([]);
   const [bulkParseErrors, setBulkParseErrors] = useState<string[]>([]);
+  const [bulkQuestionDiagnostics, setBulkQuestionDiagnostics] = useState<BulkParseDiagnostic[][]>([]);
+  const [bulkJsonRepairs, setBulkJsonRepairs] = useState<JsonRepair[]>([]);
+  const [bulkJsonSyntaxError, setBulkJsonSyntaxError] = useState<JsonSyntaxError | null>(null);
+  // Kati modda JSON otomatik duzeltilmez, sozdizimi hatasinin yeri gosterilir
+  const [isBulkStrictJson, setIsBulkStrictJson] = useState(false);
+  // PDF/OCR kopyasi temizligi: ayarlar, ayristirmadan once onizleme ve ayristirmada yapilan degisiklikler
+  const [bulkNormalizationSettings, setBulkNormalizationSettings] = useState<TextNormalizationSettings>(DEFAULT_TEXT_NORMALIZATION);
+  const [bulkNormalizationPreview, setBulkNormalizationPreview] = useState<TextNormalizationResult | null>(null);
+  const [bulkNormalizationChanges, setBulkNormalizationChanges] = useState<TextNormalizationChange[]>([]);
+  // Yuklenen PDF/Word dosyasi: sayfalar tarayicida cikarilir, secilenler metin alanina aktarilir
+  const [bulkDocument, setBulkDocument] = useState<ImportedDocument | null>(null);
+  const [bulkDocumentExcludedPages, setBulkDocumentExcludedPages] = useState<number[]>([]);
+  const [isBulkDocumentLoading, setIsBulkDocumentLoading] = useState(false);
+  // Ayristirma is parcaciginda calisir; kayit parcali yazilir
+  const [bulkParseProgress, setBulkParseProgress] = useState<BulkParseProgress | null>(null);
+  const [isBulkParsing, setIsBulkParsing] = useState(false);
+  const [bulkSaveProgress, setBulkSaveProgress] = useState<{ done: number; total: number } | null>(null);
   const [bulkStep, setBulkStep] = useState<'paste' | 'preview'>('paste');
+  // Konuyu metin olarak duzenlerken acilistaki sorular; kayitta [ID: ...] satirlariyla eslesir
+  const [bulkTextEditSource, setBulkTextEditSource] = useState<Question[] | null>(null);
   const isBulkSourceTagValid = bulkSourceTagInput === ' ' || bulkSourceTagInput.trim().length > 0;
 
   // Add Question Form State
@@ -1047,8 +1495,11 @@ export default function App() {
   const timerRef = useRef<number | null>(null);
   // Auto-advance ref
   const autoAdvanceRef = useRef<number | null>(null);
+  // Firestore'a en son yazilan yarim test durumu (cevaplar, soru, sure dilimi)
+  const activeQuizSyncKeyRef = useRef('');
   const inlineNoticeTimerRef = useRef<number | null>(null);
   const questionJumpPickerRef = useRef<HTMLDivElement | null>(null);
+  const bulkParseTaskRef = useRef<BulkParseTask | null>(null);
   const categoriesRef = useRef<Category[]>(categories);
   const topicBloggerPagesRef = useRef<Record<string, string>>(topicBloggerPages);
   const statisticsScopeMenuRef = useRef<HTMLDivElement | null>(null);
@@ -1182,13 +1633,20 @@ export default function App() {
     if (mixedQuizScope.mode !== 'category') return null;
     return categories.find((cat) => cat.id === mixedQuizScope.categoryId) || null;
   }, [categories, mixedQuizScope]);
+  // Cevabi eksik sorular testlere alinmaz; yonetim paneli tum sorulari (allQuestions) kullanir
+  const quizQuestionsByTopic = useMemo<Record<string, Question[]>>(() => {
+    return Object.keys(allQuestions).reduce<Record<string, Question[]>>((acc, topicId) => {
+      acc[topicId] = (allQuestions[topicId] || []).filter((question) => hasKnownAnswer(question));
+      return acc;
+    }, {});
+  }, [allQuestions]);
   const allLessonsQuestionPool = useMemo<Array<{ question: Question; topicId: string; trackingId: string }>>(() => {
     const scopedCategories = mixedQuizScope.mode === 'category'
       ? categories.filter((cat) => cat.id === mixedQuizScope.categoryId)
       : categories;
     return scopedCategories.flatMap((cat) => {
       return cat.subCategories.flatMap((sub) => {
-        const topicQuestions = allQuestions[sub.id] || [];
+        const topicQuestions = quizQuestionsByTopic[sub.id] || [];
         return topicQuestions.map((question, index) => ({
           question,
           topicId: sub.id,
@@ -1196,8 +1654,38 @@ export default function App() {
         }));
       });
     });
-  }, [allQuestions, categories, mixedQuizScope]);
+  }, [quizQuestionsByTopic, categories, mixedQuizScope]);
   const allLessonsQuestionCountMax = Math.min(ALL_LESSONS_MAX_QUESTION_COUNT, allLessonsQuestionPool.length);
+  // Bugun tekrari gelen sorular: vadesi gelmis aktif yanlislar ve favoriler, tum derslerden
+  const dueReviewQuestionPool = useMemo<Array<{ question: Question; topicId: string; trackingId: string }>>(() => {
+    const now = Date.now();
+    return categories.flatMap((cat) => cat.subCategories.flatMap((sub) => {
+      const wrongTrackingIds = new Set(wrongQuestionIdsByTopic[sub.id] || []);
+      return (quizQuestionsByTopic[sub.id] || []).flatMap((question, index) => {
+        const trackingId = getQuestionTrackingId(question, sub.id, index);
+        const wrongStats = wrongQuestionStatsById[trackingId];
+        // Eski metin anahtariyla eslesen yanlisin kendi takvimi yok; hemen tekrar edilir
+        const isWrongDue = wrongTrackingIds.has(trackingId) && (!wrongStats || isReviewDue(wrongStats.review, now));
+        const favoriteRecord = favoriteQuestionsById[trackingId];
+        const isFavoriteDue = Boolean(favoriteRecord) && isReviewDue(favoriteRecord.review, now);
+        return isWrongDue || isFavoriteDue ? [{ question, topicId: sub.id, trackingId }] : [];
+      });
+    }));
+  }, [categories, quizQuestionsByTopic, wrongQuestionIdsByTopic, wrongQuestionStatsById, favoriteQuestionsById]);
+  // Deneme sinavi bolum havuzlari: kategori adi plandaki bolume uyan derslerin tum sorulari
+  const examSectionPools = useMemo<Record<string, Array<{ question: Question; topicId: string; trackingId: string }>>>(() => {
+    return categories.reduce<Record<string, Array<{ question: Question; topicId: string; trackingId: string }>>>((acc, cat) => {
+      const sectionId = findExamSectionId(examBlueprint, cat.name);
+      if (!sectionId) return acc;
+      const entries = cat.subCategories.flatMap((sub) => (quizQuestionsByTopic[sub.id] || []).map((question, index) => ({
+        question,
+        topicId: sub.id,
+        trackingId: getQuestionTrackingId(question, sub.id, index),
+      })));
+      acc[sectionId] = [...(acc[sectionId] || []), ...entries];
+      return acc;
+    }, {});
+  }, [categories, examBlueprint, quizQuestionsByTopic]);
   const topicNameById = useMemo<Record<string, string>>(() => {
     return categories.reduce<Record<string, string>>((acc, cat) => {
       cat.subCategories.forEach((sub) => {
@@ -1206,7 +1694,62 @@ export default function App() {
       return acc;
     }, {});
   }, [categories]);
-  
+  const questionBankEntries = useMemo<{ question: Question; topicId: string }[]>(() => {
+    return Object.entries(allQuestions).flatMap(([topicId, questions]) => (
+      (questions as Question[]).map((question) => ({ question, topicId }))
+    ));
+  }, [allQuestions]);
+  // Onizlemedeki her soru icin bankada veya listenin onceki satirlarinda benzer soru
+  const bulkDuplicateMatches = useMemo<(BulkDuplicateMatch | null)[]>(() => {
+    if (bulkParsed.length === 0) return [];
+    const editedIds = new Set<string>(
+      (bulkTextEditSource ?? [])
+        .map((question) => getQuestionStableId(question))
+        .filter((id): id is string => Boolean(id))
+    );
+    const bankEntries = questionBankEntries.filter((entry) => {
+      const id = getQuestionStableId(entry.question);
+      return !id || !editedIds.has(id);
+    });
+    const bankIndex = buildSimilarityIndex(bankEntries.map((entry) => entry.question));
+    const batchIndex = buildSimilarityIndex(bulkParsed);
+
+    return bulkParsed.map((question, index) => {
+      const bankMatch = findSimilarQuestion(question, bankIndex);
+      if (bankMatch) {
+        const entry = bankEntries[bankMatch.index];
+        return { score: bankMatch.score, question: entry.question, topicId: entry.topicId };
+      }
+      const batchMatch = findSimilarQuestion(question, batchIndex, (candidateIndex) => candidateIndex < index);
+      return batchMatch ? { score: batchMatch.score, question: bulkParsed[batchMatch.index], batchIndex: batchMatch.index } : null;
+    });
+  }, [bulkParsed, bulkTextEditSource, questionBankEntries]);
+  const bulkDuplicateCount = bulkDuplicateMatches.filter(Boolean).length;
+  const duplicateQuestionClusters = useMemo<{ score: number; entries: { question: Question; topicId: string }[] }[]>(() => {
+    if (!isDuplicateReportOpen) return [];
+    return findDuplicateClusters(questionBankEntries.map((entry) => entry.question)).map((cluster) => ({
+      score: cluster.score,
+      entries: cluster.indexes.map((index) => questionBankEntries[index]),
+    }));
+  }, [isDuplicateReportOpen, questionBankEntries]);
+  const missingAnswerEntries = useMemo<{ question: Question; topicId: string }[]>(() => {
+    return questionBankEntries.filter((entry) => !hasKnownAnswer(entry.question));
+  }, [questionBankEntries]);
+  const missingAnswerQueue = missingAnswerTopicFilter
+    ? missingAnswerEntries.filter((entry) => entry.topicId === missingAnswerTopicFilter)
+    : missingAnswerEntries;
+  // Yuklenen belgenin her sayfasinda tek basina ayristirilan soru sayisi (sayfa sinirinda bolunen soru eksik sayilabilir)
+  const bulkDocumentQuestionCounts = useMemo<Record<number, number>>(() => {
+    if (!bulkDocument) return {};
+    const settings = bulkDocument.kind === 'pdf' ? { ...bulkNormalizationSettings, twoColumn: true } : bulkNormalizationSettings;
+    return bulkDocument.pages.reduce((acc: Record<number, number>, page) => {
+      acc[page.pageNumber] = page.text.trim()
+        ? parseBulkQuestionsWithReport(page.text, { normalization: settings }).questions.length
+        : 0;
+      return acc;
+    }, {});
+  }, [bulkDocument, bulkNormalizationSettings]);
+
 
   // -- Effects --
   useEffect(() => {
@@ -1450,6 +1993,22 @@ export default function App() {
     }
   }, [quizSize]);
 
+  useEffect(() => {
+    try {
+      window.localStorage.setItem(STORAGE_KEYS.examBlueprint, JSON.stringify(getExamBlueprintOverrides(examBlueprint)));
+    } catch {
+      // Ignore storage errors
+    }
+  }, [examBlueprint]);
+
+  useEffect(() => {
+    try {
+      window.localStorage.setItem(STORAGE_KEYS.quizMode, quizMode);
+    } catch {
+      // Ignore storage errors
+    }
+  }, [quizMode]);
+
   useEffect(() => {
     try {
       window.localStorage.setItem(
@@ -1726,6 +2285,7 @@ export default function App() {
                 wrongCount: 1,
                 lastWrongAt: baseTimestamp,
                 resolvedAt: 0,
+                review: createReviewSchedule(baseTimestamp),
               } satisfies WrongQuestionStats,
               { merge: true }
             );
@@ -1758,13 +2318,11 @@ export default function App() {
       return;
     }
 
+    // Bos cevaplar artik topicStats/seenQuestions icinde sayiliyor; burada yalnizca
+    // yanlis havuzuna sizmis eski 'active_blank' kayitlari temizlenir.
     const cleanupLegacyBlankStats = async () => {
       try {
-        const [topicStatsSnapshot, seenQuestionsSnapshot, wrongQuestionsSnapshot] = await Promise.all([
-          getDocs(query(collection(db, 'users', user.uid, 'topicStats'))),
-          getDocs(query(collection(db, 'users', user.uid, 'seenQuestions'))),
-          getDocs(query(collection(db, 'users', user.uid, 'wrongQuestions'))),
-        ]);
+        const wrongQuestionsSnapshot = await getDocs(query(collection(db, 'users', user.uid, 'wrongQuestions')));
 
         let batch = writeBatch(db);
         let opCount = 0;
@@ -1775,25 +2333,6 @@ export default function App() {
           opCount = 0;
         };
 
-        for (const topicStatsDoc of topicStatsSnapshot.docs) {
-          const data = topicStatsDoc.data() as Record<string, unknown>;
-          if (!('blankCount' in data) && !('totalBlankAnswers' in data)) continue;
-          batch.set(topicStatsDoc.ref, {
-            blankCount: deleteField(),
-            totalBlankAnswers: deleteField(),
-          }, { merge: true });
-          opCount += 1;
-          if (opCount >= 400) await commitCurrentBatch();
-        }
-
-        for (const seenDoc of seenQuestionsSnapshot.docs) {
-          const data = seenDoc.data() as Record<string, unknown>;
-          if (!('blankCount' in data)) continue;
-          batch.set(seenDoc.ref, { blankCount: deleteField() }, { merge: true });
-          opCount += 1;
-          if (opCount >= 400) await commitCurrentBatch();
-        }
-
         for (const wrongDoc of wrongQuestionsSnapshot.docs) {
           const data = wrongDoc.data() as Record<string, unknown>;
           if (data.status === 'active_blank') {
@@ -1891,6 +2430,7 @@ export default function App() {
             correctCount: data.correctCount,
             wrongCount: data.wrongCount,
             totalWrongAnswers: data.totalWrongAnswers,
+            totalBlankAnswers: data.totalBlankAnswers,
             lastPlayedAt: getTimestampMillis(data.lastPlayedAt),
           });
         });
@@ -1926,6 +2466,7 @@ export default function App() {
 
           const status = normalizeWrongQuestionStatus(data.status);
           const resolvedAt = getTimestampMillis(data.resolvedAt);
+          const lastWrongAt = getTimestampMillis(data.lastWrongAt);
           if (status === 'resolved' && resolvedAt > 0 && now - resolvedAt >= RESOLVED_RETENTION_MS) {
             expiredResolvedDocIds.push(wrongDoc.id);
             return;
@@ -1937,8 +2478,9 @@ export default function App() {
             status,
             recoveryStreak: Number.isFinite(data.recoveryStreak) ? Math.max(0, Math.floor(Number(data.recoveryStreak))) : 0,
             wrongCount: Number.isFinite(data.wrongCount) ? Math.max(0, Math.floor(Number(data.wrongCount))) : 0,
-            lastWrongAt: getTimestampMillis(data.lastWrongAt),
+            lastWrongAt,
             resolvedAt,
+            review: parseReviewSchedule(data.review, lastWrongAt),
           };
         });
 
@@ -1968,14 +2510,16 @@ export default function App() {
           if (!questionTrackingId) return;
           const topicId = typeof data.topicId === 'string' ? data.topicId : '';
           const questionText = typeof data.questionText === 'string' ? data.questionText : '';
+          const createdAt = getTimestampMillis(data.createdAt);
           nextFavorites[questionTrackingId] = {
             questionTrackingId,
             topicId,
             questionId: typeof data.questionId === 'string' ? data.questionId : null,
             questionText,
             sourceTag: typeof data.sourceTag === 'string' ? data.sourceTag : null,
-            createdAt: getTimestampMillis(data.createdAt),
+            createdAt,
             updatedAt: getTimestampMillis(data.updatedAt),
+            review: parseReviewSchedule(data.review, createdAt),
           };
         });
         setFavoriteQuestionsById(nextFavorites);
@@ -2014,6 +2558,10 @@ export default function App() {
               answeredCount: Number.isFinite(data.answeredCount) ? Math.max(0, Math.floor(Number(data.answeredCount))) : 0,
               correctCount: Number.isFinite(data.correctCount) ? Math.max(0, Math.floor(Number(data.correctCount))) : 0,
               wrongCount: Number.isFinite(data.wrongCount) ? Math.max(0, Math.floor(Number(data.wrongCount))) : 0,
+              blankCount: Number.isFinite(data.blankCount) ? Math.max(0, Math.floor(Number(data.blankCount))) : 0,
+              timedCount: Number.isFinite(data.timedCount) ? Math.max(0, Math.floor(Number(data.timedCount))) : 0,
+              averageTimeSeconds: Number.isFinite(data.averageTimeSeconds) ? Math.max(0, Number(data.averageTimeSeconds)) : 0,
+              lastTimeSeconds: Number.isFinite(data.lastTimeSeconds) ? Math.max(0, Math.floor(Number(data.lastTimeSeconds))) : 0,
             };
           });
           setSeenQuestionsById(nextSeenQuestions);
@@ -2033,16 +2581,95 @@ export default function App() {
     };
   }, [user?.uid, persistSeenQuestionsToFirestore]);
 
+  useEffect(() => {
+    if (!user?.uid) {
+      setResumableQuiz(null);
+      return;
+    }
+    const userId = user.uid;
+    const getLocalActiveQuiz = () => {
+      const storedQuiz = getStoredActiveQuiz();
+      return storedQuiz?.userId === userId ? storedQuiz : null;
+    };
+    setResumableQuiz(getLocalActiveQuiz());
+
+    return onSnapshot(
+      doc(db, 'users', userId, 'activeQuiz', ACTIVE_QUIZ_DOC_ID),
+      (snapshot) => {
+        const localQuiz = getLocalActiveQuiz();
+        const { fromCache } = snapshot.metadata;
+        if (!snapshot.exists()) {
+          // Sunucuda kayit yoksa test baska cihazda bitirilmis/birakilmistir
+          if (!fromCache && localQuiz) storeActiveQuiz(null);
+          setResumableQuiz(fromCache ? localQuiz : null);
+          return;
+        }
+        const remoteQuiz = parseActiveQuizSnapshot(snapshot.data());
+        if (remoteQuiz?.userId !== userId) {
+          setResumableQuiz(localQuiz);
+          return;
+        }
+        setResumableQuiz(!localQuiz || remoteQuiz.savedAt >= localQuiz.savedAt ? remoteQuiz : localQuiz);
+      },
+      (error) => {
+        console.error('Yarim kalan test okunamadi:', error);
+        setResumableQuiz(getLocalActiveQuiz());
+      }
+    );
+  }, [user?.uid]);
+
+  // Yarim kalan testi surekli kaydet: localStorage her degisiklikte, Firestore seyrek
+  useEffect(() => {
+    if (!user?.uid || !activeTopic || currentView !== 'quiz') return;
+    if (quizState.loading || quizState.showResults || quizState.timeLeft <= 0) return;
+    if (quizState.questions.length === 0 || quizQuestionMeta.length !== quizState.questions.length) return;
+
+    const snapshot: ActiveQuizSnapshot = {
+      userId: user.uid,
+      categoryId: activeTopic.cat.id,
+      topicId: activeTopic.sub.id,
+      topicName: activeTopic.sub.name,
+      questions: quizQuestionMeta.map((meta, index) => ({
+        topicId: meta.topicId,
+        trackingId: meta.trackingId,
+        ...(meta.optionOrder ? { optionOrder: meta.optionOrder } : {}),
+        answer: quizState.userAnswers[index] ?? null,
+        ...(quizState.timeSpentSeconds[index] > 0 ? { timeSpent: quizState.timeSpentSeconds[index] } : {}),
+      })),
+      ...(examSections ? { sections: examSections } : {}),
+      ...(quizState.mode === 'practice' ? { mode: quizState.mode } : {}),
+      currentQuestionIndex: quizState.currentQuestionIndex,
+      timeLeft: quizState.timeLeft,
+      totalTime: quizState.totalTime,
+      statusFilter: quizStatusFilter,
+      savedAt: Date.now(),
+    };
+    storeActiveQuiz(snapshot);
+
+    // Soru sureleri her saniye degisir; Firestore'a sure araligi dolunca gider
+    const syncKey = JSON.stringify([
+      snapshot.questions.map((entry) => [entry.trackingId, entry.answer]),
+      snapshot.currentQuestionIndex,
+      Math.floor(snapshot.timeLeft / ACTIVE_QUIZ_SYNC_INTERVAL_SECONDS),
+    ]);
+    if (syncKey === activeQuizSyncKeyRef.current) return;
+    activeQuizSyncKeyRef.current = syncKey;
+    setDoc(doc(db, 'users', user.uid, 'activeQuiz', ACTIVE_QUIZ_DOC_ID), snapshot).catch((error) => {
+      console.error('Yarim kalan test kaydedilemedi:', error);
+    });
+  }, [user?.uid, activeTopic, currentView, quizState, quizQuestionMeta, quizStatusFilter, examSections]);
+
   // Timer Logic
   useEffect(() => {
     if (currentView === 'quiz' && quizState.isTimerActive && !quizState.showResults && quizState.timeLeft > 0) {
       timerRef.current = window.setInterval(() => {
         setQuizState(prev => {
+          const timeSpentSeconds = addQuestionTimeTick(prev);
           if (prev.timeLeft <= 1) {
             if (timerRef.current) clearInterval(timerRef.current);
-            return { ...prev, timeLeft: 0, isTimerActive: false };
+            return { ...prev, timeLeft: 0, isTimerActive: false, timeSpentSeconds };
           }
-          return { ...prev, timeLeft: prev.timeLeft - 1 };
+          return { ...prev, timeLeft: prev.timeLeft - 1, timeSpentSeconds };
         });
       }, 1000);
     }
@@ -2176,7 +2803,9 @@ export default function App() {
     setReportNote('');
     setQuizConfirmAction(null);
     setQuizQuestionMeta([]);
+    setExamSections(null);
     setQuizState({
+      mode: 'exam',
       currentQuestionIndex: 0,
       userAnswers: [],
       showResults: false,
@@ -2186,6 +2815,118 @@ export default function App() {
       timeLeft: 0,
       totalTime: 0,
       isTimerActive: false,
+      checkedQuestions: [],
+      timeSpentSeconds: [],
+    });
+  };
+
+  // Test bitince veya birakilinca yarim test kaydi her iki yerden de silinir
+  const clearActiveQuiz = () => {
+    storeActiveQuiz(null);
+    setResumableQuiz(null);
+    activeQuizSyncKeyRef.current = '';
+    if (!user?.uid) return;
+    deleteDoc(doc(db, 'users', user.uid, 'activeQuiz', ACTIVE_QUIZ_DOC_ID)).catch((error) => {
+      console.error('Yarim kalan test silinemedi:', error);
+    });
+  };
+
+  const resolveActiveQuizTopic = (snapshot: ActiveQuizSnapshot): { cat: Category; sub: SubCategory } | null => {
+    if (snapshot.categoryId === ALL_LESSONS_CATEGORY_ID) {
+      if (snapshot.topicId === EXAM_SIMULATION_TOPIC_ID) {
+        return { cat: ALL_LESSONS_CATEGORY, sub: { id: EXAM_SIMULATION_TOPIC_ID, name: snapshot.topicName || examBlueprint.name } };
+      }
+      return snapshot.topicId === DUE_REVIEW_TOPIC_ID
+        ? { cat: ALL_LESSONS_CATEGORY, sub: { id: DUE_REVIEW_TOPIC_ID, name: DUE_REVIEW_TOPIC_NAME } }
+        : { cat: ALL_LESSONS_CATEGORY, sub: ALL_LESSONS_CATEGORY.subCategories[0] };
+    }
+    const category = categories.find((cat) => cat.id === snapshot.categoryId);
+    if (!category) return null;
+    if (getCategoryIdFromMixedTopicId(snapshot.topicId) === category.id) {
+      return { cat: category, sub: { id: snapshot.topicId, name: snapshot.topicName || 'Tum Konular' } };
+    }
+    const sub = category.subCategories.find((item) => item.id === snapshot.topicId);
+    return sub ? { cat: category, sub } : null;
+  };
+
+  const handleResumeQuiz = () => {
+    const snapshot = resumableQuiz;
+    if (!snapshot) return;
+    const restoredTopic = resolveActiveQuizTopic(snapshot);
+    if (!restoredTopic) {
+      showInlineNotice('Yarim kalan testin konusu artik bulunmuyor.');
+      return;
+    }
+
+    // Silinen sorular atlanir; sik sayisi degisen soru yeniden karistirilir ve cevabi bos sayilir
+    const restoredEntries = snapshot.questions.flatMap((entry, savedIndex) => {
+      const topicQuestions = quizQuestionsByTopic[entry.topicId] || [];
+      const question = topicQuestions.find((item, index) => getQuestionTrackingId(item, entry.topicId, index) === entry.trackingId);
+      if (!question) return [];
+      const hasSavedOrder = isOptionOrderFor(question, entry.optionOrder);
+      const optionOrder = hasSavedOrder ? entry.optionOrder! : getOptionShuffleOrder(question);
+      return [{
+        question: applyOptionOrder(question, optionOrder),
+        meta: { topicId: entry.topicId, trackingId: entry.trackingId, optionOrder },
+        answer: hasSavedOrder ? entry.answer : null,
+        timeSpent: entry.timeSpent || 0,
+        savedIndex,
+      }];
+    });
+    if (restoredEntries.length === 0) {
+      showInlineNotice('Yarim kalan testin sorulari bulunamadi. Sorular yuklendikten sonra tekrar deneyin.');
+      return;
+    }
+    if (restoredEntries.length < snapshot.questions.length) {
+      showInlineNotice(`${snapshot.questions.length - restoredEntries.length} soru artik bulunmadigi icin testten cikarildi.`, 'info');
+    }
+
+    if (timerRef.current) clearInterval(timerRef.current);
+    if (autoAdvanceRef.current) clearTimeout(autoAdvanceRef.current);
+    setIsQuestionJumpModalOpen(false);
+    setReportingQuestion(null);
+    setReportNote('');
+    setQuizConfirmAction(null);
+    setQuizQuestionMeta(restoredEntries.map((entry) => entry.meta));
+    // Cikarilan sorular bolum sinirlarini kaydirir; sinirlar kalan sorulara gore yeniden hesaplanir
+    let restoredSectionStart = 0;
+    const restoredSections = (snapshot.sections ?? []).flatMap((section) => {
+      const questionCount = restoredEntries.filter((entry) => (
+        entry.savedIndex >= section.startIndex && entry.savedIndex < section.startIndex + section.questionCount
+      )).length;
+      const startIndex = restoredSectionStart;
+      restoredSectionStart += questionCount;
+      return questionCount > 0 ? [{ ...section, startIndex, questionCount }] : [];
+    });
+    setExamSections(restoredSections.length > 0 ? restoredSections : null);
+    setActiveTopic(restoredTopic);
+    setQuizStatusFilter(snapshot.statusFilter);
+    setQuizTagQuestionCounts({});
+    setQuizTagPickerSourceKey('');
+    setQuizTagPickerCountInput('');
+    setQuizConfig({
+      questionCount: restoredEntries.length,
+      durationSeconds: snapshot.totalTime,
+    });
+    setCurrentView('quiz');
+    setIsMobileMenuOpen(false);
+    const restoredMode: QuizMode = snapshot.mode ?? 'exam';
+    setQuizState({
+      mode: restoredMode,
+      currentQuestionIndex: Math.min(snapshot.currentQuestionIndex, restoredEntries.length - 1),
+      userAnswers: restoredEntries.map((entry) => entry.answer),
+      showResults: false,
+      questions: restoredEntries.map((entry) => entry.question),
+      loading: false,
+      error: null,
+      timeLeft: snapshot.timeLeft,
+      totalTime: snapshot.totalTime,
+      isTimerActive: true,
+      // Alistirmada verilmis cevaplar kontrol edilmis sayilir
+      checkedQuestions: restoredMode === 'practice'
+        ? restoredEntries.map((entry) => isQuestionAnswered(entry.question, entry.answer))
+        : [],
+      timeSpentSeconds: restoredEntries.map((entry) => entry.timeSpent),
     });
   };
 
@@ -2202,7 +2943,7 @@ export default function App() {
 
   const openAllLessonsQuizSetup = () => {
     const totalQuestionCount = categories.reduce((sum, cat) => (
-      sum + cat.subCategories.reduce((topicSum, sub) => topicSum + ((allQuestions[sub.id] || []).length), 0)
+      sum + cat.subCategories.reduce((topicSum, sub) => topicSum + ((quizQuestionsByTopic[sub.id] || []).length), 0)
     ), 0);
     setMixedQuizScope({ mode: 'all' });
     const initialQuestionCount = Math.min(20, Math.min(ALL_LESSONS_MAX_QUESTION_COUNT, totalQuestionCount));
@@ -2215,7 +2956,7 @@ export default function App() {
   };
 
   const openCategoryMixedQuizSetup = (category: Category) => {
-    const categoryQuestionCount = category.subCategories.reduce((sum, sub) => sum + ((allQuestions[sub.id] || []).length), 0);
+    const categoryQuestionCount = category.subCategories.reduce((sum, sub) => sum + ((quizQuestionsByTopic[sub.id] || []).length), 0);
     setMixedQuizScope({ mode: 'category', categoryId: category.id });
     const initialQuestionCount = Math.min(20, Math.min(ALL_LESSONS_MAX_QUESTION_COUNT, categoryQuestionCount));
     setActiveCategory(category);
@@ -2269,55 +3010,22 @@ export default function App() {
     setMobileDashboardTab('categories');
   };
 
-  const startAllLessonsQuiz = () => {
-    if (allLessonsQuestionPool.length === 0) {
-      showInlineNotice('Soru havuzunda soru bulunamadi.');
-      return;
-    }
-
-    const safeCount = Math.min(
-      allLessonsQuestionCountMax,
-      Math.max(0, Math.floor(allLessonsQuestionCount))
-    );
-    if (safeCount === 0) {
-      showInlineNotice('Lutfen en az 1 soru secin.');
-      return;
-    }
-
-    const shuffledEntries = [...allLessonsQuestionPool];
-    for (let i = shuffledEntries.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [shuffledEntries[i], shuffledEntries[j]] = [shuffledEntries[j], shuffledEntries[i]];
-    }
-
-    const selectedEntries = shuffledEntries.slice(0, safeCount);
-    const selectedQuestionsWithShuffledOptions = selectedEntries.map((entry) => shuffleOptionsWithAnswer(entry.question));
-    const nextQuizQuestionMeta: QuizQuestionMeta[] = selectedEntries.map((entry) => ({
+  // Hazir secilmis sorularla sinavi baslatir; sayaclar, modallar ve sinav durumu burada sifirlanir
+  const launchQuiz = (
+    selectedEntries: Array<{ question: Question; topicId: string; trackingId: string }>,
+    topic: { cat: Category; sub: SubCategory },
+    durationSeconds: number,
+    sections: ExamSectionRange[] | null,
+    mode: QuizMode = quizMode,
+    statusFilter: QuizStatusFilter = { wrong: false, favorite: false }
+  ) => {
+    const selectedOptionOrders = selectedEntries.map((entry) => getOptionShuffleOrder(entry.question));
+    const selectedQuestionsWithShuffledOptions = selectedEntries.map((entry, index) => applyOptionOrder(entry.question, selectedOptionOrders[index]));
+    const nextQuizQuestionMeta: QuizQuestionMeta[] = selectedEntries.map((entry, index) => ({
       topicId: entry.topicId,
       trackingId: entry.trackingId,
+      optionOrder: selectedOptionOrders[index],
     }));
-    const durationSeconds = getAutoDurationForQuestionCount(safeCount);
-    const nextActiveTopic = (() => {
-      if (mixedQuizScope.mode === 'category') {
-        const targetCategory = categories.find((cat) => cat.id === mixedQuizScope.categoryId);
-        if (!targetCategory) return null;
-        return {
-          cat: targetCategory,
-          sub: {
-            id: getCategoryMixedTopicId(targetCategory.id),
-            name: 'Tum Konular',
-          },
-        };
-      }
-      return {
-        cat: ALL_LESSONS_CATEGORY,
-        sub: ALL_LESSONS_CATEGORY.subCategories[0],
-      };
-    })();
-    if (!nextActiveTopic) {
-      showInlineNotice('Secili ders bulunamadi.');
-      return;
-    }
 
     if (timerRef.current) clearInterval(timerRef.current);
     if (autoAdvanceRef.current) clearTimeout(autoAdvanceRef.current);
@@ -2326,13 +3034,14 @@ export default function App() {
     setReportNote('');
     setQuizConfirmAction(null);
     setQuizQuestionMeta(nextQuizQuestionMeta);
-    setActiveTopic(nextActiveTopic);
-    setQuizStatusFilter({ wrong: false, favorite: false });
+    setExamSections(sections);
+    setActiveTopic(topic);
+    setQuizStatusFilter(statusFilter);
     setQuizTagQuestionCounts({});
     setQuizTagPickerSourceKey('');
     setQuizTagPickerCountInput('');
     setQuizConfig({
-      questionCount: safeCount,
+      questionCount: selectedEntries.length,
       durationSeconds,
     });
     setCurrentView('quiz');
@@ -2348,6 +3057,9 @@ export default function App() {
       timeLeft: durationSeconds,
       totalTime: durationSeconds,
       isTimerActive: true,
+      mode,
+      checkedQuestions: [],
+      timeSpentSeconds: [],
     }));
 
     setTimeout(() => {
@@ -2360,44 +3072,147 @@ export default function App() {
     }, 600);
   };
 
-  const openQuizSetup = (category: Category, sub: SubCategory, preset: 'all' | 'wrong' | 'favorite' | 'wrong_favorite' = 'all') => {
-    const topicQuestions = allQuestions[sub.id] || [];
-    const wrongSet = new Set(wrongQuestionIdsByTopic[sub.id] || []);
-    const favoriteSet = new Set(favoriteQuestionIdsByTopic[sub.id] || []);
-    const nextStatusFilter =
-      preset === 'wrong'
-        ? { wrong: true, favorite: false }
-        : preset === 'favorite'
-          ? { wrong: false, favorite: true }
-          : preset === 'wrong_favorite'
-            ? { wrong: true, favorite: true }
-            : { wrong: false, favorite: false };
-    const statusActive = nextStatusFilter.wrong || nextStatusFilter.favorite;
-    const filteredCount = statusActive
-      ? topicQuestions.filter((question, index) => {
-          const questionTrackingId = getQuestionTrackingId(question, sub.id, index);
-          const includeWrong = nextStatusFilter.wrong && wrongSet.has(questionTrackingId);
-          const includeFavorite = nextStatusFilter.favorite && favoriteSet.has(questionTrackingId);
-          return includeWrong || includeFavorite;
-        }).length
-      : topicQuestions.length;
+  const startAllLessonsQuiz = () => {
+    if (allLessonsQuestionPool.length === 0) {
+      showInlineNotice('Soru havuzunda soru bulunamadi.');
+      return;
+    }
 
-    setActiveTopic({ cat: category, sub: sub });
-    const initialQuestionCount = filteredCount > 0 ? Math.min(10, filteredCount) : 0;
-    setQuizStatusFilter(nextStatusFilter);
-    setQuizTagQuestionCounts({});
-    setQuizTagPickerSourceKey('');
-    setQuizTagPickerCountInput('');
-    setQuizQuestionMeta([]);
-    setQuizConfig({
-      questionCount: initialQuestionCount,
-      durationSeconds: getAutoDurationForQuestionCount(initialQuestionCount),
-    });
-    setCurrentView('quiz-setup');
+    const safeCount = Math.min(
+      allLessonsQuestionCountMax,
+      Math.max(0, Math.floor(allLessonsQuestionCount))
+    );
+    if (safeCount === 0) {
+      showInlineNotice('Lutfen en az 1 soru secin.');
+      return;
+    }
+
+    const selectedEntries = getPassageAwareShuffleOrder(allLessonsQuestionPool.map((entry) => entry.question), safeCount)
+      .map((index) => allLessonsQuestionPool[index]);
+    const durationSeconds = getAutoDurationForQuestionCount(selectedEntries.length);
+    const nextActiveTopic = (() => {
+      if (mixedQuizScope.mode === 'category') {
+        const targetCategory = categories.find((cat) => cat.id === mixedQuizScope.categoryId);
+        if (!targetCategory) return null;
+        return {
+          cat: targetCategory,
+          sub: {
+            id: getCategoryMixedTopicId(targetCategory.id),
+            name: 'Tum Konular',
+          },
+        };
+      }
+      return {
+        cat: ALL_LESSONS_CATEGORY,
+        sub: ALL_LESSONS_CATEGORY.subCategories[0],
+      };
+    })();
+    if (!nextActiveTopic) {
+      showInlineNotice('Secili ders bulunamadi.');
+      return;
+    }
+
+    launchQuiz(selectedEntries, nextActiveTopic, durationSeconds, null);
+  };
+
+  const startDueReviewQuiz = () => {
+    if (dueReviewQuestionPool.length === 0) {
+      showInlineNotice('Bugun tekrar edilecek soru yok.', 'info');
+      return;
+    }
+
+    const selectedEntries = getPassageAwareShuffleOrder(dueReviewQuestionPool.map((entry) => entry.question), ALL_LESSONS_MAX_QUESTION_COUNT)
+      .map((index) => dueReviewQuestionPool[index]);
+    setActiveCategory(null);
+    launchQuiz(
+      selectedEntries,
+      { cat: ALL_LESSONS_CATEGORY, sub: { id: DUE_REVIEW_TOPIC_ID, name: DUE_REVIEW_TOPIC_NAME } },
+      getAutoDurationForQuestionCount(selectedEntries.length),
+      null
+    );
+  };
+
+  const openExamSetup = () => {
+    setActiveCategory(null);
+    setActiveTopic(null);
+    setCurrentView('exam-setup');
+    setIsMobileMenuOpen(false);
+  };
+
+  // Deneme sinavi: bolumler plandaki sirayla, her bolumun sorulari kendi havuzundan rastgele
+  const startExamSimulation = () => {
+    const sectionPicks = examBlueprint.sections.map((section) => {
+      const pool = examSectionPools[section.id] || [];
+      const entries = getPassageAwareShuffleOrder(pool.map((entry) => entry.question), section.questionCount)
+        .map((index) => pool[index]);
+      return { section, entries };
+    });
+    const selectedEntries = sectionPicks.flatMap((pick) => pick.entries);
+    if (selectedEntries.length === 0) {
+      showInlineNotice('Deneme sinavi icin bolumlere uyan soru bulunamadi.');
+      return;
+    }
+    const shortSections = sectionPicks.filter((pick) => pick.entries.length < pick.section.questionCount);
+    if (shortSections.length > 0) {
+      showInlineNotice(
+        `Havuzda yeterli soru yok, eksik kalan bolumler: ${shortSections.map((pick) => `${pick.section.name} ${pick.entries.length}/${pick.section.questionCount}`).join(', ')}`,
+        'info'
+      );
+    }
+
+    let sectionStart = 0;
+    const nextExamSections: ExamSectionRange[] = sectionPicks.flatMap(({ section, entries }) => {
+      const startIndex = sectionStart;
+      sectionStart += entries.length;
+      return entries.length > 0 ? [{ id: section.id, name: section.name, startIndex, questionCount: entries.length }] : [];
+    });
+    launchQuiz(
+      selectedEntries,
+      { cat: ALL_LESSONS_CATEGORY, sub: { id: EXAM_SIMULATION_TOPIC_ID, name: examBlueprint.name } },
+      examBlueprint.durationMinutes * 60,
+      nextExamSections,
+      'exam'
+    );
+  };
+
+  const openQuizSetup = (category: Category, sub: SubCategory, preset: 'all' | 'wrong' | 'favorite' | 'wrong_favorite' = 'all') => {
+    const topicQuestions = quizQuestionsByTopic[sub.id] || [];
+    const wrongSet = new Set(wrongQuestionIdsByTopic[sub.id] || []);
+    const favoriteSet = new Set(favoriteQuestionIdsByTopic[sub.id] || []);
+    const nextStatusFilter =
+      preset === 'wrong'
+        ? { wrong: true, favorite: false }
+        : preset === 'favorite'
+          ? { wrong: false, favorite: true }
+          : preset === 'wrong_favorite'
+            ? { wrong: true, favorite: true }
+            : { wrong: false, favorite: false };
+    const statusActive = nextStatusFilter.wrong || nextStatusFilter.favorite;
+    const filteredCount = statusActive
+      ? topicQuestions.filter((question, index) => {
+          const questionTrackingId = getQuestionTrackingId(question, sub.id, index);
+          const includeWrong = nextStatusFilter.wrong && wrongSet.has(questionTrackingId);
+          const includeFavorite = nextStatusFilter.favorite && favoriteSet.has(questionTrackingId);
+          return includeWrong || includeFavorite;
+        }).length
+      : topicQuestions.length;
+
+    setActiveTopic({ cat: category, sub: sub });
+    const initialQuestionCount = filteredCount > 0 ? Math.min(10, filteredCount) : 0;
+    setQuizStatusFilter(nextStatusFilter);
+    setQuizTagQuestionCounts({});
+    setQuizTagPickerSourceKey('');
+    setQuizTagPickerCountInput('');
+    setQuizQuestionMeta([]);
+    setQuizConfig({
+      questionCount: initialQuestionCount,
+      durationSeconds: getAutoDurationForQuestionCount(initialQuestionCount),
+    });
+    setCurrentView('quiz-setup');
   };
 
   const startPresetQuizFromTopic = (category: Category, sub: SubCategory, preset: 'wrong' | 'favorite') => {
-    const topicQuestionEntries = (allQuestions[sub.id] || []).map((question, index) => ({
+    const topicQuestionEntries = (quizQuestionsByTopic[sub.id] || []).map((question, index) => ({
       question,
       trackingId: getQuestionTrackingId(question, sub.id, index),
     }));
@@ -2422,62 +3237,16 @@ export default function App() {
       return;
     }
 
-    for (let i = filteredPool.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [filteredPool[i], filteredPool[j]] = [filteredPool[j], filteredPool[i]];
-    }
-
-    const questionCount = Math.min(10, filteredPool.length);
-    const durationSeconds = getAutoDurationForQuestionCount(questionCount);
-    const selectedEntries = filteredPool
-      .slice(0, questionCount)
-      .map((entry) => entry);
-    const selectedQuestionsWithShuffledOptions = selectedEntries
-      .map((entry) => shuffleOptionsWithAnswer(entry.question));
-    const nextQuizQuestionMeta: QuizQuestionMeta[] = selectedEntries.map((entry) => ({
-      topicId: sub.id,
-      trackingId: entry.trackingId,
-    }));
-
-    if (timerRef.current) clearInterval(timerRef.current);
-    if (autoAdvanceRef.current) clearTimeout(autoAdvanceRef.current);
-    setIsQuestionJumpModalOpen(false);
-    setReportingQuestion(null);
-    setReportNote('');
-    setQuizConfirmAction(null);
-    setQuizQuestionMeta(nextQuizQuestionMeta);
-    setActiveTopic({ cat: category, sub });
-    setQuizStatusFilter(nextStatusFilter);
-    setQuizTagQuestionCounts({});
-    setQuizTagPickerSourceKey('');
-    setQuizTagPickerCountInput('');
-    setQuizConfig({
-      questionCount,
-      durationSeconds,
-    });
-    setCurrentView('quiz');
-    setIsMobileMenuOpen(false);
-    setQuizState((prev) => ({
-      ...prev,
-      loading: true,
-      error: null,
-      questions: [],
-      userAnswers: [],
-      showResults: false,
-      currentQuestionIndex: 0,
-      timeLeft: durationSeconds,
-      totalTime: durationSeconds,
-      isTimerActive: true,
-    }));
-
-    setTimeout(() => {
-      setQuizState((prev) => ({
-        ...prev,
-        questions: selectedQuestionsWithShuffledOptions,
-        userAnswers: new Array(selectedQuestionsWithShuffledOptions.length).fill(null),
-        loading: false,
-      }));
-    }, 600);
+    const selectedEntries = getPassageAwareShuffleOrder(filteredPool.map((entry) => entry.question), 10)
+      .map((index) => ({ ...filteredPool[index], topicId: sub.id }));
+    launchQuiz(
+      selectedEntries,
+      { cat: category, sub },
+      getAutoDurationForQuestionCount(selectedEntries.length),
+      null,
+      quizMode,
+      nextStatusFilter
+    );
   };
 
   const openHomeStatsPresetQuiz = (preset: 'wrong' | 'favorite') => {
@@ -2487,7 +3256,7 @@ export default function App() {
 
     for (const category of scopedCategories) {
       for (const sub of category.subCategories) {
-        const topicQuestions = allQuestions[sub.id] || [];
+        const topicQuestions = quizQuestionsByTopic[sub.id] || [];
         if (topicQuestions.length === 0) continue;
 
         const trackingIdPool = new Set(
@@ -2524,7 +3293,7 @@ export default function App() {
     const wrongSet = new Set(wrongQuestionIdsByTopic[topicId] || []);
     const favoriteSet = new Set(favoriteQuestionIdsByTopic[topicId] || []);
     const isStatusFilterActive = quizStatusFilter.wrong || quizStatusFilter.favorite;
-    const topicQuestionEntries = (allQuestions[topicId] || []).map((question, index) => ({
+    const topicQuestionEntries = (quizQuestionsByTopic[topicId] || []).map((question, index) => ({
       question,
       trackingId: getQuestionTrackingId(question, topicId, index),
     }));
@@ -2551,33 +3320,30 @@ export default function App() {
       }, {});
 
       selectedTagEntries.forEach(({ sourceKey, count }) => {
-        const tagQuestions = [...(tagBuckets[sourceKey] || [])];
-        for (let i = tagQuestions.length - 1; i > 0; i--) {
-          const j = Math.floor(Math.random() * (i + 1));
-          [tagQuestions[i], tagQuestions[j]] = [tagQuestions[j], tagQuestions[i]];
-        }
-        selectedEntries.push(...tagQuestions.slice(0, Math.min(count, tagQuestions.length)));
+        const tagBucket = tagBuckets[sourceKey] || [];
+        const tagQuestions = getPassageAwareShuffleOrder(tagBucket.map((entry) => entry.question), count)
+          .map((index) => tagBucket[index]);
+        selectedEntries.push(...tagQuestions);
       });
 
-      for (let i = selectedEntries.length - 1; i > 0; i--) {
-        const j = Math.floor(Math.random() * (i + 1));
-        [selectedEntries[i], selectedEntries[j]] = [selectedEntries[j], selectedEntries[i]];
-      }
+      const pickedEntries = selectedEntries;
+      selectedEntries = getPassageAwareShuffleOrder(pickedEntries.map((entry) => entry.question))
+        .map((index) => pickedEntries[index]);
     } else {
-      for (let i = topicQuestionsPool.length - 1; i > 0; i--) {
-        const j = Math.floor(Math.random() * (i + 1));
-        [topicQuestionsPool[i], topicQuestionsPool[j]] = [topicQuestionsPool[j], topicQuestionsPool[i]];
-      }
-      selectedEntries = topicQuestionsPool.slice(0, quizConfig.questionCount);
+      selectedEntries = getPassageAwareShuffleOrder(topicQuestionsPool.map((entry) => entry.question), quizConfig.questionCount)
+        .map((index) => topicQuestionsPool[index]);
     }
 
-    const selectedQuestionsWithShuffledOptions = selectedEntries.map((entry) => shuffleOptionsWithAnswer(entry.question));
-    const nextQuizQuestionMeta: QuizQuestionMeta[] = selectedEntries.map((entry) => ({
+    const selectedOptionOrders = selectedEntries.map((entry) => getOptionShuffleOrder(entry.question));
+    const selectedQuestionsWithShuffledOptions = selectedEntries.map((entry, index) => applyOptionOrder(entry.question, selectedOptionOrders[index]));
+    const nextQuizQuestionMeta: QuizQuestionMeta[] = selectedEntries.map((entry, index) => ({
       topicId,
       trackingId: entry.trackingId,
+      optionOrder: selectedOptionOrders[index],
     }));
 
     setQuizQuestionMeta(nextQuizQuestionMeta);
+    setExamSections(null);
     setCurrentView('quiz');
     setQuizState(prev => ({
       ...prev,
@@ -2589,7 +3355,10 @@ export default function App() {
       currentQuestionIndex: 0,
       timeLeft: quizConfig.durationSeconds,
       totalTime: quizConfig.durationSeconds,
-      isTimerActive: true
+      isTimerActive: true,
+      mode: quizMode,
+      checkedQuestions: [],
+      timeSpentSeconds: [],
     }));
 
     // Soruları karıştır ve seç
@@ -2621,6 +3390,20 @@ export default function App() {
     const newAnswers = [...quizState.userAnswers];
     newAnswers[quizState.currentQuestionIndex] = optionIndex;
 
+    // Alistirma: ilk secim kilitlenir ve hemen kontrol edilir; kullanici "Devam et" ile ilerler
+    if (quizState.mode === 'practice') {
+      if (quizState.checkedQuestions[quizState.currentQuestionIndex]) return;
+      if (autoAdvanceRef.current) clearTimeout(autoAdvanceRef.current);
+      const newCheckedQuestions = [...quizState.checkedQuestions];
+      newCheckedQuestions[quizState.currentQuestionIndex] = true;
+      setQuizState(prev => ({
+        ...prev,
+        userAnswers: newAnswers,
+        checkedQuestions: newCheckedQuestions,
+      }));
+      return;
+    }
+
     setQuizState(prev => ({
       ...prev,
       userAnswers: newAnswers
@@ -2639,6 +3422,28 @@ export default function App() {
     }, 1000);
   };
 
+  // Eslestirme ve siralama cevaplari adim adim kurulur; otomatik gecis yapilmaz
+  const handleSetStructuredAnswer = (answer: number[] | null) => {
+    if (quizState.showResults) return;
+    if (quizState.mode === 'practice' && quizState.checkedQuestions[quizState.currentQuestionIndex]) return;
+    if (autoAdvanceRef.current) clearTimeout(autoAdvanceRef.current);
+    setQuizState(prev => {
+      const newAnswers = [...prev.userAnswers];
+      newAnswers[prev.currentQuestionIndex] = answer;
+      return { ...prev, userAnswers: newAnswers };
+    });
+  };
+
+  // Alistirmada eslestirme/siralama cevabi tamamlaninca "Kontrol et" ile kilitlenir
+  const handleCheckCurrentAnswer = () => {
+    setQuizState(prev => {
+      if (prev.mode !== 'practice' || prev.showResults) return prev;
+      const newCheckedQuestions = [...prev.checkedQuestions];
+      newCheckedQuestions[prev.currentQuestionIndex] = true;
+      return { ...prev, checkedQuestions: newCheckedQuestions };
+    });
+  };
+
   const handleNextQuestion = () => {
     if (autoAdvanceRef.current) clearTimeout(autoAdvanceRef.current);
     if (quizState.currentQuestionIndex < quizState.questions.length - 1) {
@@ -2698,6 +3503,7 @@ export default function App() {
         sourceTag: typeof question.sourceTag === 'string' ? question.sourceTag : null,
         createdAt: now,
         updatedAt: now,
+        review: createReviewSchedule(now),
       };
       setFavoriteQuestionsById((prev) => ({
         ...prev,
@@ -2713,16 +3519,19 @@ export default function App() {
     if (quizState.showResults) return;
     if (timerRef.current) clearInterval(timerRef.current);
     if (autoAdvanceRef.current) clearTimeout(autoAdvanceRef.current);
+    clearActiveQuiz();
 
     if (activeTopic && quizState.questions.length > 0 && user?.uid) {
       const currentAnswers = quizState.userAnswers;
       const currentQuestions = quizState.questions;
       const now = Date.now();
       const nextWrongQuestionStatsById = { ...wrongQuestionStatsById };
+      const nextFavoriteQuestionsById = { ...favoriteQuestionsById };
       const nextSeenQuestionsById = { ...seenQuestionsById };
       const nextTopicProgressStats = { ...topicProgressStats };
       const changedQuestionIds = new Set<string>();
       const changedSeenQuestionIds = new Set<string>();
+      const changedFavoriteQuestionIds = new Set<string>();
       const answeredQuestionCountByTopic: Record<string, number> = {};
       const touchedTopicIds = new Set<string>();
 
@@ -2733,7 +3542,9 @@ export default function App() {
         const questionTrackingId = questionMeta.trackingId;
         touchedTopicIds.add(topicId);
         const prevWrongStats = nextWrongQuestionStatsById[questionTrackingId];
-        const answer = currentAnswers[index];
+        const answer: QuizAnswer = currentAnswers[index];
+        const isAnswered = isQuestionAnswered(question, answer);
+        const isCorrect = isAnswerCorrect(question, answer);
         const prevTopicStats = nextTopicProgressStats[topicId] || EMPTY_TOPIC_PROGRESS;
         const topicStats: TopicProgressStats = nextTopicProgressStats[topicId]
           ? { ...nextTopicProgressStats[topicId] }
@@ -2741,11 +3552,14 @@ export default function App() {
         topicStats.lastPlayedAt = now;
         nextTopicProgressStats[topicId] = topicStats;
 
-        if (answer !== null && answer !== undefined) {
+        if (isAnswered) {
           answeredQuestionCountByTopic[topicId] = (answeredQuestionCountByTopic[topicId] || 0) + 1;
         }
 
         const prevSeenStats = nextSeenQuestionsById[questionTrackingId];
+        const timeSpent = quizState.timeSpentSeconds[index] || 0;
+        const prevTimedCount = prevSeenStats?.timedCount || 0;
+        const timedCount = prevTimedCount + (timeSpent > 0 ? 1 : 0);
         nextSeenQuestionsById[questionTrackingId] = {
           questionTrackingId,
           topicId,
@@ -2755,25 +3569,45 @@ export default function App() {
           firstSeenAt: prevSeenStats?.firstSeenAt || now,
           lastSeenAt: now,
           seenCount: (prevSeenStats?.seenCount || 0) + 1,
-          answeredCount: (prevSeenStats?.answeredCount || 0) + (answer === null || answer === undefined ? 0 : 1),
-          correctCount: (prevSeenStats?.correctCount || 0) + (answer === question.correctOptionIndex ? 1 : 0),
-          wrongCount: (prevSeenStats?.wrongCount || 0) + (answer !== null && answer !== undefined && answer !== question.correctOptionIndex ? 1 : 0),
+          answeredCount: (prevSeenStats?.answeredCount || 0) + (isAnswered ? 1 : 0),
+          correctCount: (prevSeenStats?.correctCount || 0) + (isCorrect ? 1 : 0),
+          wrongCount: (prevSeenStats?.wrongCount || 0) + (isAnswered && !isCorrect ? 1 : 0),
+          blankCount: (prevSeenStats?.blankCount || 0) + (isAnswered ? 0 : 1),
+          timedCount,
+          averageTimeSeconds: timeSpent > 0
+            ? Math.round((((prevSeenStats?.averageTimeSeconds || 0) * prevTimedCount + timeSpent) / timedCount) * 10) / 10
+            : (prevSeenStats?.averageTimeSeconds || 0),
+          lastTimeSeconds: timeSpent > 0 ? timeSpent : (prevSeenStats?.lastTimeSeconds || 0),
         };
         changedSeenQuestionIds.add(questionTrackingId);
 
-        if (answer === null || answer === undefined) {
+        if (!isAnswered) {
+          topicStats.totalBlankAnswers += 1;
           return;
         }
 
-        if (answer === question.correctOptionIndex) {
+        // Favoriler de cevaplandikca tekrar takvimine gore ilerler
+        const favoriteRecord = nextFavoriteQuestionsById[questionTrackingId];
+        if (favoriteRecord) {
+          nextFavoriteQuestionsById[questionTrackingId] = {
+            ...favoriteRecord,
+            review: getNextReviewSchedule(favoriteRecord.review, isCorrect, now),
+            updatedAt: now,
+          };
+          changedFavoriteQuestionIds.add(questionTrackingId);
+        }
+
+        if (isCorrect) {
           topicStats.correctCount += 1;
           if (prevWrongStats && prevWrongStats.status === 'active_wrong') {
-            const nextRecoveryStreak = prevWrongStats.recoveryStreak + 1;
+            const nextReview = getNextReviewSchedule(prevWrongStats.review, true, now);
+            const isResolved = hasCompletedReviews(nextReview);
             nextWrongQuestionStatsById[questionTrackingId] = {
               ...prevWrongStats,
-              recoveryStreak: nextRecoveryStreak,
-              status: nextRecoveryStreak >= WRONG_RECOVERY_STREAK_TARGET ? 'resolved' : prevWrongStats.status,
-              resolvedAt: nextRecoveryStreak >= WRONG_RECOVERY_STREAK_TARGET ? now : 0,
+              recoveryStreak: prevWrongStats.recoveryStreak + 1,
+              status: isResolved ? 'resolved' : prevWrongStats.status,
+              resolvedAt: isResolved ? now : 0,
+              review: nextReview,
             };
             changedQuestionIds.add(questionTrackingId);
           }
@@ -2789,6 +3623,7 @@ export default function App() {
           wrongCount: (prevWrongStats?.wrongCount || 0) + 1,
           lastWrongAt: now,
           resolvedAt: 0,
+          review: createReviewSchedule(now),
         };
         changedQuestionIds.add(questionTrackingId);
       });
@@ -2798,7 +3633,7 @@ export default function App() {
         const topicStats: TopicProgressStats = nextTopicProgressStats[topicId]
           ? { ...nextTopicProgressStats[topicId] }
           : { ...prevTopicStats };
-        const topicQuestionCount = allQuestions[topicId]?.length || 0;
+        const topicQuestionCount = quizQuestionsByTopic[topicId]?.length || 0;
         const answeredQuestionCount = answeredQuestionCountByTopic[topicId] || 0;
         topicStats.seenCount = Math.min(topicQuestionCount, topicStats.seenCount + answeredQuestionCount);
         topicStats.lastPlayedAt = now;
@@ -2810,6 +3645,7 @@ export default function App() {
 
       setTopicProgressStats(nextTopicProgressStats);
       setWrongQuestionStatsById(nextWrongQuestionStatsById);
+      setFavoriteQuestionsById(nextFavoriteQuestionsById);
       setSeenQuestionsById(nextSeenQuestionsById);
 
       const persistTopicAndWrongStats = async () => {
@@ -2824,7 +3660,6 @@ export default function App() {
                 ...topicStats,
                 completedQuizCount: deleteField(),
                 blankCount: deleteField(),
-                totalBlankAnswers: deleteField(),
               },
               { merge: true }
             );
@@ -2843,16 +3678,23 @@ export default function App() {
             );
           });
 
+          changedFavoriteQuestionIds.forEach((questionTrackingId) => {
+            const favoriteRecord = nextFavoriteQuestionsById[questionTrackingId];
+            if (!favoriteRecord) return;
+            batch.set(
+              doc(db, 'users', user.uid, 'favoriteQuestions', getFavoriteQuestionDocId(questionTrackingId)),
+              { review: favoriteRecord.review, updatedAt: favoriteRecord.updatedAt },
+              { merge: true }
+            );
+          });
+
           if (persistSeenQuestionsToFirestore) {
             changedSeenQuestionIds.forEach((questionTrackingId) => {
               const seenStats = nextSeenQuestionsById[questionTrackingId];
               if (!seenStats) return;
               batch.set(
                 doc(db, 'users', user.uid, 'seenQuestions', getSeenQuestionDocId(questionTrackingId)),
-                {
-                  ...seenStats,
-                  blankCount: deleteField(),
-                },
+                seenStats,
                 { merge: true }
               );
             });
@@ -2895,7 +3737,11 @@ export default function App() {
   };
 
   const downloadJsonFile = (filename: string, payload: unknown) => {
-    const blob = new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json;charset=utf-8' });
+    downloadTextFile(filename, JSON.stringify(payload, null, 2), 'application/json;charset=utf-8');
+  };
+
+  const downloadTextFile = (filename: string, content: string, mimeType: string) => {
+    const blob = new Blob([content], { type: mimeType });
     const url = window.URL.createObjectURL(blob);
     const link = window.document.createElement('a');
     link.href = url;
@@ -2912,13 +3758,24 @@ export default function App() {
       questionId,
       questionText: question.questionText,
       contextText: question.contextText || null,
+      tables: question.tables || null,
       contentItems: Array.isArray(question.contentItems) ? question.contentItems : [],
       options: Array.isArray(question.options) ? question.options : [],
       correctOptionIndex: question.correctOptionIndex,
-      answer: 'ABCDE'[question.correctOptionIndex] || null,
+      answer: question.options?.[question.correctOptionIndex] !== undefined ? getOptionLetter(question.correctOptionIndex) : null,
       explanation: question.explanation || '',
+      optionExplanations: question.optionExplanations || null,
+      type: getQuestionType(question),
+      ...(question.type === 'matching'
+        ? { pairs: question.matchPrompts.map((prompt, index) => ({ left: prompt, right: question.options[question.correctMatches[index]] ?? '' })) }
+        : {}),
+      ...(question.type === 'ordering' ? { correctOrder: question.correctOrder.map(getOptionLetter).join('-') } : {}),
       sourceTag: question.sourceTag || null,
       imageUrl: question.imageUrl || null,
+      images: question.images || null,
+      optionImages: question.optionImages || null,
+      lockOptionOrder: typeof question.lockOptionOrder === 'boolean' ? question.lockOptionOrder : null,
+      passage: question.passage || null,
     };
   };
 
@@ -2949,6 +3806,84 @@ export default function App() {
     downloadJsonFile(`sorular_${selectedTopic.id}_${dateText}.json`, payload);
   };
 
+  const handleExportQuestionsByTopicCsv = () => {
+    if (!adminSelectedTopicId) return;
+    const selectedCategory = categories.find((cat) => cat.id === adminSelectedCatId);
+    const selectedTopic = selectedCategory?.subCategories.find((sub) => sub.id === adminSelectedTopicId);
+    const topicQuestions = allQuestions[adminSelectedTopicId] || [];
+    if (!selectedTopic || topicQuestions.length === 0) {
+      alert('Export edilecek soru bulunamadi.');
+      return;
+    }
+
+    const csv = serializeQuestionsToCsv(topicQuestions.map((question) => ({
+      ...question,
+      questionId: getQuestionStableId(question) || createQuestionId(selectedTopic.id),
+    })));
+    const dateText = new Date().toISOString().slice(0, 10);
+    // BOM olmadan Excel Turkce karakterleri bozuk acar
+    downloadTextFile(`sorular_${selectedTopic.id}_${dateText}.csv`, `\uFEFF${csv}`, 'text/csv;charset=utf-8');
+  };
+
+  // Metne yazilip ayni temizlik ayarlariyla geri okundugunda degisecek sorular (coktan secmeli olmayanlar dahil) metin disinda birakilir
+  const splitTextRoundTripQuestions = (questions: Question[], normalization: TextNormalizationSettings) => {
+    const mismatchIndexes = new Set(findTextRoundTripMismatches(questions, normalization));
+    return {
+      included: questions.filter((_, index) => !mismatchIndexes.has(index)),
+      excluded: questions.filter((_, index) => mismatchIndexes.has(index)),
+    };
+  };
+
+  const formatTextExcludedNotice = (excluded: Question[]) => {
+    const typeCounts = new Map<string, number>();
+    excluded.forEach((question) => {
+      const label = getQuestionType(question) === 'multipleChoice' ? 'metne birebir yazilamayan' : QUESTION_TYPE_LABELS[getQuestionType(question)];
+      typeCounts.set(label, (typeCounts.get(label) || 0) + 1);
+    });
+    const summary = Array.from(typeCounts.entries()).map(([label, count]) => `${count} ${label}`).join(', ');
+    return `${excluded.length} soru metin formatina alinmadi (${summary}). Bu sorular icin JSON veya CSV kullanin.`;
+  };
+
+  const handleExportQuestionsByTopicText = () => {
+    if (!adminSelectedTopicId) return;
+    const selectedCategory = categories.find((cat) => cat.id === adminSelectedCatId);
+    const selectedTopic = selectedCategory?.subCategories.find((sub) => sub.id === adminSelectedTopicId);
+    // Disa aktarilan metin toplu aktarimda gecerli temizlik ayarlariyla geri okunur
+    const { included: topicQuestions, excluded } = splitTextRoundTripQuestions(allQuestions[adminSelectedTopicId] || [], bulkNormalizationSettings);
+    if (!selectedTopic || topicQuestions.length === 0) {
+      alert(excluded.length > 0 ? formatTextExcludedNotice(excluded) : 'Export edilecek soru bulunamadi.');
+      return;
+    }
+    if (excluded.length > 0) alert(formatTextExcludedNotice(excluded));
+
+    const dateText = new Date().toISOString().slice(0, 10);
+    downloadTextFile(`sorular_${selectedTopic.id}_${dateText}.txt`, serializeQuestionsToText(topicQuestions), 'text/plain;charset=utf-8');
+  };
+
+  const handleOpenTopicTextEdit = () => {
+    if (!adminSelectedTopicId) return;
+    // Metinde bulunmayan sorular silinir; metne birebir yazilamayan sorular bu yuzden kaynaga hic alinmaz ve oldugu gibi kalir
+    const { included: topicQuestions, excluded } = splitTextRoundTripQuestions(allQuestions[adminSelectedTopicId] || [], NO_TEXT_NORMALIZATION);
+    if (topicQuestions.length === 0) {
+      alert(excluded.length > 0 ? formatTextExcludedNotice(excluded) : 'Duzenlenecek soru bulunamadi.');
+      return;
+    }
+    if (excluded.length > 0) alert(`${formatTextExcludedNotice(excluded)} Metin duzenlemesi bu sorulara dokunmaz.`);
+
+    setBulkTextEditSource(topicQuestions);
+    setBulkText(serializeQuestionsToText(topicQuestions));
+    setBulkSourceTagInput(' ');
+    setBulkParsed([]);
+    setBulkParseErrors([]);
+    setBulkQuestionDiagnostics([]);
+    setBulkJsonRepairs([]);
+    setBulkJsonSyntaxError(null);
+    setBulkNormalizationPreview(null);
+    setBulkNormalizationChanges([]);
+    setBulkStep('paste');
+    setIsBulkImportOpen(true);
+  };
+
   const handleExportAllQuestionsByTopic = () => {
     const topicExports = categories.flatMap((cat) => (
       cat.subCategories
@@ -2993,6 +3928,64 @@ export default function App() {
 
   // --- Admin Handlers (GÜNCELLENDİ) ---
 
+  const handleOpenMissingAnswerQueue = () => {
+    const hasTopicEntries = missingAnswerEntries.some((entry) => entry.topicId === adminSelectedTopicId);
+    setMissingAnswerTopicFilter(hasTopicEntries ? adminSelectedTopicId : '');
+    setMissingAnswerKeyText('');
+    setIsMissingAnswerQueueOpen(true);
+  };
+
+  const handleSetMissingAnswer = async (question: Question, optionIndex: number) => {
+    if (!question.id) return;
+    try {
+      await updateDoc(doc(db, "questions", question.id), { correctOptionIndex: optionIndex });
+    } catch (error) {
+      console.error("Cevap kaydedilemedi:", error);
+      alert("Cevap kaydedilemedi. Lutfen tekrar deneyin.");
+    }
+  };
+
+  // Anahtardaki numaralar kuyruktaki siraya gore eslesir (1 = listedeki ilk soru)
+  const handleApplyMissingAnswerKey = async () => {
+    const answers = parseAnswerKey(missingAnswerKeyText);
+    if (answers.size === 0) {
+      alert('Cevap anahtari okunamadi. Ornek: 1-A 2-C 3-E');
+      return;
+    }
+    const updates: { question: Question; optionIndex: number }[] = [];
+    const skipped: number[] = [];
+    answers.forEach((letter, number) => {
+      const entry = missingAnswerQueue[number - 1];
+      // Eslestirme/siralama cevaplari tek harfle yazilamaz; bu sorular duzenleme formundan girilir
+      const optionIndex = entry && hasSingleAnswer(entry.question) ? getOptionLetterIndex(letter, entry.question.options.length) : -1;
+      if (!entry || !entry.question.id || topicBloggerPages[entry.topicId] || optionIndex < 0) {
+        skipped.push(number);
+        return;
+      }
+      updates.push({ question: entry.question, optionIndex });
+    });
+    if (updates.length === 0) {
+      alert(`Anahtardaki numaralar listedeki sorularla eslesmedi (${skipped.join(', ')}).`);
+      return;
+    }
+    const skippedNote = skipped.length > 0 ? ` Eslesmeyen veya gecersiz: ${skipped.join(', ')}.` : '';
+    if (!window.confirm(`${updates.length} sorunun cevabi kaydedilecek.${skippedNote} Devam edilsin mi?`)) return;
+
+    try {
+      for (let start = 0; start < updates.length; start += BULK_SAVE_CHUNK_SIZE) {
+        const batch = writeBatch(db);
+        updates.slice(start, start + BULK_SAVE_CHUNK_SIZE).forEach(({ question, optionIndex }) => {
+          batch.update(doc(db, "questions", question.id!), { correctOptionIndex: optionIndex });
+        });
+        await batch.commit();
+      }
+      setMissingAnswerKeyText('');
+    } catch (error) {
+      console.error("Cevap anahtari kaydedilemedi:", error);
+      alert("Cevap anahtari kaydedilirken hata olustu.");
+    }
+  };
+
   const handleDeleteQuestion = async (questionId: string) => {
     if (!user || user.role !== 'admin') return;
     if (!window.confirm("Bu soruyu kalici olarak silmek istediginize emin misiniz?")) return;
@@ -3211,34 +4204,80 @@ export default function App() {
       alert('Bu konu Blogger linkinden besleniyor. Duzenleme icin JSON kaynagini guncelleyin.');
       return;
     }
+    // Eslestirme ve siralama sorularinda formda yalnizca cevap ve aciklama duzenlenir
+    if (getQuestionType(q) === 'trueFalse') {
+      alert(`${QUESTION_TYPE_LABELS.trueFalse} sorulari formla duzenlenemez. Duzenleme icin JSON ile yeniden ice aktarin.`);
+      return;
+    }
+    const answerOrder = q.type === 'matching' ? q.correctMatches : q.type === 'ordering' ? q.correctOrder : null;
     setEditingQuestion({ index: idx, question: q });
     setEditForm({
       imageUrl: q.imageUrl || '',
-      contextText: q.contextText || '',
+      contextText: [q.contextText, ...(q.tables ?? []).map(formatTableMarkdown)].filter(Boolean).join('\n\n'),
       itemsText: q.contentItems ? q.contentItems.join('\n') : '',
       sourceTag: q.sourceTag || '',
-      questionRoot: q.questionText,
-      optionsText: q.options.map((opt, i) => `${String.fromCharCode(65 + i)}) ${opt}`).join('\n'),
+      questionRoot: [
+        ...(q.images ?? []).filter((image) => image.url !== q.imageUrl).map(formatImageMarker),
+        q.questionText,
+      ].join('\n'),
+      optionsText: q.options.map((opt, i) => {
+        const optionImage = q.optionImages?.[i];
+        return `${getOptionLetter(i)}) ${optionImage ? `${opt} ${formatImageMarker(optionImage)}`.trim() : opt}`;
+      }).join('\n'),
       correctOption: q.correctOptionIndex,
       explanation: q.explanation,
+      optionExplanationsText: formatOptionExplanationLines(q.optionExplanations),
+      lockOptionOrder: q.lockOptionOrder === true,
+      answerOrderText: answerOrder && hasKnownAnswer(q) ? answerOrder.map(getOptionLetter).join('-') : '',
     });
   };
 
   const handleSaveEditQuestion = async () => {
     if (!editingQuestion) return;
-    const options = parseOptions(editForm.optionsText);
+    const editedQuestion: Question = editingQuestion.question;
+    if (editedQuestion.type === 'matching' || editedQuestion.type === 'ordering') {
+      const answerOrder = parseOptionOrder(editForm.answerOrderText, editedQuestion.options.length);
+      if (!answerOrder) {
+        alert(`Cevapta ${formatOptionRange(editedQuestion.options.length)} harflerinin her biri bir kez yer almali (ornek: C-A-B).`);
+        return;
+      }
+      try {
+        await updateDoc(doc(db, "questions", editedQuestion.id!), {
+          [editedQuestion.type === 'matching' ? 'correctMatches' : 'correctOrder']: answerOrder,
+          explanation: editForm.explanation,
+        });
+        setEditingQuestion(null);
+      } catch (error) {
+        console.error("Güncelleme hatası:", error);
+        alert("Güncelleme sırasında hata oluştu.");
+      }
+      return;
+    }
+    const parsedOptions = parseOptions(editForm.optionsText);
+    if (!validateFormOptions(parsedOptions, editForm.correctOption)) return;
     const contentItems = parseItems(editForm.itemsText);
+    const context = extractTableBlocks(editForm.contextText);
+    const { questionText, options, ...imageFields } = buildFormImageFields(
+      editForm.imageUrl,
+      editForm.questionRoot,
+      parsedOptions,
+      getQuestionImages(editingQuestion.question)
+    );
 
     const updatedData = {
       questionId: getQuestionStableId(editingQuestion.question) || editingQuestion.question.id || createQuestionId(adminSelectedTopicId || 'topic'),
-      imageUrl: editForm.imageUrl.trim() || null,
-      contextText: editForm.contextText.trim() || null,
+      ...imageFields,
+      contextText: context.text.trim() || null,
+      tables: context.tables.length > 0 ? context.tables : null,
       contentItems: contentItems.length > 0 ? contentItems : null,
       sourceTag: editForm.sourceTag.trim() || null,
-      questionText: editForm.questionRoot,
+      questionText,
       options,
+      // Isaretsizse null: sira sik metinlerinden otomatik belirlenir
+      lockOptionOrder: editForm.lockOptionOrder || null,
       correctOptionIndex: editForm.correctOption,
       explanation: editForm.explanation,
+      optionExplanations: parseOptionExplanations(editForm.optionExplanationsText, options.length) ?? null,
       // topicId değişmiyor
     };
 
@@ -3524,7 +4563,42 @@ export default function App() {
     if (parts.length >= 2) return parts.map(p => p.trim());
     const lines = text.split('\n').filter(l => l.trim() !== '');
     if (lines.length >= 2) return lines;
-    return ["Secenek A", "Secenek B", "Secenek C", "Secenek D", "Secenek E"];
+    return getOptionLetters(MAX_OPTION_COUNT).map(letter => `Secenek ${letter}`);
+  };
+
+  // Dogru cevap listesi yazilan sik sayisina gore A-D veya A-E olur
+  const getFormOptionLetters = (optionsText: string): string[] => {
+    const optionCount = parseOptions(optionsText).length;
+    return getOptionLetters(Math.min(Math.max(optionCount, MIN_OPTION_COUNT), MAX_OPTION_COUNT));
+  };
+
+  // Formda ek gorseller soru kokune, secenek gorselleri sik satirina [GÖRSEL: ...] olarak yazilir
+  const buildFormImageFields = (imageUrlInput: string, questionRoot: string, options: string[], previousImages: QuestionImage[] = []) => {
+    const stem = extractImageMarkers(questionRoot);
+    const optionParts = options.map(extractImageMarkers);
+    const imageUrl = imageUrlInput.trim();
+    const mainImage = imageUrl ? (previousImages.find((image) => image.url === imageUrl) ?? { url: imageUrl }) : null;
+    const images = [...(mainImage ? [mainImage] : []), ...stem.images.filter((image) => image.url !== imageUrl)];
+    const optionImages = optionParts.map((part) => part.images[0] ?? null);
+    return {
+      questionText: stem.text.trim(),
+      options: optionParts.map((part) => part.text),
+      imageUrl: images[0]?.url ?? null,
+      images: images.length > 0 ? images : null,
+      optionImages: optionImages.some(Boolean) ? optionImages : null,
+    };
+  };
+
+  const validateFormOptions = (options: string[], correctOption: number): boolean => {
+    if (!isSupportedOptionCount(options.length)) {
+      alert(`Soru ${MIN_OPTION_COUNT} (${formatOptionRange(MIN_OPTION_COUNT)}) veya ${MAX_OPTION_COUNT} (${formatOptionRange(MAX_OPTION_COUNT)}) secenekli olmali. Yazilan sik sayisi: ${options.length}.`);
+      return false;
+    }
+    if (correctOption >= options.length) {
+      alert(`Dogru cevap ${formatOptionRange(options.length)} araliginda olmali.`);
+      return false;
+    }
+    return true;
   };
 
   const parseItems = (text: string): string[] => {
@@ -3551,19 +4625,25 @@ export default function App() {
       return null;
     }
 
-    const options = parseOptions(questionForm.optionsText);
+    const parsedOptions = parseOptions(questionForm.optionsText);
+    if (!validateFormOptions(parsedOptions, questionForm.correctOption)) return null;
     const contentItems = parseItems(questionForm.itemsText);
+    const context = extractTableBlocks(questionForm.contextText);
+    const { questionText: stemText, options, ...imageFields } = buildFormImageFields(questionForm.imageUrl, questionText, parsedOptions);
 
     return {
       questionId: createQuestionId(topicId),
-      imageUrl: questionForm.imageUrl.trim() || null,
-      contextText: questionForm.contextText.trim() || null,
+      ...imageFields,
+      contextText: context.text.trim() || null,
+      tables: context.tables.length > 0 ? context.tables : null,
       contentItems: contentItems.length > 0 ? contentItems : null,
       sourceTag: questionForm.sourceTag.trim() || null,
-      questionText,
+      questionText: stemText,
       options: options,
+      lockOptionOrder: questionForm.lockOptionOrder || null,
       correctOptionIndex: questionForm.correctOption,
       explanation: questionForm.explanation.trim(),
+      optionExplanations: parseOptionExplanations(questionForm.optionExplanationsText, options.length) ?? null,
       topicId: topicId,
       createdAt: new Date()
     };
@@ -3616,28 +4696,96 @@ export default function App() {
   };
 
   // Bulk import handlers
-  const handleBulkParse = () => {
+  const handleBulkParse = async () => {
     if (!isBulkSourceTagValid) {
       alert('Etiket zorunlu. Bos gecmek icin sadece 1 adet bosluk girin.');
       return;
     }
-    if (!bulkText.trim()) return;
-    const report = parseBulkQuestionsWithReport(bulkText);
-    setBulkParsed(report.questions);
-    setBulkParseErrors(report.errors);
-    setBulkStep('preview');
-  };
-
-  const handleBulkSave = async () => {
-    if (!isBulkSourceTagValid) {
-      alert('Etiket zorunlu. Bos gecmek icin sadece 1 adet bosluk girin.');
+    if (!bulkText.trim() || isBulkParsing) return;
+    // Metin duzenlemede dokunulmayan sorular degismesin diye temizlik uygulanmaz; gerekirse Onizle ile elle uygulanir
+    const task = startBulkParseTask(
+      bulkText,
+      { strictJson: isBulkStrictJson, normalization: bulkTextEditSource ? NO_TEXT_NORMALIZATION : bulkNormalizationSettings },
+      setBulkParseProgress
+    );
+    bulkParseTaskRef.current = task;
+    setIsBulkParsing(true);
+    setBulkParseProgress(null);
+    let report: BulkParseReport | null = null;
+    try {
+      report = await task.promise;
+    } catch (error) {
+      console.error('Toplu ayristirma hatasi:', error);
+      alert('Metin ayristirilirken bir hata olustu.');
+    } finally {
+      if (bulkParseTaskRef.current === task) bulkParseTaskRef.current = null;
+      setIsBulkParsing(false);
+      setBulkParseProgress(null);
+    }
+    // Iptal edildi veya hata verdi
+    if (!report) return;
+    // Tani satir numaralari temizlenmis metne gore; duzenleme alani da o metni gostersin
+    if (report.textNormalization && report.textNormalization.changes.length > 0) {
+      setBulkText(report.textNormalization.text);
+    }
+    setBulkNormalizationChanges(report.textNormalization?.changes ?? []);
+    setBulkNormalizationPreview(null);
+    // Metin duzenlemede her blok [ID: ...] satiriyla kaynaktaki soruya eslesir ve etiketini korur; kaynakta olmayan
+    // ya da kimligi silinmis bloklar yeni soru olarak eklenir. Gorseller metindeki [GÖRSEL: ...] isaretlerinden gelir
+    const textEditSourceById = new Map<string, Question>();
+    (bulkTextEditSource ?? []).forEach((question) => {
+      const stableId = getQuestionStableId(question);
+      if (stableId) textEditSourceById.set(stableId, question);
+    });
+    const parsedQuestions = bulkTextEditSource
+      ? report.questions.map((question, index) => {
+          const original = textEditSourceById.get(sanitizeQuestionId(question.id) || '');
+          if (!original) return { ...question, id: `bulk_${Date.now()}_${index}` };
+          return { ...question, sourceTag: question.sourceTag ?? original.sourceTag };
+        })
+      : report.questions;
+    setBulkParsed(parsedQuestions);
+    setBulkParseErrors(report.errors);
+    setBulkQuestionDiagnostics(
+      parsedQuestions.map((question, index) => {
+        const diagnostics = report.diagnostics.filter(diagnostic => diagnostic.questionIndex === index);
+        const sizeDiagnostic = getOversizedQuestionDiagnostic(question, index);
+        return sizeDiagnostic ? [...diagnostics, sizeDiagnostic] : diagnostics;
+      })
+    );
+    setBulkJsonRepairs(report.jsonRepairs);
+    setBulkJsonSyntaxError(report.jsonSyntaxError);
+    setBulkStep('preview');
+  };
+
+  const handleBulkSave = async () => {
+    if (!isBulkSourceTagValid) {
+      alert('Etiket zorunlu. Bos gecmek icin sadece 1 adet bosluk girin.');
+      return;
+    }
+    if (!adminSelectedTopicId || bulkParsed.length === 0 || bulkSaveProgress) return;
+    const oversizedCount = bulkParsed.filter((q, index) => getOversizedQuestionDiagnostic(q, index)).length;
+    if (oversizedCount > 0) {
+      alert(`${oversizedCount} soru Firestore'un 1 MiB belge sinirini asiyor (onizlemede isaretli). Bu sorularin gorsellerini kucultup tekrar deneyin.`);
       return;
     }
-    if (!adminSelectedTopicId || bulkParsed.length === 0) return;
     const bulkSourceTag = bulkSourceTagInput === ' ' ? null : bulkSourceTagInput.trim();
+    const replacedQuestionIds = new Set<string>(
+      (bulkTextEditSource ?? [])
+        .map((question) => getQuestionStableId(question))
+        .filter((id): id is string => Boolean(id))
+    );
+    const removedQuestionIds = Array.from(replacedQuestionIds).filter((id) => (
+      !bulkParsed.some((q) => (sanitizeQuestionId(q.questionId) || sanitizeQuestionId(q.id)) === id)
+    ));
+    if (removedQuestionIds.length > 0) {
+      const confirmed = window.confirm(`Metinde bulunmayan ${removedQuestionIds.length} soru konudan silinecek. Devam etmek istiyor musunuz?`);
+      if (!confirmed) return;
+    }
     
+    // Firestore toplu yazmada 500 islem ve 10 MiB siniri var; kayitlar parca parca yazilir ve ilerleme gosterilir
+    const writes: { docRef: DocumentReference; data?: Record<string, unknown>; merge?: boolean; bytes: number }[] = [];
     try {
-      const batch = writeBatch(db);
       const usedQuestionIds = new Set<string>();
 
       bulkParsed.forEach((q, index) => {
@@ -3652,50 +4800,193 @@ export default function App() {
         usedQuestionIds.add(uniqueQuestionId);
 
         const docRef = doc(db, "questions", uniqueQuestionId);
-        batch.set(docRef, {
+        const questionData = {
           questionId: uniqueQuestionId,
           imageUrl: q.imageUrl ?? null,
+          images: q.images ?? null,
+          optionImages: q.optionImages ?? null,
           contextText: q.contextText ?? null,
+          tables: q.tables ?? null,
           contentItems: q.contentItems ?? null,
-          sourceTag: bulkSourceTag,
+          sourceTag: bulkSourceTag ?? q.sourceTag ?? null,
+          passage: q.passage ?? null,
           questionText: q.questionText,
           options: q.options,
+          ...(typeof q.lockOptionOrder === 'boolean' ? { lockOptionOrder: q.lockOptionOrder } : {}),
+          ...(q.optionExplanations ? { optionExplanations: q.optionExplanations } : {}),
+          ...(q.type && q.type !== 'multipleChoice' ? { type: q.type } : {}),
+          ...(q.type === 'matching' ? { matchPrompts: q.matchPrompts, correctMatches: q.correctMatches } : {}),
+          ...(q.type === 'ordering' ? { correctOrder: q.correctOrder } : {}),
           correctOptionIndex: q.correctOptionIndex,
           explanation: q.explanation ?? '',
           topicId: adminSelectedTopicId,
-          createdAt: new Date(Date.now() + index)
-        });
+        };
+        if (replacedQuestionIds.has(uniqueQuestionId)) {
+          // Mevcut soru guncellenir, olusturma zamani (siralama) korunur; metinden silinen ayar ve aciklamalar kayittan da silinir
+          writes.push({
+            docRef,
+            data: {
+              ...questionData,
+              ...(typeof q.lockOptionOrder === 'boolean' ? {} : { lockOptionOrder: deleteField() }),
+              ...(q.optionExplanations ? {} : { optionExplanations: deleteField() }),
+            },
+            merge: true,
+            bytes: getApproxDocumentBytes(questionData),
+          });
+        } else {
+          writes.push({ docRef, data: { ...questionData, createdAt: new Date(Date.now() + index) }, bytes: getApproxDocumentBytes(questionData) });
+        }
+      });
+      removedQuestionIds.forEach((questionId) => {
+        writes.push({ docRef: doc(db, "questions", questionId), bytes: 0 });
+      });
+
+      const chunks: typeof writes[] = [];
+      let chunkBytes = 0;
+      writes.forEach((write) => {
+        const currentChunk = chunks[chunks.length - 1];
+        if (!currentChunk || currentChunk.length >= BULK_SAVE_CHUNK_SIZE || chunkBytes + write.bytes > BULK_SAVE_CHUNK_MAX_BYTES) {
+          chunks.push([write]);
+          chunkBytes = write.bytes;
+          return;
+        }
+        currentChunk.push(write);
+        chunkBytes += write.bytes;
       });
 
-      await batch.commit(); // Hepsini tek seferde kaydet
-      
+      setBulkSaveProgress({ done: 0, total: writes.length });
+      let doneCount = 0;
+      for (const chunk of chunks) {
+        const batch = writeBatch(db);
+        chunk.forEach(({ docRef, data, merge }) => {
+          if (!data) batch.delete(docRef);
+          else if (merge) batch.set(docRef, data, { merge: true });
+          else batch.set(docRef, data);
+        });
+        await batch.commit();
+        doneCount += chunk.length;
+        setBulkSaveProgress({ done: doneCount, total: writes.length });
+      }
+
+      setBulkTextEditSource(null);
       setBulkSourceTagInput('');
       setBulkText('');
       setBulkParsed([]);
       setBulkParseErrors([]);
+      setBulkQuestionDiagnostics([]);
+      setBulkJsonRepairs([]);
+      setBulkJsonSyntaxError(null);
+      setBulkNormalizationPreview(null);
+      setBulkNormalizationChanges([]);
+      setBulkDocument(null);
+      setBulkDocumentExcludedPages([]);
       setBulkStep('paste');
       setIsBulkImportOpen(false);
     } catch (error) {
       console.error("Toplu kayıt hatası:", error);
-      alert("Toplu kayıt sırasında bir hata oluştu.");
+      alert("Toplu kayıt sırasında bir hata oluştu. Hatadan önce yazılan parçalar kaydedildi; tekrar kaydetmek aynı soruları günceller.");
+    } finally {
+      setBulkSaveProgress(null);
+    }
+  };
+
+  const handleCancelBulkParse = () => {
+    bulkParseTaskRef.current?.cancel();
+  };
+
+  const handleToggleBulkNormalizationStep = (step: TextNormalizationStep) => {
+    setBulkNormalizationSettings(prev => ({ ...prev, [step]: !prev[step] }));
+    setBulkNormalizationPreview(null);
+  };
+
+  const handlePreviewBulkNormalization = () => {
+    if (!bulkText.trim()) return;
+    setBulkNormalizationPreview(normalizeQuestionText(bulkText, bulkNormalizationSettings));
+  };
+
+  const handleApplyBulkNormalization = () => {
+    if (!bulkNormalizationPreview) return;
+    setBulkText(bulkNormalizationPreview.text);
+    setBulkNormalizationPreview(null);
+  };
+
+  const handleBulkDocumentSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file: File | undefined = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsBulkDocumentLoading(true);
+    try {
+      const importedDocument = await extractDocument(file);
+      setBulkDocument(importedDocument);
+      setBulkDocumentExcludedPages([]);
+    } catch (error) {
+      console.error('Belge okuma hatasi:', error);
+      alert(error instanceof Error && error.message ? error.message : 'Dosya okunamadi.');
+    } finally {
+      setIsBulkDocumentLoading(false);
+    }
+  };
+
+  const handleToggleBulkDocumentPage = (pageNumber: number) => {
+    setBulkDocumentExcludedPages(prev => (
+      prev.includes(pageNumber) ? prev.filter(page => page !== pageNumber) : [...prev, pageNumber]
+    ));
+  };
+
+  const handleApplyBulkDocument = () => {
+    if (!bulkDocument) return;
+    const pages = bulkDocument.pages.filter(page => !bulkDocumentExcludedPages.includes(page.pageNumber));
+    if (pages.length === 0) return;
+    if (bulkText.trim() && !window.confirm('Metin alanindaki mevcut metin belge metniyle degistirilsin mi?')) return;
+    setBulkText(buildDocumentText(pages));
+    // PDF satirlarinda sutunlar genis bosluklarla ayrilir; iki sutun ayirma acilir
+    if (bulkDocument.kind === 'pdf') setBulkNormalizationSettings(prev => ({ ...prev, twoColumn: true }));
+    setBulkParseErrors([]);
+    setBulkNormalizationPreview(null);
+  };
+
+  const handleCopyBulkDocumentImage = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(formatImageMarker({ url }));
+    } catch (error) {
+      console.error('Panoya kopyalama hatasi:', error);
+      alert('Gorsel isareti panoya kopyalanamadi.');
     }
   };
 
   const handleBulkClose = () => {
+    if (bulkSaveProgress) return;
+    bulkParseTaskRef.current?.cancel();
     setIsBulkImportOpen(false);
+    setBulkTextEditSource(null);
     setBulkSourceTagInput('');
     setBulkText('');
     setBulkParsed([]);
     setBulkParseErrors([]);
+    setBulkQuestionDiagnostics([]);
+    setBulkJsonRepairs([]);
+    setBulkJsonSyntaxError(null);
+    setBulkNormalizationPreview(null);
+    setBulkNormalizationChanges([]);
+    setBulkDocument(null);
+    setBulkDocumentExcludedPages([]);
     setBulkStep('paste');
   };
 
   const handleRemoveBulkQuestion = (index: number) => {
     setBulkParsed(prev => prev.filter((_, i) => i !== index));
+    setBulkQuestionDiagnostics(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleSkipBulkDuplicates = () => {
+    if (bulkDuplicateCount === 0) return;
+    setBulkParsed(prev => prev.filter((_, i) => !bulkDuplicateMatches[i]));
+    setBulkQuestionDiagnostics(prev => prev.filter((_, i) => !bulkDuplicateMatches[i]));
   };
 
+  // Onizleme testteki gibi siklari karistirir; sirasi sabit sorular oldugu gibi kalir
   const handleOpenAdminPreview = (question: Question) => {
-    setAdminPreviewQuestion(question);
+    setAdminPreviewQuestion(shuffleOptionsWithAnswer(question));
     setAdminPreviewSelectedOption(null);
     setAdminPreviewChecked(false);
   };
@@ -3746,6 +5037,7 @@ export default function App() {
       const haystack = [
         question.questionText,
         question.contextText || '',
+        (question.tables || []).map((table) => [table.caption || '', ...table.headers, ...table.rows.flat()].join(' ')).join(' '),
         (question.contentItems || []).join(' '),
         question.options.join(' '),
         question.sourceTag || '',
@@ -3787,17 +5079,25 @@ export default function App() {
     picker.scrollTop = safeTargetIndex * QUESTION_JUMP_PICKER_ROW_HEIGHT;
   }, [isQuestionJumpModalOpen, currentView, quizState.questions.length]);
 
-  const calculateScore = () => {
-    if (!quizState.questions || quizState.questions.length === 0) return 0;
-    let correct = 0;
+  const calculateScore = (): { correctCount: number; wrongCount: number; blankCount: number; net: number } => {
+    let correctCount = 0;
+    let wrongCount = 0;
+    let blankCount = 0;
     quizState.questions.forEach((q, idx) => {
-        if (quizState.userAnswers[idx] === q.correctOptionIndex) correct++;
+      const answer = quizState.userAnswers[idx];
+      if (!isQuestionAnswered(q, answer)) {
+        blankCount++;
+      } else if (isAnswerCorrect(q, answer)) {
+        correctCount++;
+      } else {
+        wrongCount++;
+      }
     });
-    return correct;
+    return { correctCount, wrongCount, blankCount, net: calculateNet(correctCount, wrongCount) };
   };
 
   const getTotalQuestionCount = () => {
-    return Object.values(allQuestions).reduce<number>((sum, qs) => {
+    return Object.values(quizQuestionsByTopic).reduce<number>((sum, qs) => {
       return sum + (Array.isArray(qs) ? qs.length : 0);
     }, 0);
   };
@@ -3861,10 +5161,13 @@ export default function App() {
       includeTopic(topicId) ? sum + questionIds.length : sum
     ), 0);
 
+    const totalBlankAnswers = filteredTopicProgressStats.reduce((sum, [, stats]) => sum + stats.totalBlankAnswers, 0);
+
     const answeredAttemptCount = progressStats.correctCount + totalWrongAnswers;
     const accuracyPercent = answeredAttemptCount > 0
       ? Math.round((progressStats.correctCount / answeredAttemptCount) * 100)
       : 0;
+    const net = calculateNet(progressStats.correctCount, totalWrongAnswers);
 
     return {
       progressStats,
@@ -3872,7 +5175,9 @@ export default function App() {
       totalAnsweredCount,
       filteredFavoriteCount,
       totalWrongAnswers,
+      totalBlankAnswers,
       accuracyPercent,
+      net,
     };
   }, [allSeenQuestionStats, favoriteQuestionIdsByTopic, homeStatsTopicIds, topicProgressStats]);
   const seenQuestionStatsByTopic = useMemo<Record<string, SeenQuestionStats[]>>(() => {
@@ -3887,18 +5192,22 @@ export default function App() {
     return categories.flatMap((cat) => {
       return cat.subCategories.map((sub) => {
         const topicStats = topicProgressStats[sub.id] || EMPTY_TOPIC_PROGRESS;
-        const questionCount = (allQuestions[sub.id] || []).length;
+        const questionCount = (quizQuestionsByTopic[sub.id] || []).length;
         const seenStats = seenQuestionStatsByTopic[sub.id] || [];
         const uniqueSolvedFromSeenStats = seenStats.reduce((sum, stats) => (stats.answeredCount > 0 ? sum + 1 : sum), 0);
         const totalAnsweredFromSeenStats = seenStats.reduce((sum, stats) => sum + stats.answeredCount, 0);
+        const timedSolveCount = seenStats.reduce((sum, stats) => sum + stats.timedCount, 0);
+        const totalSolveSeconds = seenStats.reduce((sum, stats) => sum + stats.averageTimeSeconds * stats.timedCount, 0);
         const uniqueSolvedCount = uniqueSolvedFromSeenStats > 0 ? uniqueSolvedFromSeenStats : topicStats.seenCount;
         const totalAnsweredCount = totalAnsweredFromSeenStats > 0 ? totalAnsweredFromSeenStats : (topicStats.correctCount + topicStats.totalWrongAnswers);
         const completionPercent = questionCount > 0 ? Math.round((totalAnsweredCount / questionCount) * 100) : 0;
         const correctCount = topicStats.correctCount;
         const wrongCount = topicStats.totalWrongAnswers;
+        const blankCount = topicStats.totalBlankAnswers;
         const accuracyPercent = totalAnsweredCount > 0
           ? Math.round((correctCount / totalAnsweredCount) * 100)
           : 0;
+        const net = calculateNet(correctCount, wrongCount);
 
         return {
           categoryId: cat.id,
@@ -3912,7 +5221,10 @@ export default function App() {
           totalAnsweredCount,
           correctCount,
           wrongCount,
+          blankCount,
+          net,
           accuracyPercent,
+          averageTimeSeconds: timedSolveCount > 0 ? totalSolveSeconds / timedSolveCount : 0,
           hasProgress:
             uniqueSolvedCount > 0 ||
             totalAnsweredCount > 0 ||
@@ -3923,7 +5235,7 @@ export default function App() {
         };
       });
     });
-  }, [allQuestions, categories, persistSeenQuestionsToFirestore, seenQuestionStatsByTopic, topicProgressStats]);
+  }, [quizQuestionsByTopic, categories, persistSeenQuestionsToFirestore, seenQuestionStatsByTopic, topicProgressStats]);
   const statisticsCategoryRows = useMemo(() => {
     return categories
       .map((cat) => {
@@ -3934,9 +5246,10 @@ export default function App() {
             acc.totalAnsweredCount += row.totalAnsweredCount;
             acc.correctCount += row.correctCount;
             acc.wrongCount += row.wrongCount;
+            acc.blankCount += row.blankCount;
             return acc;
           },
-          { uniqueSolvedCount: 0, totalAnsweredCount: 0, correctCount: 0, wrongCount: 0 }
+          { uniqueSolvedCount: 0, totalAnsweredCount: 0, correctCount: 0, wrongCount: 0, blankCount: 0 }
         );
         const accuracyPercent = totals.totalAnsweredCount > 0
           ? Math.round((totals.correctCount / totals.totalAnsweredCount) * 100)
@@ -3947,6 +5260,7 @@ export default function App() {
           categoryIconName: cat.iconName,
           topicCount: cat.subCategories.length,
           ...totals,
+          net: calculateNet(totals.correctCount, totals.wrongCount),
           accuracyPercent,
           hasProgress: rows.some((row) => row.hasProgress),
         };
@@ -3989,18 +5303,30 @@ export default function App() {
         acc.totalAnsweredCount += row.totalAnsweredCount;
         acc.correctCount += row.correctCount;
         acc.wrongCount += row.wrongCount;
+        acc.blankCount += row.blankCount;
         return acc;
       },
-      { uniqueSolvedCount: 0, totalAnsweredCount: 0, correctCount: 0, wrongCount: 0 }
+      { uniqueSolvedCount: 0, totalAnsweredCount: 0, correctCount: 0, wrongCount: 0, blankCount: 0 }
     );
     const accuracyPercent = totals.totalAnsweredCount > 0
       ? Math.round((totals.correctCount / totals.totalAnsweredCount) * 100)
       : 0;
     return {
       ...totals,
+      net: calculateNet(totals.correctCount, totals.wrongCount),
       accuracyPercent,
     };
   }, [statisticsCategoryRows, statisticsScopeCategoryId]);
+  // Ortalama cozum suresi en uzun sorular (secili ders kapsaminda)
+  const statisticsSlowQuestions = useMemo(() => {
+    const scopedTopicIds = statisticsScopeCategory
+      ? new Set(statisticsScopeCategory.subCategories.map((sub) => sub.id))
+      : null;
+    return allSeenQuestionStats
+      .filter((stats) => stats.timedCount > 0 && (!scopedTopicIds || scopedTopicIds.has(stats.topicId)))
+      .sort((a, b) => b.averageTimeSeconds - a.averageTimeSeconds)
+      .slice(0, SLOW_QUESTION_LIST_LIMIT);
+  }, [allSeenQuestionStats, statisticsScopeCategory]);
   const statisticsScopeLabel = statisticsScopeCategory?.name || 'Tüm Dersler';
   const isStatisticsTopicView = statisticsScopeCategoryId !== 'all';
   const hasProgressForTopic = (topicId: string): boolean => {
@@ -4333,6 +5659,14 @@ export default function App() {
                 </div>
                 {allLessonsQuestionCountMax === 0 && <p className="text-red-500 text-xs mt-2 font-medium">Soru havuzunda soru bulunmuyor.</p>}
               </div>
+
+              <div className="bg-surface-50 dark:bg-surface-900/50 p-3.5 md:p-5 rounded-xl md:rounded-2xl border border-surface-100 dark:border-surface-700/50">
+                <label className="block font-bold text-surface-700 dark:text-surface-200 text-sm mb-3 flex items-center gap-2">
+                  <Icon name="Target" className="w-4 h-4 text-surface-400" />
+                  Mod
+                </label>
+                <QuizModeToggle mode={quizMode} onChange={setQuizMode} />
+              </div>
             </div>
 
             <div className="flex gap-2.5 md:gap-3 mt-6 md:mt-8">
@@ -4357,9 +5691,126 @@ export default function App() {
     );
   }
 
+  if (currentView === 'exam-setup') {
+    const examQuestionCount = getExamQuestionCount(examBlueprint);
+    const examAvailableCount = examBlueprint.sections.reduce((sum, section) => (
+      sum + Math.min(section.questionCount, (examSectionPools[section.id] || []).length)
+    ), 0);
+    const updateExamSectionCount = (sectionId: string, rawValue: string) => {
+      const count = Math.min(MAX_EXAM_SECTION_QUESTION_COUNT, Math.max(0, parseInt(rawValue.replace(/[^\d]/g, ''), 10) || 0));
+      setExamBlueprint((prev) => ({
+        ...prev,
+        sections: prev.sections.map((section) => (section.id === sectionId ? { ...section, questionCount: count } : section)),
+      }));
+    };
+
+    return (
+      <div className="min-h-screen bg-surface-50 dark:bg-surface-900 flex items-start justify-center p-3 sm:p-4 md:py-8">
+        <div className="w-full max-w-lg animate-fade-in-scale">
+          <button
+            onClick={() => setCurrentView('dashboard')}
+            className="flex items-center gap-2 text-surface-400 hover:text-surface-700 dark:hover:text-white transition-colors mb-4 md:mb-6 font-medium text-xs md:text-sm"
+          >
+            <Icon name="ArrowLeft" className="w-4 h-4" />
+            Geri Don
+          </button>
+
+          <div className="bg-white dark:bg-surface-800 rounded-2xl md:rounded-3xl shadow-card dark:shadow-card-dark p-4 sm:p-5 md:p-9 border border-surface-100 dark:border-surface-700">
+            <div className="text-center mb-5 md:mb-8">
+              <div className="w-12 h-12 md:w-16 md:h-16 bg-indigo-50 dark:bg-indigo-900/20 rounded-xl md:rounded-2xl mx-auto flex items-center justify-center mb-3 md:mb-5 text-indigo-600 dark:text-indigo-300">
+                <Icon name="FileQuestion" className="w-6 h-6 md:w-8 md:h-8" />
+              </div>
+              <h2 className="text-xl md:text-2xl font-extrabold text-surface-800 dark:text-white mb-1">{examBlueprint.name}</h2>
+              <p className="text-surface-400 text-xs md:text-sm">
+                Sorular bolum sirasiyla gelir; her bolum kendi dersinin havuzundan rastgele secilir.
+              </p>
+            </div>
+
+            <div className="space-y-4 md:space-y-6">
+              <div className="bg-surface-50 dark:bg-surface-900/50 p-3.5 md:p-5 rounded-xl md:rounded-2xl border border-surface-100 dark:border-surface-700/50 space-y-2">
+                <div className="flex justify-between items-center mb-1">
+                  <label className="font-bold text-surface-700 dark:text-surface-200 text-sm flex items-center gap-2">
+                    <Icon name="Layers" className="w-4 h-4 text-surface-400" />
+                    Bolumler
+                  </label>
+                  <span className="text-indigo-700 dark:text-indigo-300 font-bold bg-indigo-50 dark:bg-indigo-900/30 px-2.5 py-0.5 rounded-full text-xs">
+                    {examAvailableCount} / {examQuestionCount} soru
+                  </span>
+                </div>
+                {examBlueprint.sections.map((section) => {
+                  const availableCount = (examSectionPools[section.id] || []).length;
+                  return (
+                    <div key={section.id} className="flex items-center gap-3">
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-semibold text-surface-700 dark:text-surface-200 truncate">{section.name}</p>
+                        <p className={`text-[11px] ${availableCount < section.questionCount ? 'text-amber-600 dark:text-amber-400' : 'text-surface-400'}`}>
+                          Havuzda {availableCount} soru
+                        </p>
+                      </div>
+                      <input
+                        type="number"
+                        min={0}
+                        max={MAX_EXAM_SECTION_QUESTION_COUNT}
+                        value={section.questionCount}
+                        onChange={(e) => updateExamSectionCount(section.id, e.target.value)}
+                        className="w-16 h-9 bg-white dark:bg-surface-800 border border-surface-200 dark:border-surface-600 rounded-xl font-bold text-sm text-surface-800 dark:text-white text-center outline-none focus:border-brand-500"
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+
+              <div className="bg-surface-50 dark:bg-surface-900/50 p-3.5 md:p-5 rounded-xl md:rounded-2xl border border-surface-100 dark:border-surface-700/50 flex items-center justify-between gap-3">
+                <label className="font-bold text-surface-700 dark:text-surface-200 text-sm flex items-center gap-2">
+                  <Icon name="Clock" className="w-4 h-4 text-surface-400" />
+                  Sure (dakika)
+                </label>
+                <input
+                  type="number"
+                  min={1}
+                  max={MAX_EXAM_DURATION_MINUTES}
+                  value={examBlueprint.durationMinutes}
+                  onChange={(e) => {
+                    const minutes = Math.min(MAX_EXAM_DURATION_MINUTES, Math.max(1, parseInt(e.target.value.replace(/[^\d]/g, ''), 10) || 1));
+                    setExamBlueprint((prev) => ({ ...prev, durationMinutes: minutes }));
+                  }}
+                  className="w-20 h-9 bg-white dark:bg-surface-800 border border-surface-200 dark:border-surface-600 rounded-xl font-bold text-sm text-surface-800 dark:text-white text-center outline-none focus:border-brand-500"
+                />
+              </div>
+
+              <button
+                onClick={() => setExamBlueprint(KPSS_GY_GK_BLUEPRINT)}
+                className="text-xs font-semibold text-surface-500 hover:text-surface-700 dark:hover:text-white transition"
+              >
+                Resmi dagilima don ({getExamQuestionCount(KPSS_GY_GK_BLUEPRINT)} soru, {KPSS_GY_GK_BLUEPRINT.durationMinutes} dk)
+              </button>
+            </div>
+
+            <div className="flex gap-2.5 md:gap-3 mt-6 md:mt-8">
+              <button
+                onClick={() => setCurrentView('dashboard')}
+                className="flex-1 py-3.5 rounded-xl font-bold text-sm text-surface-500 hover:bg-surface-100 dark:hover:bg-surface-700/50 transition"
+              >
+                Vazgec
+              </button>
+              <button
+                onClick={startExamSimulation}
+                disabled={examAvailableCount === 0}
+                className="flex-[2] py-3.5 rounded-xl bg-gradient-to-r from-indigo-500 via-violet-600 to-purple-600 text-white font-bold text-sm hover:opacity-90 shadow-lg shadow-indigo-600/30 transition transform hover:-translate-y-0.5 active:translate-y-0 disabled:opacity-40 disabled:cursor-not-allowed disabled:transform-none flex items-center justify-center gap-2"
+              >
+                <Icon name="Play" className="w-4 h-4" />
+                Deneme Sinavini Baslat ({examAvailableCount})
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   // 3. QUIZ SETUP VIEW
   if (currentView === 'quiz-setup' && activeTopic) {
-    const allSetupTopicQuestions = allQuestions[activeTopic.sub.id] || [];
+    const allSetupTopicQuestions = quizQuestionsByTopic[activeTopic.sub.id] || [];
     const wrongQuestionIdSet = new Set(wrongQuestionIdsByTopic[activeTopic.sub.id] || []);
     const favoriteQuestionIdSet = new Set(favoriteQuestionIdsByTopic[activeTopic.sub.id] || []);
     const statusFilterActive = quizStatusFilter.wrong || quizStatusFilter.favorite;
@@ -4818,6 +6269,15 @@ export default function App() {
                   {Math.floor(quizConfig.durationSeconds / 60)} dakika {quizConfig.durationSeconds % 60} saniye
                 </p>
               </div>
+
+              {/* Mode */}
+              <div className="bg-surface-50 dark:bg-surface-900/50 p-3.5 md:p-5 rounded-xl md:rounded-2xl border border-surface-100 dark:border-surface-700/50">
+                <label className="block font-bold text-surface-700 dark:text-surface-200 text-sm mb-3 flex items-center gap-2">
+                  <Icon name="Target" className="w-4 h-4 text-surface-400" />
+                  Mod
+                </label>
+                <QuizModeToggle mode={quizMode} onChange={setQuizMode} />
+              </div>
             </div>
 
             {/* Actions */}
@@ -4846,14 +6306,31 @@ export default function App() {
   // 3. QUIZ VIEW
   if (currentView === 'quiz' && activeTopic) {
     const currentQuestion = quizState.questions[quizState.currentQuestionIndex];
-    const score = calculateScore();
-    const wrongCount = quizState.userAnswers.reduce((count, answer, index) => {
-      if (answer === null || answer === undefined) return count;
-      return answer !== quizState.questions[index].correctOptionIndex ? count + 1 : count;
-    }, 0);
-    const blankCount = quizState.userAnswers.reduce((count, answer) => {
-      return answer === null || answer === undefined ? count + 1 : count;
-    }, 0);
+    const currentAnswer: QuizAnswer = quizState.userAnswers[quizState.currentQuestionIndex] ?? null;
+    const isCurrentAnswerChecked = quizState.mode === 'practice' && Boolean(quizState.checkedQuestions[quizState.currentQuestionIndex]);
+    const quizScore = calculateScore();
+    const examSectionScores: ExamSectionScore[] = (examSections ?? []).map((section) => {
+      let correctCount = 0;
+      let wrongCount = 0;
+      for (let index = section.startIndex; index < section.startIndex + section.questionCount; index++) {
+        const question = quizState.questions[index];
+        const answer = quizState.userAnswers[index];
+        if (!question || !isQuestionAnswered(question, answer)) continue;
+        if (isAnswerCorrect(question, answer)) correctCount++;
+        else wrongCount++;
+      }
+      return {
+        id: section.id,
+        name: section.name,
+        questionCount: section.questionCount,
+        correctCount,
+        wrongCount,
+        blankCount: section.questionCount - correctCount - wrongCount,
+        net: formatNet(calculateNet(correctCount, wrongCount)),
+      };
+    });
+    const score = quizScore.correctCount;
+    const { wrongCount, blankCount } = quizScore;
     const catColor = getCatColor(activeTopic.cat.id);
     const progressPercent = quizState.questions.length > 0 ? ((quizState.currentQuestionIndex + 1) / quizState.questions.length) * 100 : 0;
     const timerPercent = quizState.totalTime > 0 ? (quizState.timeLeft / quizState.totalTime) * 100 : 100;
@@ -4944,6 +6421,18 @@ export default function App() {
     const questionContextTypographyClass = `font-sans font-semibold tracking-[0.008em] ${questionStemTextSizeClass}`;
     const questionItemsTypographyClass = `font-sans font-light tracking-normal ${questionStemTextSizeClass}`;
     const questionRootTypographyClass = `font-sans font-extrabold tracking-[0.012em] ${questionStemTextSizeClass}`;
+    const currentPassageRange = (() => {
+      const passageId = currentQuestion?.passage?.id;
+      if (!passageId) return null;
+      let firstIndex = quizState.currentQuestionIndex;
+      while (firstIndex > 0 && quizState.questions[firstIndex - 1]?.passage?.id === passageId) firstIndex -= 1;
+      let lastIndex = quizState.currentQuestionIndex;
+      while (lastIndex + 1 < quizState.questions.length && quizState.questions[lastIndex + 1]?.passage?.id === passageId) lastIndex += 1;
+      return { firstIndex, lastIndex };
+    })();
+    const isPassageExpanded = currentPassageRange
+      ? currentPassageRange.firstIndex === quizState.currentQuestionIndex || expandedPassageQuestionIndex === quizState.currentQuestionIndex
+      : false;
     const quizConfirmMeta = quizConfirmAction === 'exit'
       ? {
           title: 'Sinavdan cikmak istiyor musunuz?',
@@ -4962,6 +6451,7 @@ export default function App() {
       const action = quizConfirmAction;
       setQuizConfirmAction(null);
       if (action === 'exit') {
+        clearActiveQuiz();
         setActiveTopic(null);
         resetQuiz();
         setCurrentView('dashboard');
@@ -5064,7 +6554,9 @@ export default function App() {
 
               <div className="min-w-0">
                 <h2 className={`font-bold text-surface-800 dark:text-white leading-tight truncate ${quizSize === 0 ? 'text-[13px]' : 'text-sm sm:text-base'}`}>{activeTopic.sub.name}</h2>
-                <span className="text-[11px] sm:text-xs text-surface-500 dark:text-surface-400 truncate block">{activeTopic.cat.name}</span>
+                <span className="text-[11px] sm:text-xs text-surface-500 dark:text-surface-400 truncate block">
+                  {activeTopic.cat.name}{quizState.mode === 'practice' ? ' · Alıştırma' : ''}
+                </span>
               </div>
             </div>
 
@@ -5112,6 +6604,20 @@ export default function App() {
           </div>
         </header>
 
+        {examSections && !quizState.showResults && quizState.questions.length > 0 && (
+          <ExamSectionNavigator
+            sections={examSections}
+            currentQuestionIndex={quizState.currentQuestionIndex}
+            answeredCounts={examSections.map((section) => (
+              quizState.questions
+                .slice(section.startIndex, section.startIndex + section.questionCount)
+                .filter((question, offset) => isQuestionAnswered(question, quizState.userAnswers[section.startIndex + offset]))
+                .length
+            ))}
+            onSelect={goToQuestion}
+          />
+        )}
+
         {/* Main Content */}
         <main className="flex-1 overflow-hidden relative flex flex-col">
 
@@ -5231,20 +6737,55 @@ export default function App() {
                     </div>
                   </div>
 
-                  {currentQuestion.imageUrl && (
-                    <div className={`rounded-lg overflow-hidden border border-surface-100 dark:border-surface-700 ${
-                      quizSize === 0 ? 'mb-3 max-h-40' : quizSize === 1 ? 'mb-5 max-h-60' : 'mb-6 max-h-72'
+                  {currentQuestion.passage && currentPassageRange && (
+                    <div className={`rounded-xl border border-sky-200/80 dark:border-sky-800/60 bg-sky-50/70 dark:bg-sky-900/15 ${
+                      quizSize === 0 ? 'mb-3' : quizSize === 1 ? 'mb-4' : 'mb-5'
                     }`}>
-                      <img src={currentQuestion.imageUrl} alt="Soru" className="w-full h-auto object-contain bg-surface-50 dark:bg-surface-900" style={{ maxHeight: quizSize === 0 ? '160px' : quizSize === 1 ? '240px' : '288px' }} />
+                      <div className="flex items-center justify-between gap-2 px-3 py-2">
+                        <span className="text-[11px] font-bold uppercase tracking-wider text-sky-700 dark:text-sky-300">
+                          {currentPassageRange.firstIndex === currentPassageRange.lastIndex
+                            ? 'Okuma metni'
+                            : `${currentPassageRange.firstIndex + 1}-${currentPassageRange.lastIndex + 1}. sorular icin ortak metin`}
+                        </span>
+                        {currentPassageRange.firstIndex !== quizState.currentQuestionIndex && (
+                          <button
+                            onClick={() => setExpandedPassageQuestionIndex(isPassageExpanded ? null : quizState.currentQuestionIndex)}
+                            className="text-[11px] font-semibold text-sky-600 dark:text-sky-300 hover:underline"
+                          >
+                            {isPassageExpanded ? 'Metni gizle' : 'Metni goster'}
+                          </button>
+                        )}
+                      </div>
+                      {isPassageExpanded && (
+                        <p className={`${questionContextTypographyClass} whitespace-pre-line text-surface-700 dark:text-surface-100 px-3 pb-3`}>
+                          {currentQuestion.passage.text}
+                        </p>
+                      )}
                     </div>
                   )}
 
+                  {getQuestionImages(currentQuestion).map((image, imageIdx) => (
+                    <div key={`${image.url}-${imageIdx}`} className={`rounded-lg overflow-hidden border border-surface-100 dark:border-surface-700 ${
+                      quizSize === 0 ? 'mb-3 max-h-40' : quizSize === 1 ? 'mb-5 max-h-60' : 'mb-6 max-h-72'
+                    }`}>
+                      <img src={image.url} alt={image.alt || 'Soru'} title={image.alt} className="w-full h-auto object-contain bg-surface-50 dark:bg-surface-900" style={{ maxHeight: quizSize === 0 ? '160px' : quizSize === 1 ? '240px' : '288px' }} />
+                    </div>
+                  ))}
+
                   {currentQuestion.contextText && (
                     <p className={`${questionContextTypographyClass} text-surface-700 dark:text-surface-100 mb-3`}>
                       {currentQuestion.contextText}
                     </p>
                   )}
 
+                  {currentQuestion.tables && currentQuestion.tables.length > 0 && (
+                    <QuestionTableBlock
+                      tables={currentQuestion.tables}
+                      compact={quizSize === 0}
+                      className={quizSize === 0 ? 'mb-2.5' : quizSize === 1 ? 'mb-3.5' : 'mb-4'}
+                    />
+                  )}
+
                   {currentQuestion.contentItems && currentQuestion.contentItems.length > 0 && (
                     <div className={`bg-surface-50 dark:bg-surface-900/60 rounded-xl border border-surface-200/70 dark:border-surface-700/60 ${
                       quizSize === 0 ? 'mb-2.5 p-2.5' : quizSize === 1 ? 'mb-3.5 p-3.5' : 'mb-4 p-4'
@@ -5270,39 +6811,99 @@ export default function App() {
                 </div>
 
                 {/* Options */}
-                <div key={quizState.currentQuestionIndex} className={`stagger-children ${quizSize === 0 ? 'space-y-1.5' : quizSize === 1 ? 'space-y-1.5' : 'space-y-2'}`}>
-                  {currentQuestion.options.map((option, idx) => {
-                    const isSelected = quizState.userAnswers[quizState.currentQuestionIndex] === idx;
-                    return (
-                      <button
-                        key={idx}
-                        onClick={() => handleSelectOption(idx)}
-                        className={`w-full text-left border transition-all duration-200 flex items-center group animate-fade-in active:scale-[0.995] ${
-                          quizSize === 0 ? 'p-2.5 rounded-xl gap-2' : quizSize === 1 ? 'p-3 md:p-3.5 rounded-xl gap-2.5' : 'p-3.5 md:p-4 rounded-2xl gap-3'
-                        } ${isSelected
-                            ? `bg-gradient-to-r ${catColor.gradient} border-transparent shadow-lg ${catColor.shadow}`
-                            : 'bg-white/95 dark:bg-surface-800/95 border-surface-200 dark:border-surface-700 hover:border-surface-300 dark:hover:border-surface-500 shadow-card dark:shadow-card-dark'
-                          }
-                        `}
-                      >
-                        <span className={`flex flex-shrink-0 items-center justify-center rounded-xl font-bold transition-colors border ${
-                          quizSize === 0 ? 'w-7 h-7 text-[11px]' : quizSize === 1 ? 'w-8 h-8 text-xs' : 'w-9 h-9 text-sm'
-                        } ${isSelected
-                            ? 'bg-white/20 text-white border-white/30'
-                            : 'bg-surface-100 dark:bg-surface-700 text-surface-500 dark:text-surface-400 border-surface-200 dark:border-surface-600 group-hover:bg-surface-200 dark:group-hover:bg-surface-600'
-                          }
-                        `}>
-                          {String.fromCharCode(65 + idx)}
-                        </span>
-                        <span className={`font-medium leading-relaxed ${
-                          quizSize === 0 ? 'text-[12px]' : quizSize === 1 ? 'text-[13px] md:text-sm' : 'text-sm md:text-base'
-                        } ${isSelected ? 'text-white' : 'text-surface-700 dark:text-surface-200'}`}>
-                          {option}
-                        </span>
-                      </button>
-                    );
-                  })}
-                </div>
+                {currentQuestion.type === 'matching' || currentQuestion.type === 'ordering' ? (
+                  <div className={isCurrentAnswerChecked ? 'pointer-events-none opacity-80' : ''}>
+                    {currentQuestion.type === 'matching' ? (
+                      <MatchingAnswerInput
+                        question={currentQuestion}
+                        answer={currentAnswer as number[] | null}
+                        onChange={handleSetStructuredAnswer}
+                        accentGradient={catColor.gradient}
+                      />
+                    ) : (
+                      <OrderingAnswerInput
+                        question={currentQuestion}
+                        answer={currentAnswer as number[] | null}
+                        onChange={handleSetStructuredAnswer}
+                        accentGradient={catColor.gradient}
+                      />
+                    )}
+                  </div>
+                ) : (
+                  <div key={quizState.currentQuestionIndex} className={`stagger-children ${quizSize === 0 ? 'space-y-1.5' : quizSize === 1 ? 'space-y-1.5' : 'space-y-2'}`}>
+                    {currentQuestion.options.map((option, idx) => {
+                      const isSelected = currentAnswer === idx;
+                      // Kontrol edilen alistirma sorusunda dogru sik yesil, yanlis secim kirmizi boyanir
+                      const feedbackTone = !isCurrentAnswerChecked
+                        ? null
+                        : idx === currentQuestion.correctOptionIndex
+                          ? 'correct'
+                          : isSelected ? 'wrong' : 'muted';
+                      const isHighlighted = feedbackTone ? feedbackTone !== 'muted' : isSelected;
+                      return (
+                        <button
+                          key={idx}
+                          onClick={() => handleSelectOption(idx)}
+                          disabled={isCurrentAnswerChecked}
+                          className={`w-full text-left border transition-all duration-200 flex items-center group animate-fade-in active:scale-[0.995] disabled:active:scale-100 ${
+                            quizSize === 0 ? 'p-2.5 rounded-xl gap-2' : quizSize === 1 ? 'p-3 md:p-3.5 rounded-xl gap-2.5' : 'p-3.5 md:p-4 rounded-2xl gap-3'
+                          } ${feedbackTone === 'correct'
+                              ? 'bg-gradient-to-r from-emerald-500 to-teal-600 border-transparent shadow-lg shadow-emerald-500/25'
+                              : feedbackTone === 'wrong'
+                                ? 'bg-gradient-to-r from-red-500 to-rose-600 border-transparent shadow-lg shadow-red-500/25'
+                                : feedbackTone === 'muted'
+                                  ? 'bg-white/95 dark:bg-surface-800/95 border-surface-200 dark:border-surface-700 opacity-60'
+                                  : isSelected
+                                    ? `bg-gradient-to-r ${catColor.gradient} border-transparent shadow-lg ${catColor.shadow}`
+                                    : 'bg-white/95 dark:bg-surface-800/95 border-surface-200 dark:border-surface-700 hover:border-surface-300 dark:hover:border-surface-500 shadow-card dark:shadow-card-dark'
+                            }
+                          `}
+                        >
+                          <span className={`flex flex-shrink-0 items-center justify-center rounded-xl font-bold transition-colors border ${
+                            quizSize === 0 ? 'w-7 h-7 text-[11px]' : quizSize === 1 ? 'w-8 h-8 text-xs' : 'w-9 h-9 text-sm'
+                          } ${isHighlighted
+                              ? 'bg-white/20 text-white border-white/30'
+                              : 'bg-surface-100 dark:bg-surface-700 text-surface-500 dark:text-surface-400 border-surface-200 dark:border-surface-600 group-hover:bg-surface-200 dark:group-hover:bg-surface-600'
+                            }
+                          `}>
+                            {getOptionLetter(idx)}
+                          </span>
+                          <span className={`font-medium leading-relaxed ${
+                            quizSize === 0 ? 'text-[12px]' : quizSize === 1 ? 'text-[13px] md:text-sm' : 'text-sm md:text-base'
+                          } ${isHighlighted ? 'text-white' : 'text-surface-700 dark:text-surface-200'}`}>
+                            {option}
+                            {currentQuestion.optionImages?.[idx] && (
+                              <img
+                                src={currentQuestion.optionImages[idx]!.url}
+                                alt={currentQuestion.optionImages[idx]!.alt || `${getOptionLetter(idx)} secenegi`}
+                                className={`block rounded-lg object-contain bg-white ${option ? 'mt-1.5' : ''} ${quizSize === 0 ? 'max-h-24' : quizSize === 1 ? 'max-h-32' : 'max-h-40'}`}
+                              />
+                            )}
+                          </span>
+                        </button>
+                      );
+                    })}
+                  </div>
+                )}
+
+                {quizState.mode === 'practice' && (
+                  isCurrentAnswerChecked ? (
+                    <PracticeFeedback
+                      question={currentQuestion}
+                      answer={currentAnswer}
+                      isLastQuestion={quizState.currentQuestionIndex === quizState.questions.length - 1}
+                      onContinue={handleNextQuestion}
+                    />
+                  ) : (currentQuestion.type === 'matching' || currentQuestion.type === 'ordering') && isQuestionAnswered(currentQuestion, currentAnswer) && (
+                    <button
+                      onClick={handleCheckCurrentAnswer}
+                      className={`mt-3 w-full py-2.5 rounded-xl bg-gradient-to-r ${catColor.gradient} text-white font-bold text-sm hover:opacity-90 transition flex items-center justify-center gap-1.5`}
+                    >
+                      <Icon name="CircleCheck" className="w-4 h-4" />
+                      Cevabi kontrol et
+                    </button>
+                  )
+                )}
 
               </div>
             </div>
@@ -5341,7 +6942,7 @@ export default function App() {
                         }
 
                         const isActive = item.index === quizState.currentQuestionIndex;
-                        const isAnswered = quizState.userAnswers[item.index] !== null;
+                        const isAnswered = isQuestionAnswered(quizState.questions[item.index], quizState.userAnswers[item.index]);
 
                         return (
                           <button
@@ -5426,10 +7027,10 @@ export default function App() {
                     {resultFeedback.detail}
                   </p>
                   <p className="text-surface-400 text-sm mb-6">
-                    {quizState.questions.length} sorudan {score} tanesini doğru yanıtladın.
+                    {quizState.questions.length} sorudan {score} tanesini doğru yanıtladın. Netin: {formatNet(quizScore.net)}
                   </p>
 
-                  <div className="grid grid-cols-3 gap-3 mb-6">
+                  <div className="grid grid-cols-4 gap-2.5 mb-6">
                     <div className="bg-emerald-50 dark:bg-emerald-900/20 p-3 rounded-xl">
                       <span className="block text-[10px] font-bold text-emerald-600 dark:text-emerald-400 uppercase tracking-wider mb-1">Doğru</span>
                       <span className="text-2xl font-black text-emerald-500">{score}</span>
@@ -5442,6 +7043,10 @@ export default function App() {
                       <span className="block text-[10px] font-bold text-orange-600 dark:text-orange-300 uppercase tracking-wider mb-1">Boş</span>
                       <span className="text-2xl font-black text-orange-500 dark:text-orange-300">{blankCount}</span>
                     </div>
+                    <div className="bg-sky-50 dark:bg-sky-900/20 p-3 rounded-xl">
+                      <span className="block text-[10px] font-bold text-sky-600 dark:text-sky-300 uppercase tracking-wider mb-1">Net</span>
+                      <span className={`font-black text-sky-500 dark:text-sky-300 ${formatNet(quizScore.net).length > 4 ? 'text-lg' : 'text-2xl'}`}>{formatNet(quizScore.net)}</span>
+                    </div>
                   </div>
 
                   <div className="flex gap-3">
@@ -5453,6 +7058,14 @@ export default function App() {
                     </button>
                     <button
                       onClick={() => {
+                        if (activeTopic.sub.id === EXAM_SIMULATION_TOPIC_ID) {
+                          openExamSetup();
+                          return;
+                        }
+                        if (activeTopic.sub.id === DUE_REVIEW_TOPIC_ID) {
+                          startDueReviewQuiz();
+                          return;
+                        }
                         if (activeTopic.sub.id === ALL_LESSONS_TOPIC_ID) {
                           openAllLessonsQuizSetup();
                           return;
@@ -5475,58 +7088,82 @@ export default function App() {
                   </div>
                 </div>
 
+                {examSectionScores.length > 0 && <ExamSectionResults scores={examSectionScores} />}
+
                 {/* Question Review */}
                 <div className="space-y-3">
                   <h4 className="text-sm font-bold text-surface-500 uppercase tracking-wider px-1">Soru Detayları</h4>
                   {quizState.questions.map((q, idx) => {
-                    const userAnswer = quizState.userAnswers[idx];
-                    const isCorrect = userAnswer === q.correctOptionIndex;
-                    const isUnanswered = userAnswer === null;
+                    const userAnswer: QuizAnswer = quizState.userAnswers[idx] ?? null;
+                    const isCorrect = isAnswerCorrect(q, userAnswer);
+                    const isUnanswered = !isQuestionAnswered(q, userAnswer);
                     const questionTrackingId = getQuizQuestionMeta(q, idx)?.trackingId || null;
                     const isFavorite = Boolean(favoriteQuestionsById[questionTrackingId]);
+                    const startsPassageGroup = Boolean(q.passage) && quizState.questions[idx - 1]?.passage?.id !== q.passage?.id;
+                    const startsExamSection = examSections?.find((section) => section.startIndex === idx) ?? null;
 
                     return (
-                      <div key={idx} className="bg-white dark:bg-surface-800 rounded-xl p-4 border border-surface-100 dark:border-surface-700 shadow-card dark:shadow-card-dark">
-                        <div className="flex items-start gap-3">
-                          <div className={`w-8 h-8 rounded-lg flex items-center justify-center flex-shrink-0 ${
-                            isCorrect ? 'bg-emerald-50 dark:bg-emerald-900/20 text-emerald-500' :
-                            isUnanswered ? 'bg-surface-100 dark:bg-surface-700 text-surface-400' :
-                            'bg-red-50 dark:bg-red-900/20 text-red-500'
-                          }`}>
-                            <Icon name={isCorrect ? "CircleCheck" : isUnanswered ? "Minus" : "CircleX"} className="w-4 h-4" />
+                      <React.Fragment key={idx}>
+                        {startsExamSection && (
+                          <p className="pt-2 px-1 text-xs font-black uppercase tracking-wider text-indigo-600 dark:text-indigo-300">{startsExamSection.name}</p>
+                        )}
+                        {startsPassageGroup && q.passage && (
+                          <div className="rounded-xl px-4 py-3 border border-sky-200/80 dark:border-sky-800/60 bg-sky-50/70 dark:bg-sky-900/15">
+                            <p className="text-[11px] font-bold uppercase tracking-wider text-sky-700 dark:text-sky-300 mb-1">Ortak metin</p>
+                            <p className="text-sm text-surface-700 dark:text-surface-200 leading-relaxed whitespace-pre-line">{q.passage.text}</p>
                           </div>
-                          <div className="flex-1 min-w-0">
-                            <p className="text-sm font-medium text-surface-700 dark:text-surface-200 mb-1.5 leading-relaxed">{q.questionText}</p>
-                            {q.sourceTag && (
-                              <span className="inline-flex mb-1.5 px-2 py-0.5 rounded-full text-[10px] font-semibold bg-slate-100 text-slate-600 dark:bg-slate-700 dark:text-slate-200">
-                                {q.sourceTag}
-                              </span>
-                            )}
-                            <div className="text-xs space-y-0.5">
-                              {!isUnanswered && !isCorrect && (
-                                <p className="text-red-500">Cevabiniz: {String.fromCharCode(65 + userAnswer!)}) {q.options[userAnswer!]}</p>
-                              )}
-                              <p className="text-emerald-600 dark:text-emerald-400 font-medium">
-                                Dogru: {String.fromCharCode(65 + q.correctOptionIndex)}) {q.options[q.correctOptionIndex]}
-                              </p>
-                              {q.explanation && (
-                                <p className="text-surface-400 mt-1 italic">{q.explanation}</p>
+                        )}
+                        <div className="bg-white dark:bg-surface-800 rounded-xl p-4 border border-surface-100 dark:border-surface-700 shadow-card dark:shadow-card-dark">
+                          <div className="flex items-start gap-3">
+                            <div className={`w-8 h-8 rounded-lg flex items-center justify-center flex-shrink-0 ${
+                              isCorrect ? 'bg-emerald-50 dark:bg-emerald-900/20 text-emerald-500' :
+                              isUnanswered ? 'bg-surface-100 dark:bg-surface-700 text-surface-400' :
+                              'bg-red-50 dark:bg-red-900/20 text-red-500'
+                            }`}>
+                              <Icon name={isCorrect ? "CircleCheck" : isUnanswered ? "Minus" : "CircleX"} className="w-4 h-4" />
+                            </div>
+                            <div className="flex-1 min-w-0">
+                              <p className="text-sm font-medium text-surface-700 dark:text-surface-200 mb-1.5 leading-relaxed">{q.questionText}</p>
+                              {q.sourceTag && (
+                                <span className="inline-flex mb-1.5 px-2 py-0.5 rounded-full text-[10px] font-semibold bg-slate-100 text-slate-600 dark:bg-slate-700 dark:text-slate-200">
+                                  {q.sourceTag}
+                                </span>
                               )}
+                              <div className="text-xs space-y-0.5">
+                                {!isUnanswered && !isCorrect && (
+                                  <p className="text-red-500">Cevabiniz: {formatQuizAnswer(q, userAnswer)}</p>
+                                )}
+                                {q.type === 'matching' || q.type === 'ordering' ? (
+                                  <QuestionAnswerKey question={q} />
+                                ) : (
+                                  <p className="text-emerald-600 dark:text-emerald-400 font-medium">
+                                    Dogru: {formatQuizAnswer(q, q.correctOptionIndex)}
+                                  </p>
+                                )}
+                                {typeof userAnswer === 'number' && q.optionExplanations?.[userAnswer] && (
+                                  <p className={`mt-1 ${isCorrect ? 'text-emerald-600/80 dark:text-emerald-400/80' : 'text-red-500/80'}`}>
+                                    {getOptionLetter(userAnswer)}) sikki: {q.optionExplanations[userAnswer]}
+                                  </p>
+                                )}
+                                {q.explanation && (
+                                  <p className="text-surface-400 mt-1 italic">{q.explanation}</p>
+                                )}
+                              </div>
                             </div>
+                            <button
+                              onClick={() => void toggleFavoriteQuestion(q, idx)}
+                              className={`w-8 h-8 rounded-lg border flex items-center justify-center transition ${
+                                isFavorite
+                                  ? 'border-amber-300 dark:border-amber-700 bg-amber-50 dark:bg-amber-900/20 text-amber-500 dark:text-amber-300'
+                                  : 'border-surface-200 dark:border-surface-600 bg-surface-50 dark:bg-surface-700 text-surface-400 hover:text-amber-500 hover:bg-amber-50 dark:hover:bg-amber-900/20'
+                              }`}
+                              title={isFavorite ? 'Favoriden cikar' : 'Favorilere ekle'}
+                            >
+                              <Icon name="Star" className={`w-4 h-4 ${isFavorite ? 'fill-current' : ''}`} />
+                            </button>
                           </div>
-                          <button
-                            onClick={() => void toggleFavoriteQuestion(q, idx)}
-                            className={`w-8 h-8 rounded-lg border flex items-center justify-center transition ${
-                              isFavorite
-                                ? 'border-amber-300 dark:border-amber-700 bg-amber-50 dark:bg-amber-900/20 text-amber-500 dark:text-amber-300'
-                                : 'border-surface-200 dark:border-surface-600 bg-surface-50 dark:bg-surface-700 text-surface-400 hover:text-amber-500 hover:bg-amber-50 dark:hover:bg-amber-900/20'
-                            }`}
-                            title={isFavorite ? 'Favoriden cikar' : 'Favorilere ekle'}
-                          >
-                            <Icon name="Star" className={`w-4 h-4 ${isFavorite ? 'fill-current' : ''}`} />
-                          </button>
                         </div>
-                      </div>
+                      </React.Fragment>
                     );
                   })}
                 </div>
@@ -5573,9 +7210,9 @@ export default function App() {
                         paddingBottom: QUESTION_JUMP_PICKER_VERTICAL_PADDING,
                       }}
                     >
-                      {quizState.questions.map((_, index) => {
+                      {quizState.questions.map((question, index) => {
                         const isSelected = index === questionJumpTargetIndex;
-                        const isAnswered = quizState.userAnswers[index] !== null;
+                        const isAnswered = isQuestionAnswered(question, quizState.userAnswers[index]);
                         return (
                           <button
                             key={`jump_item_${index}`}
@@ -5892,6 +7529,26 @@ export default function App() {
               <span className="w-2 h-2 rounded-full bg-gradient-to-r from-cyan-500 to-indigo-600 shadow-[0_0_10px_rgba(255,255,255,0.45)]" />
             </button>
 
+            <button
+              onClick={openExamSetup}
+              className={`w-full flex items-center justify-between gap-3 px-4 py-2.5 rounded-xl text-sm font-medium transition-all border
+                ${currentView === 'exam-setup'
+                  ? (isDarkMode
+                      ? 'border-indigo-400/55 bg-indigo-500/10 text-indigo-100 shadow-[0_0_16px_rgba(129,140,248,0.25)]'
+                      : 'border-indigo-200 bg-indigo-50 text-indigo-700 shadow-[0_8px_16px_rgba(129,140,248,0.14)]')
+                  : (isDarkMode
+                      ? 'border-slate-500/20 text-slate-300 hover:border-slate-400/35 hover:bg-slate-900/35 hover:text-slate-100'
+                      : 'border-slate-200 text-slate-700 hover:border-slate-300 hover:bg-white/80 hover:text-slate-900')
+                }
+              `}
+            >
+              <span className="flex items-center gap-3">
+                <div className="w-2 h-2 rounded-full bg-gradient-to-r from-indigo-500 to-purple-600"></div>
+                Deneme Sinavi
+              </span>
+              <span className="text-[10px] font-bold opacity-70">{getExamQuestionCount(examBlueprint)} soru</span>
+            </button>
+
             {categories.map(cat => {
               const color = getCatColor(cat.id);
               return (
@@ -6364,7 +8021,52 @@ export default function App() {
                                 <button
                                   onClick={() => {
                                     setIsAdminActionsOpen(false);
-                                    handleExportAllQuestionsByTopic();
+                                    handleExportQuestionsByTopicCsv();
+                                  }}
+                                  className="w-full text-left px-3 py-2.5 text-xs font-semibold text-sky-700 dark:text-sky-300 hover:bg-sky-50 dark:hover:bg-sky-900/20 transition"
+                                >
+                                  Bu Konuyu CSV Export
+                                </button>
+                                <button
+                                  onClick={() => {
+                                    setIsAdminActionsOpen(false);
+                                    handleExportQuestionsByTopicText();
+                                  }}
+                                  className="w-full text-left px-3 py-2.5 text-xs font-semibold text-sky-700 dark:text-sky-300 hover:bg-sky-50 dark:hover:bg-sky-900/20 transition"
+                                >
+                                  Bu Konuyu Metin Export
+                                </button>
+                                <button
+                                  onClick={() => {
+                                    setIsAdminActionsOpen(false);
+                                    handleOpenTopicTextEdit();
+                                  }}
+                                  className="w-full text-left px-3 py-2.5 text-xs font-semibold text-surface-600 dark:text-surface-200 hover:bg-surface-50 dark:hover:bg-surface-700 transition"
+                                >
+                                  Metin Olarak Duzenle
+                                </button>
+                                <button
+                                  onClick={() => {
+                                    setIsAdminActionsOpen(false);
+                                    setIsDuplicateReportOpen(true);
+                                  }}
+                                  className="w-full text-left px-3 py-2.5 text-xs font-semibold text-amber-700 dark:text-amber-300 hover:bg-amber-50 dark:hover:bg-amber-900/20 transition"
+                                >
+                                  Benzer Soru Raporu
+                                </button>
+                                <button
+                                  onClick={() => {
+                                    setIsAdminActionsOpen(false);
+                                    handleOpenMissingAnswerQueue();
+                                  }}
+                                  className="w-full text-left px-3 py-2.5 text-xs font-semibold text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 transition"
+                                >
+                                  Cevabi Eksik Sorular ({missingAnswerEntries.length})
+                                </button>
+                                <button
+                                  onClick={() => {
+                                    setIsAdminActionsOpen(false);
+                                    handleExportAllQuestionsByTopic();
                                   }}
                                   className="w-full text-left px-3 py-2.5 text-xs font-semibold text-brand-700 dark:text-brand-300 hover:bg-brand-50 dark:hover:bg-brand-900/20 transition"
                                 >
@@ -6438,7 +8140,19 @@ export default function App() {
                             <div className="flex-1 min-w-0">
                               <div className="flex items-center gap-2 mb-2">
                                 <span className="px-2 py-0.5 bg-white dark:bg-surface-800 text-[10px] font-bold rounded text-surface-500 border border-surface-100 dark:border-surface-700">#{adminPageStart + idx + 1}</span>
-                                <span title="Doğru cevap" className="text-[9px] text-emerald-600 dark:text-emerald-400 font-black bg-emerald-50 dark:bg-emerald-900/20 px-1 py-0.5 rounded min-w-[18px] text-center">{String.fromCharCode(65 + q.correctOptionIndex)}</span>
+                                {getQuestionType(q) !== 'multipleChoice' && (
+                                  <span className="text-[9px] text-violet-600 dark:text-violet-400 font-bold bg-violet-50 dark:bg-violet-900/20 px-1.5 py-0.5 rounded">{QUESTION_TYPE_LABELS[getQuestionType(q)]}</span>
+                                )}
+                                {q.tables && q.tables.length > 0 && (
+                                  <span className="text-[9px] text-cyan-600 dark:text-cyan-400 font-bold bg-cyan-50 dark:bg-cyan-900/20 px-1.5 py-0.5 rounded">{q.tables.length} tablo</span>
+                                )}
+                                {hasKnownAnswer(q) ? (
+                                  <span title="Doğru cevap" className="text-[9px] text-emerald-600 dark:text-emerald-400 font-black bg-emerald-50 dark:bg-emerald-900/20 px-1 py-0.5 rounded min-w-[18px] text-center">
+                                    {q.type === 'matching' || q.type === 'ordering' ? formatQuizAnswer(q, getCorrectQuizAnswer(q)) : getOptionLetter(q.correctOptionIndex)}
+                                  </span>
+                                ) : (
+                                  <span title="Cevap eksik, testlere alinmaz" className="text-[9px] text-red-600 dark:text-red-400 font-black bg-red-50 dark:bg-red-900/20 px-1 py-0.5 rounded min-w-[18px] text-center">?</span>
+                                )}
                                 {q.sourceTag && (
                                   <span className="text-[10px] text-slate-600 dark:text-slate-200 font-semibold bg-slate-100 dark:bg-slate-700 px-1.5 py-0.5 rounded truncate max-w-[160px]">
                                     {q.sourceTag}
@@ -6577,7 +8291,7 @@ export default function App() {
                     ? 'border-cyan-400/30 bg-gradient-to-r from-slate-900/55 via-slate-900/35 to-indigo-900/35 shadow-[0_0_0_1px_rgba(34,211,238,0.12),0_10px_24px_rgba(2,6,23,0.34)]'
                     : 'border-sky-300/70 bg-gradient-to-r from-white/96 via-sky-50/80 to-indigo-50/75 shadow-[0_8px_20px_rgba(56,189,248,0.14)]'
                 }`}>
-                  <div className={`grid grid-cols-[2.1fr_2fr_1fr_1fr_1.05fr] divide-x ${isDarkMode ? 'divide-cyan-300/25' : 'divide-sky-200/90'}`}>
+                  <div className={`grid grid-cols-[2.1fr_2fr_1fr_1fr_1fr_1.1fr_1.05fr] divide-x ${isDarkMode ? 'divide-cyan-300/25' : 'divide-sky-200/90'}`}>
                     <div className="min-w-0 px-1.5 py-1.5 text-center flex items-center justify-center">
                       <p className="text-[clamp(7px,2.25vw,9px)] font-semibold text-slate-400 dark:text-slate-300 leading-tight whitespace-nowrap overflow-hidden text-ellipsis -translate-y-0.5">Toplam Çözülen</p>
                     </div>
@@ -6590,12 +8304,18 @@ export default function App() {
                     <div className="min-w-0 px-1.5 py-1.5 text-center flex items-center justify-center">
                       <p className="text-[clamp(7px,2.1vw,9px)] font-semibold text-slate-400 dark:text-slate-300 leading-tight whitespace-nowrap overflow-hidden text-ellipsis -translate-y-0.5">Yanlış</p>
                     </div>
+                    <div className="min-w-0 px-1.5 py-1.5 text-center flex items-center justify-center">
+                      <p className="text-[clamp(7px,2.1vw,9px)] font-semibold text-slate-400 dark:text-slate-300 leading-tight whitespace-nowrap overflow-hidden text-ellipsis -translate-y-0.5">Boş</p>
+                    </div>
+                    <div className="min-w-0 px-1.5 py-1.5 text-center flex items-center justify-center">
+                      <p className="text-[clamp(7px,2.1vw,9px)] font-semibold text-slate-400 dark:text-slate-300 leading-tight whitespace-nowrap overflow-hidden text-ellipsis -translate-y-0.5">Net</p>
+                    </div>
                     <div className="min-w-0 px-1.5 py-1.5 text-center flex items-center justify-center">
                       <p className="text-[clamp(7px,2.1vw,9px)] font-semibold text-slate-400 dark:text-slate-300 leading-tight whitespace-nowrap overflow-hidden text-ellipsis -translate-y-0.5">Başarı</p>
                     </div>
                   </div>
                   <div className={`h-px w-full ${isDarkMode ? 'bg-cyan-300/25' : 'bg-sky-200/90'}`} />
-                  <div className={`grid grid-cols-[2.1fr_2fr_1fr_1fr_1.05fr] divide-x ${isDarkMode ? 'divide-cyan-300/25' : 'divide-sky-200/90'}`}>
+                  <div className={`grid grid-cols-[2.1fr_2fr_1fr_1fr_1fr_1.1fr_1.05fr] divide-x ${isDarkMode ? 'divide-cyan-300/25' : 'divide-sky-200/90'}`}>
                     <div className="min-w-0 px-1.5 py-2 text-center flex items-center justify-center">
                       <p className={`font-semibold text-fuchsia-600 dark:text-fuchsia-300 leading-none tabular-nums whitespace-nowrap -translate-y-0.5 ${getAdaptiveStatValueClass(statisticsSummary.uniqueSolvedCount)}`}>{statisticsSummary.uniqueSolvedCount}</p>
                     </div>
@@ -6608,6 +8328,12 @@ export default function App() {
                     <div className="min-w-0 px-1.5 py-2 text-center flex items-center justify-center">
                       <p className={`font-semibold text-red-600 dark:text-red-300 leading-none tabular-nums whitespace-nowrap -translate-y-0.5 ${getAdaptiveStatValueClass(statisticsSummary.wrongCount)}`}>{statisticsSummary.wrongCount}</p>
                     </div>
+                    <div className="min-w-0 px-1.5 py-2 text-center flex items-center justify-center">
+                      <p className={`font-semibold text-orange-600 dark:text-orange-300 leading-none tabular-nums whitespace-nowrap -translate-y-0.5 ${getAdaptiveStatValueClass(statisticsSummary.blankCount)}`}>{statisticsSummary.blankCount}</p>
+                    </div>
+                    <div className="min-w-0 px-1.5 py-2 text-center flex items-center justify-center">
+                      <p className={`font-semibold text-sky-600 dark:text-sky-300 leading-none tabular-nums whitespace-nowrap -translate-y-0.5 ${getAdaptiveStatValueClass(formatNet(statisticsSummary.net))}`}>{formatNet(statisticsSummary.net)}</p>
+                    </div>
                     <div className="min-w-0 px-1.5 py-2 text-center flex items-center justify-center">
                       <p className={`inline-flex items-center justify-center font-semibold text-rose-600 dark:text-rose-300 leading-none tabular-nums whitespace-nowrap -translate-y-0.5 ${getAdaptiveStatValueClass(statisticsSummary.accuracyPercent)}`}>
                         <span className="text-[0.5em] leading-none mr-0.5 -ml-0.5">%</span>{statisticsSummary.accuracyPercent}
@@ -6617,6 +8343,40 @@ export default function App() {
                 </div>
               </section>
 
+              <section className="kpss-neon-panel rounded-2xl p-3 md:p-4 shrink-0">
+                <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+                  <h2 className="text-base md:text-lg font-extrabold text-slate-900 dark:text-white">Yavaş çözdüğün sorular</h2>
+                  <span className="text-[10px] md:text-[11px] font-medium text-slate-500 dark:text-slate-300">Ortalama / son süre</span>
+                </div>
+                {statisticsSlowQuestions.length > 0 ? (
+                  <div className="max-h-52 overflow-y-auto custom-scrollbar pr-0.5 space-y-1.5">
+                    {statisticsSlowQuestions.map((stats) => (
+                      <div
+                        key={stats.questionTrackingId}
+                        className={`flex items-center gap-3 rounded-xl border px-3 py-2 ${
+                          isDarkMode ? 'border-slate-500/35 bg-slate-900/40' : 'border-slate-200 bg-white/75'
+                        }`}
+                      >
+                        <div className="min-w-0 flex-1">
+                          <p className="text-[13px] font-semibold text-slate-800 dark:text-slate-100 truncate">{stats.questionText || 'Soru metni yok'}</p>
+                          <p className="text-[11px] text-slate-500 dark:text-slate-400 truncate">
+                            {topicNameById[stats.topicId] || 'Konu'} &middot; {stats.timedCount} kez
+                          </p>
+                        </div>
+                        <div className="text-right shrink-0 tabular-nums">
+                          <p className="text-sm font-black text-amber-600 dark:text-amber-300 leading-none">{formatTime(Math.round(stats.averageTimeSeconds))}</p>
+                          <p className="text-[10px] text-slate-500 dark:text-slate-400 mt-0.5">son {formatTime(stats.lastTimeSeconds)}</p>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-[12px] font-medium text-slate-500 dark:text-slate-300">
+                    Henuz sure verisi yok. Test cozdukce soru basina harcadigin sure burada listelenir.
+                  </p>
+                )}
+              </section>
+
               {isStatisticsTopicView && (
                 <section className="kpss-neon-panel rounded-2xl p-3 md:p-4 flex-1 min-h-0 overflow-hidden">
                   <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
@@ -6642,7 +8402,7 @@ export default function App() {
                                 ? 'border-cyan-300/25 bg-slate-900/35'
                                 : 'border-sky-200/90 bg-white/70'
                             }`}>
-                              <div className={`grid grid-cols-[minmax(0,1fr)_auto_auto] divide-x ${isDarkMode ? 'divide-cyan-300/25' : 'divide-sky-200/90'}`}>
+                              <div className={`grid grid-cols-[minmax(0,1fr)_auto_auto_auto] divide-x ${isDarkMode ? 'divide-cyan-300/25' : 'divide-sky-200/90'}`}>
                                 <div className="min-w-0 px-2 py-2 flex items-center gap-2">
                                   <div className="w-9 h-9 rounded-xl bg-gradient-to-br from-cyan-500 to-blue-500 flex items-center justify-center shadow-[0_0_16px_rgba(34,211,238,0.3)] shrink-0">
                                     <Icon name="BookOpen" className="w-4 h-4 text-white" />
@@ -6653,6 +8413,12 @@ export default function App() {
                                   <p className="text-[10px] font-medium text-slate-500 dark:text-slate-300">Soru Sayısı</p>
                                   <p className="text-sm font-semibold text-slate-900 dark:text-white leading-none mt-0.5">{row.questionCount}</p>
                                 </div>
+                                <div className="px-2 py-2 text-center min-w-[72px]">
+                                  <p className="text-[10px] font-medium text-slate-500 dark:text-slate-300">Ort. Süre</p>
+                                  <p className="text-sm font-semibold text-slate-900 dark:text-white leading-none mt-0.5 tabular-nums">
+                                    {row.averageTimeSeconds > 0 ? formatTime(Math.round(row.averageTimeSeconds)) : '-'}
+                                  </p>
+                                </div>
                                 <div className="px-2 py-2 min-w-[72px] flex items-center justify-center">
                                   <p className={`inline-flex items-center justify-center font-semibold text-cyan-600 dark:text-cyan-300 leading-none text-center tabular-nums whitespace-nowrap ${getAdaptiveStatValueClass(row.accuracyPercent, 'compact')}`}>
                                     <span className="text-[0.5em] leading-none mr-1.5 -ml-0.5">%</span>{row.accuracyPercent}
@@ -6665,7 +8431,7 @@ export default function App() {
                                 ? 'border-slate-500/30 bg-gradient-to-r from-slate-900/55 via-slate-900/35 to-slate-800/40'
                                 : 'border-slate-200 bg-gradient-to-r from-white/95 via-slate-50/70 to-sky-50/60'
                             }`}>
-                              <div className={`grid grid-cols-[1.9fr_1.9fr_1fr_1fr] divide-x ${isDarkMode ? 'divide-slate-500/30' : 'divide-slate-200/90'} text-[clamp(8px,2.25vw,10px)] md:text-[11px]`}>
+                              <div className={`grid grid-cols-[1.9fr_1.9fr_1fr_1fr_1fr_1.1fr] divide-x ${isDarkMode ? 'divide-slate-500/30' : 'divide-slate-200/90'} text-[clamp(8px,2.25vw,10px)] md:text-[11px]`}>
                                 <div className="min-w-0 px-1.5 py-1.5 md:px-2 md:py-1.5 text-center">
                                   <p className="font-medium text-slate-500 dark:text-slate-300 whitespace-nowrap overflow-hidden text-ellipsis">Toplam Çözülen</p>
                                   <p className={`font-semibold text-slate-900 dark:text-white leading-none mt-0.5 tabular-nums whitespace-nowrap ${getAdaptiveStatValueClass(row.uniqueSolvedCount, 'compact')}`}>{row.uniqueSolvedCount}</p>
@@ -6682,6 +8448,14 @@ export default function App() {
                                   <p className="font-medium text-red-700 dark:text-red-300 truncate">Yanlış</p>
                                   <p className={`font-semibold text-red-700 dark:text-red-300 leading-none mt-0.5 tabular-nums whitespace-nowrap ${getAdaptiveStatValueClass(row.wrongCount, 'compact')}`}>{row.wrongCount}</p>
                                 </div>
+                                <div className="min-w-0 px-1.5 py-1.5 md:px-2 md:py-1.5 text-center">
+                                  <p className="font-medium text-orange-700 dark:text-orange-300 truncate">Boş</p>
+                                  <p className={`font-semibold text-orange-700 dark:text-orange-300 leading-none mt-0.5 tabular-nums whitespace-nowrap ${getAdaptiveStatValueClass(row.blankCount, 'compact')}`}>{row.blankCount}</p>
+                                </div>
+                                <div className="min-w-0 px-1.5 py-1.5 md:px-2 md:py-1.5 text-center">
+                                  <p className="font-medium text-sky-700 dark:text-sky-300 truncate">Net</p>
+                                  <p className={`font-semibold text-sky-700 dark:text-sky-300 leading-none mt-0.5 tabular-nums whitespace-nowrap ${getAdaptiveStatValueClass(formatNet(row.net), 'compact')}`}>{formatNet(row.net)}</p>
+                                </div>
                               </div>
                             </div>
                           </div>
@@ -6707,6 +8481,56 @@ export default function App() {
                   {user.username}
                 </span>
               </div>
+              {resumableQuiz && (
+                <div className="shrink-0 glass-card rounded-xl p-3 border border-brand-100 dark:border-brand-900/40 shadow-premium flex flex-wrap items-center gap-3 animate-fade-in">
+                  <div className="w-9 h-9 bg-gradient-to-br from-brand-500 to-brand-600 rounded-lg flex items-center justify-center shadow-lg shadow-brand-500/25 shrink-0">
+                    <Icon name="History" className="w-4 h-4 text-white" />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-bold text-surface-800 dark:text-white truncate">
+                      Yarim kalan test: {resumableQuiz.topicName || 'Test'}
+                    </p>
+                    <p className="text-[11px] text-surface-500 dark:text-surface-400">
+                      {resumableQuiz.questions.filter((entry) => entry.answer !== null).length}/{resumableQuiz.questions.length} cevaplandi, {formatTime(resumableQuiz.timeLeft)} kaldi
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => {
+                        if (window.confirm('Yarim kalan test silinecek. Emin misiniz?')) clearActiveQuiz();
+                      }}
+                      className="px-3 h-9 rounded-lg border border-surface-200 dark:border-surface-700 text-surface-500 dark:text-surface-300 hover:bg-surface-100 dark:hover:bg-surface-700 transition text-xs font-semibold"
+                    >
+                      Vazgec
+                    </button>
+                    <button
+                      onClick={handleResumeQuiz}
+                      className="px-3 h-9 rounded-lg bg-gradient-to-r from-brand-500 to-brand-600 text-white text-xs font-bold hover:shadow-lg hover:shadow-brand-500/30 transition"
+                    >
+                      Kaldığın yerden devam et
+                    </button>
+                  </div>
+                </div>
+              )}
+              {dueReviewQuestionPool.length > 0 && (
+                <div className="shrink-0 glass-card rounded-xl p-3 border border-amber-100 dark:border-amber-900/40 shadow-premium flex flex-wrap items-center gap-3 animate-fade-in">
+                  <div className="w-9 h-9 bg-gradient-to-br from-amber-500 to-orange-600 rounded-lg flex items-center justify-center shadow-lg shadow-amber-500/25 shrink-0">
+                    <Icon name="RotateCcw" className="w-4 h-4 text-white" />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-bold text-surface-800 dark:text-white truncate">Bugün tekrar edilecekler</p>
+                    <p className="text-[11px] text-surface-500 dark:text-surface-400">
+                      {dueReviewQuestionPool.length} soru tekrar zamaninda (yanlislar ve favoriler)
+                    </p>
+                  </div>
+                  <button
+                    onClick={startDueReviewQuiz}
+                    className="px-3 h-9 rounded-lg bg-gradient-to-r from-amber-500 to-orange-600 text-white text-xs font-bold hover:shadow-lg hover:shadow-amber-500/30 transition"
+                  >
+                    Tekrara başla
+                  </button>
+                </div>
+              )}
               <div className="hidden">
                 <div className="glass-card rounded-xl p-3 border border-sky-100 dark:border-sky-900/30 shadow-premium hover-lift">
                   <div className="flex items-center gap-2 mb-1.5">
@@ -6839,6 +8663,10 @@ export default function App() {
                           <p className="kpss-neon-mini-label normal-case !text-[8.5px] !tracking-[0.03em] !leading-[1.25] !font-medium">Toplam Yanlis</p>
                           <p className="kpss-neon-mini-value !text-[20px] !font-semibold !tracking-[0.01em]">{homeStats.totalWrongAnswers}</p>
                         </button>
+                        <div className="flex-1 min-w-0 px-2 py-2.5 text-center">
+                          <p className="kpss-neon-mini-label normal-case !text-[8.5px] !tracking-[0.03em] !leading-[1.25] !font-medium">Toplam Net</p>
+                          <p className="kpss-neon-mini-value !text-[20px] !font-semibold !tracking-[0.01em]">{formatNet(homeStats.net)}</p>
+                        </div>
                         <div className="flex-1 min-w-0 px-2 py-2.5 text-center">
                           <p className="kpss-neon-mini-label normal-case !text-[8.5px] !tracking-[0.03em] !leading-[1.25] !font-medium">Basari Orani</p>
                           <p className="kpss-neon-mini-value !text-[20px] !font-semibold !tracking-[0.01em]">%{homeStats.accuracyPercent}</p>
@@ -6943,6 +8771,20 @@ export default function App() {
                       }`}>
                         Yanlis cevap: {homeStats.totalWrongAnswers}
                       </span>
+                      <span className={`px-1.5 py-0.5 rounded-md ${
+                        isDarkMode
+                          ? 'bg-slate-900/30 border border-slate-400/25'
+                          : 'bg-white border border-slate-200'
+                      }`}>
+                        Bos birakilan: {homeStats.totalBlankAnswers}
+                      </span>
+                      <span className={`px-1.5 py-0.5 rounded-md ${
+                        isDarkMode
+                          ? 'bg-slate-900/30 border border-slate-400/25'
+                          : 'bg-white border border-slate-200'
+                      }`}>
+                        Net: {formatNet(homeStats.net)}
+                      </span>
                     </div>
                   </>
                 )}
@@ -6987,6 +8829,38 @@ export default function App() {
                   </div>
                 </button>
 
+                <button
+                  onClick={openExamSetup}
+                  className={`group relative w-full min-h-[76px] rounded-2xl px-3 py-2.5 md:px-4 md:py-3 hover:-translate-y-0.5 transition-all duration-300 text-left overflow-hidden animate-fade-in-scale flex items-center justify-between cursor-pointer ${
+                    isDarkMode
+                      ? 'border border-indigo-400/35 bg-slate-900/45 shadow-[0_10px_24px_rgba(2,6,23,0.42)]'
+                      : 'border border-indigo-200 bg-white/85 shadow-[0_10px_24px_rgba(15,23,42,0.1)]'
+                  }`}
+                  style={{ animationDelay: '30ms' }}
+                >
+                  <div className="pointer-events-none absolute -right-14 -top-14 h-28 w-28 rounded-full bg-gradient-to-br from-indigo-500 to-purple-600 opacity-[0.24] blur-2xl transition-all duration-500 group-hover:opacity-[0.38]" />
+
+                  <div className="relative z-10 flex items-center gap-3 min-w-0">
+                    <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-indigo-500 to-purple-600 flex items-center justify-center shadow-[0_0_20px_rgba(129,140,248,0.35)]">
+                      <Icon name="FileQuestion" className="w-5 h-5 text-white" />
+                    </div>
+                    <div className="min-w-0">
+                      <h3 className="text-[22px] leading-[1.15] font-black text-slate-900 dark:text-white truncate tracking-tight py-[1px]">Deneme Sinavi</h3>
+                      <p className="text-[11px] font-semibold text-slate-500 dark:text-slate-300 truncate">
+                        {getExamQuestionCount(examBlueprint)} soru, {examBlueprint.durationMinutes} dk
+                      </p>
+                    </div>
+                  </div>
+
+                  <div className={`relative z-10 w-8 h-8 rounded-lg flex items-center justify-center transition-colors ${
+                    isDarkMode
+                      ? 'bg-slate-800/70 border border-indigo-300/35 text-indigo-200 lg:group-hover:text-white lg:group-hover:border-indigo-200/50'
+                      : 'bg-indigo-50 border border-indigo-200 text-indigo-600 lg:group-hover:text-slate-800 lg:group-hover:border-indigo-300'
+                  }`}>
+                    <Icon name="ChevronRight" className="w-4 h-4 lg:transition-transform lg:duration-300 lg:group-hover:translate-x-0.5" />
+                  </div>
+                </button>
+
                 {categories.map((cat, index) => {
                   const color = getCatColor(cat.id);
 
@@ -7073,7 +8947,7 @@ export default function App() {
               {(() => {
                 const color = getCatColor(activeCategory.id);
                 const topicCards = activeCategory.subCategories.map((sub) => {
-                  const questionCount = allQuestions[sub.id]?.length || 0;
+                  const questionCount = quizQuestionsByTopic[sub.id]?.length || 0;
                   const hasExternalSource = Boolean(topicBloggerPages[sub.id]);
                   const topicProgress = getTopicProgress(sub.id);
                   const topicFavoriteCount = (favoriteQuestionIdsByTopic[sub.id] || []).length;
@@ -7444,11 +9318,11 @@ export default function App() {
             </div>
             <div className="space-y-4 max-h-[60vh] overflow-y-auto pr-2 custom-scrollbar">
               <div>
-                <label className="block text-xs font-bold text-surface-400 uppercase tracking-wider mb-1.5">Görsel URL</label>
+                <label className="block text-xs font-bold text-surface-400 uppercase tracking-wider mb-1.5">Görsel URL <span className="normal-case font-medium text-surface-300">(Ek görseller: soru köküne veya şıkka [GÖRSEL: url | açıklama])</span></label>
                 <input type="text" className="w-full px-4 py-3 rounded-xl bg-surface-50 dark:bg-surface-900 border border-surface-200 dark:border-surface-700 outline-none focus:border-brand-500 dark:text-white text-sm" value={questionForm.imageUrl} onChange={e => setQuestionForm({...questionForm, imageUrl: e.target.value})} placeholder="https://..." />
               </div>
               <div>
-                <label className="block text-xs font-bold text-surface-400 uppercase tracking-wider mb-1.5">Giriş Metni <span className="normal-case font-medium text-surface-300">(Opsiyonel)</span></label>
+                <label className="block text-xs font-bold text-surface-400 uppercase tracking-wider mb-1.5">Giriş Metni <span className="normal-case font-medium text-surface-300">(Opsiyonel; tablo için | Başlık | Başlık | satırları)</span></label>
                 <textarea className="w-full px-4 py-3 rounded-xl bg-surface-50 dark:bg-surface-900 border border-surface-200 dark:border-surface-700 outline-none focus:border-brand-500 dark:text-white h-16 resize-none text-sm" value={questionForm.contextText} onChange={e => setQuestionForm({...questionForm, contextText: e.target.value})} placeholder="Öncüllerin üstünde yer alan giriş metni..." />
               </div>
               <div>
@@ -7466,13 +9340,39 @@ export default function App() {
               </div>
               <div>
                 <label className="block text-xs font-bold text-surface-400 uppercase tracking-wider mb-1.5">ŞIKLAR (Her satıra bir şık)</label>
-                <textarea className="w-full px-4 py-3 rounded-xl bg-surface-50 dark:bg-surface-900 border border-surface-200 dark:border-surface-700 outline-none focus:border-brand-500 dark:text-white h-28 font-mono text-xs" value={questionForm.optionsText} onChange={e => setQuestionForm({...questionForm, optionsText: e.target.value})} placeholder={"A) ...\nB) ...\nC) ...\nD) ...\nE) ..."} />
+                <textarea className="w-full px-4 py-3 rounded-xl bg-surface-50 dark:bg-surface-900 border border-surface-200 dark:border-surface-700 outline-none focus:border-brand-500 dark:text-white h-28 font-mono text-xs" value={questionForm.optionsText} onChange={e => setQuestionForm({...questionForm, optionsText: e.target.value})} placeholder={"A) ...\nB) ...\nC) ...\nD) ...\nE) ... (4 sikli sorularda E yazilmaz)"} />
               </div>
+              <details className="rounded-xl border border-surface-200 dark:border-surface-700 px-3 py-2">
+                <summary className="cursor-pointer text-xs font-bold text-surface-400 uppercase tracking-wider">Öncül Şablonu <span className="normal-case font-medium text-surface-300">(Yalnız I, I ve II ...)</span></summary>
+                <div className="pt-2">
+                  <RomanOptionTemplate
+                    itemCount={parseItems(questionForm.itemsText).length}
+                    onApply={(optionsText, correctOption) => setQuestionForm({...questionForm, optionsText, correctOption})}
+                  />
+                </div>
+              </details>
+              <label className="flex items-start gap-2 text-xs text-surface-500 dark:text-surface-400 cursor-pointer select-none">
+                <input
+                  type="checkbox"
+                  checked={questionForm.lockOptionOrder}
+                  onChange={e => setQuestionForm({...questionForm, lockOptionOrder: e.target.checked})}
+                  className="mt-0.5 w-4 h-4 rounded accent-brand-600"
+                />
+                <span>
+                  Şık sırasını sabitle (testte karıştırılmaz)
+                  {!questionForm.lockOptionOrder && hasOrderedOptionSet(parseOptions(questionForm.optionsText)) && (
+                    <span className="block text-[11px] text-brand-600 dark:text-brand-400">Sıralı şık seti algılandı; işaretlenmese de sabit kalır.</span>
+                  )}
+                </span>
+              </label>
               <div className="grid grid-cols-[88px_minmax(0,1fr)_minmax(0,1fr)] gap-4">
                 <div>
                   <label className="block text-[10px] font-bold text-surface-400 uppercase tracking-wider mb-1.5">Doğru</label>
                   <select className="w-full px-2 py-2.5 rounded-xl bg-surface-50 dark:bg-surface-900 border border-surface-200 dark:border-surface-700 outline-none focus:border-brand-500 dark:text-white font-extrabold text-center text-xs" value={questionForm.correctOption} onChange={e => setQuestionForm({...questionForm, correctOption: parseInt(e.target.value)})}>
-                    <option value={0}>A</option><option value={1}>B</option><option value={2}>C</option><option value={3}>D</option><option value={4}>E</option>
+                    <option value={UNKNOWN_ANSWER_INDEX}>?</option>
+                    {getFormOptionLetters(questionForm.optionsText).map((letter, optionIdx) => (
+                      <option key={letter} value={optionIdx}>{letter}</option>
+                    ))}
                   </select>
                 </div>
                 <div>
@@ -7491,6 +9391,11 @@ export default function App() {
                 </div>
               </div>
 
+              <div>
+                <label className="block text-xs font-bold text-surface-400 uppercase tracking-wider mb-1.5">Şık Açıklamaları <span className="normal-case font-medium text-surface-300">(Opsiyonel, her şık neden doğru/yanlış)</span></label>
+                <textarea className="w-full px-4 py-3 rounded-xl bg-surface-50 dark:bg-surface-900 border border-surface-200 dark:border-surface-700 outline-none focus:border-brand-500 dark:text-white h-20 font-mono text-xs" value={questionForm.optionExplanationsText} onChange={e => setQuestionForm({...questionForm, optionExplanationsText: e.target.value})} placeholder={"B) ... neden yanlis\nD) ... neden yanlis"} />
+              </div>
+
               <div className="rounded-xl border border-surface-200 dark:border-surface-700 bg-surface-50/70 dark:bg-surface-900/40 p-4">
                 <div className="flex items-center justify-between mb-2">
                   <p className="text-xs font-bold uppercase tracking-wider text-surface-400">Kayıt Listesi</p>
@@ -7539,7 +9444,7 @@ export default function App() {
 
       {/* Edit Question Modal */}
       {editingQuestion && (
-        <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 overflow-y-auto modal-backdrop">
+        <div className="fixed inset-0 z-[62] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 overflow-y-auto modal-backdrop">
           <div className="bg-white dark:bg-surface-800 rounded-2xl p-6 max-w-2xl w-full shadow-2xl border border-surface-100 dark:border-surface-700 my-10 modal-content">
             <div className="flex justify-between items-center mb-6">
               <div className="flex items-center gap-3">
@@ -7552,55 +9457,122 @@ export default function App() {
                 <Icon name="X" className="w-4 h-4 text-surface-500" />
               </button>
             </div>
-            <div className="space-y-4 max-h-[60vh] overflow-y-auto pr-2 custom-scrollbar">
-              <div>
-                <label className="block text-xs font-bold text-surface-400 uppercase tracking-wider mb-1.5">Görsel URL</label>
-                <input type="text" className="w-full px-4 py-3 rounded-xl bg-surface-50 dark:bg-surface-900 border border-surface-200 dark:border-surface-700 outline-none focus:border-brand-500 dark:text-white text-sm" value={editForm.imageUrl} onChange={e => setEditForm({...editForm, imageUrl: e.target.value})} placeholder="https://..." />
-              </div>
-              <div>
-                <label className="block text-xs font-bold text-surface-400 uppercase tracking-wider mb-1.5">Giriş Metni <span className="normal-case font-medium text-surface-300">(Opsiyonel)</span></label>
-                <textarea className="w-full px-4 py-3 rounded-xl bg-surface-50 dark:bg-surface-900 border border-surface-200 dark:border-surface-700 outline-none focus:border-brand-500 dark:text-white h-16 resize-none text-sm" value={editForm.contextText} onChange={e => setEditForm({...editForm, contextText: e.target.value})} placeholder="Öncüllerin üstünde yer alan giriş metni..." />
-              </div>
-              <div>
-                <label className="block text-xs font-bold text-surface-400 uppercase tracking-wider mb-1.5">Öncüller <span className="normal-case font-medium text-surface-300">(Opsiyonel)</span></label>
-                <textarea
-                  className="w-full px-4 py-3 rounded-xl bg-surface-50 dark:bg-surface-900 border border-surface-200 dark:border-surface-700 outline-none focus:border-brand-500 dark:text-white h-20 resize-none text-sm"
-                  placeholder={"I. Madde Bir\nII. Madde İki\nIII. Madde Üç"}
-                  value={editForm.itemsText}
-                  onChange={e => setEditForm({...editForm, itemsText: e.target.value})}
-                />
-              </div>
-              <div>
-                <label className="block text-xs font-bold text-surface-400 uppercase tracking-wider mb-1.5">Soru Kökü</label>
-                <textarea className="w-full px-4 py-3 rounded-xl bg-surface-50 dark:bg-surface-900 border border-surface-200 dark:border-surface-700 outline-none focus:border-brand-500 dark:text-white h-24 text-sm font-medium" value={editForm.questionRoot} onChange={e => setEditForm({...editForm, questionRoot: e.target.value})} placeholder="Aşağıdakilerden hangisi...?" />
-              </div>
-              <div>
-                <label className="block text-xs font-bold text-surface-400 uppercase tracking-wider mb-1.5">ŞIKLAR</label>
-                <textarea className="w-full px-4 py-3 rounded-xl bg-surface-50 dark:bg-surface-900 border border-surface-200 dark:border-surface-700 outline-none focus:border-brand-500 dark:text-white h-28 font-mono text-xs" value={editForm.optionsText} onChange={e => setEditForm({...editForm, optionsText: e.target.value})} placeholder={"A) ...\nB) ...\nC) ...\nD) ...\nE) ..."} />
-              </div>
-              <div className="grid grid-cols-[88px_minmax(0,1fr)_minmax(0,1fr)] gap-4">
+            {editingQuestion.question.type === 'matching' || editingQuestion.question.type === 'ordering' ? (
+              <div className="space-y-4 max-h-[60vh] overflow-y-auto pr-2 custom-scrollbar">
                 <div>
-                  <label className="block text-[10px] font-bold text-surface-400 uppercase tracking-wider mb-1.5">Doğru</label>
-                  <select className="w-full px-2 py-2.5 rounded-xl bg-surface-50 dark:bg-surface-900 border border-surface-200 dark:border-surface-700 outline-none focus:border-brand-500 dark:text-white font-extrabold text-center text-xs" value={editForm.correctOption} onChange={e => setEditForm({...editForm, correctOption: parseInt(e.target.value)})}>
-                    <option value={0}>A</option><option value={1}>B</option><option value={2}>C</option><option value={3}>D</option><option value={4}>E</option>
-                  </select>
+                  <p className="text-[11px] font-semibold text-violet-600 dark:text-violet-400 mb-1">{QUESTION_TYPE_LABELS[editingQuestion.question.type]}</p>
+                  <p className="text-sm font-medium text-surface-700 dark:text-surface-200 whitespace-pre-line">{editingQuestion.question.questionText}</p>
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-xs text-surface-600 dark:text-surface-300">
+                  {editingQuestion.question.type === 'matching' && (
+                    <ol className="space-y-0.5">
+                      {editingQuestion.question.matchPrompts.map((prompt, promptIdx) => (
+                        <li key={promptIdx}>{promptIdx + 1}. {prompt}</li>
+                      ))}
+                    </ol>
+                  )}
+                  <ul className="space-y-0.5">
+                    {editingQuestion.question.options.map((option, optionIdx) => (
+                      <li key={optionIdx}>{getOptionLetter(optionIdx)}) {option}</li>
+                    ))}
+                  </ul>
+                </div>
+                <div>
+                  <label className="block text-xs font-bold text-surface-400 uppercase tracking-wider mb-1.5">
+                    {editingQuestion.question.type === 'matching' ? 'Eşleşmeler' : 'Doğru Sıra'}{' '}
+                    <span className="normal-case font-medium text-surface-300">
+                      {editingQuestion.question.type === 'matching' ? '(1. öğeden başlayarak her öğenin şıkkı, örn. C-A-B)' : '(Şıklar doğru sırayla, örn. C-A-B)'}
+                    </span>
+                  </label>
+                  <input type="text" className="w-full px-4 py-3 rounded-xl bg-surface-50 dark:bg-surface-900 border border-surface-200 dark:border-surface-700 outline-none focus:border-brand-500 dark:text-white text-sm font-mono" value={editForm.answerOrderText} onChange={e => setEditForm({...editForm, answerOrderText: e.target.value})} placeholder="C-A-B" />
                 </div>
                 <div>
                   <label className="block text-xs font-bold text-surface-400 uppercase tracking-wider mb-1.5">Açıklama</label>
                   <input type="text" className="w-full px-4 py-3 rounded-xl bg-surface-50 dark:bg-surface-900 border border-surface-200 dark:border-surface-700 outline-none focus:border-brand-500 dark:text-white text-sm" value={editForm.explanation} onChange={e => setEditForm({...editForm, explanation: e.target.value})} />
                 </div>
+                <p className="text-[11px] text-surface-400">Öğe ve şık metinleri JSON ile yeniden içe aktarılarak değiştirilir.</p>
+              </div>
+            ) : (
+              <div className="space-y-4 max-h-[60vh] overflow-y-auto pr-2 custom-scrollbar">
                 <div>
-                  <label className="block text-xs font-bold text-surface-400 uppercase tracking-wider mb-1.5">Kaynak Etiketi <span className="normal-case font-medium text-surface-300">(Opsiyonel)</span></label>
+                  <label className="block text-xs font-bold text-surface-400 uppercase tracking-wider mb-1.5">Görsel URL <span className="normal-case font-medium text-surface-300">(Ek görseller: soru köküne veya şıkka [GÖRSEL: url | açıklama])</span></label>
+                  <input type="text" className="w-full px-4 py-3 rounded-xl bg-surface-50 dark:bg-surface-900 border border-surface-200 dark:border-surface-700 outline-none focus:border-brand-500 dark:text-white text-sm" value={editForm.imageUrl} onChange={e => setEditForm({...editForm, imageUrl: e.target.value})} placeholder="https://..." />
+                </div>
+                <div>
+                  <label className="block text-xs font-bold text-surface-400 uppercase tracking-wider mb-1.5">Giriş Metni <span className="normal-case font-medium text-surface-300">(Opsiyonel; tablo için | Başlık | Başlık | satırları)</span></label>
+                  <textarea className="w-full px-4 py-3 rounded-xl bg-surface-50 dark:bg-surface-900 border border-surface-200 dark:border-surface-700 outline-none focus:border-brand-500 dark:text-white h-16 resize-none text-sm" value={editForm.contextText} onChange={e => setEditForm({...editForm, contextText: e.target.value})} placeholder="Öncüllerin üstünde yer alan giriş metni..." />
+                </div>
+                <div>
+                  <label className="block text-xs font-bold text-surface-400 uppercase tracking-wider mb-1.5">Öncüller <span className="normal-case font-medium text-surface-300">(Opsiyonel)</span></label>
+                  <textarea
+                    className="w-full px-4 py-3 rounded-xl bg-surface-50 dark:bg-surface-900 border border-surface-200 dark:border-surface-700 outline-none focus:border-brand-500 dark:text-white h-20 resize-none text-sm"
+                    placeholder={"I. Madde Bir\nII. Madde İki\nIII. Madde Üç"}
+                    value={editForm.itemsText}
+                    onChange={e => setEditForm({...editForm, itemsText: e.target.value})}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-bold text-surface-400 uppercase tracking-wider mb-1.5">Soru Kökü</label>
+                  <textarea className="w-full px-4 py-3 rounded-xl bg-surface-50 dark:bg-surface-900 border border-surface-200 dark:border-surface-700 outline-none focus:border-brand-500 dark:text-white h-24 text-sm font-medium" value={editForm.questionRoot} onChange={e => setEditForm({...editForm, questionRoot: e.target.value})} placeholder="Aşağıdakilerden hangisi...?" />
+                </div>
+                <div>
+                  <label className="block text-xs font-bold text-surface-400 uppercase tracking-wider mb-1.5">ŞIKLAR</label>
+                  <textarea className="w-full px-4 py-3 rounded-xl bg-surface-50 dark:bg-surface-900 border border-surface-200 dark:border-surface-700 outline-none focus:border-brand-500 dark:text-white h-28 font-mono text-xs" value={editForm.optionsText} onChange={e => setEditForm({...editForm, optionsText: e.target.value})} placeholder={"A) ...\nB) ...\nC) ...\nD) ...\nE) ... (4 sikli sorularda E yazilmaz)"} />
+                </div>
+                <details className="rounded-xl border border-surface-200 dark:border-surface-700 px-3 py-2">
+                  <summary className="cursor-pointer text-xs font-bold text-surface-400 uppercase tracking-wider">Öncül Şablonu <span className="normal-case font-medium text-surface-300">(Yalnız I, I ve II ...)</span></summary>
+                  <div className="pt-2">
+                    <RomanOptionTemplate
+                      itemCount={parseItems(editForm.itemsText).length}
+                      onApply={(optionsText, correctOption) => setEditForm({...editForm, optionsText, correctOption})}
+                    />
+                  </div>
+                </details>
+                <label className="flex items-start gap-2 text-xs text-surface-500 dark:text-surface-400 cursor-pointer select-none">
                   <input
-                    type="text"
-                    className="w-full px-4 py-3 rounded-xl bg-surface-50 dark:bg-surface-900 border border-surface-200 dark:border-surface-700 outline-none focus:border-brand-500 dark:text-white text-sm"
-                    value={editForm.sourceTag}
-                    onChange={e => setEditForm({...editForm, sourceTag: e.target.value})}
-                    placeholder="Örn: 2024 KPSS Deneme 3"
+                    type="checkbox"
+                    checked={editForm.lockOptionOrder}
+                    onChange={e => setEditForm({...editForm, lockOptionOrder: e.target.checked})}
+                    className="mt-0.5 w-4 h-4 rounded accent-brand-600"
                   />
+                  <span>
+                    Şık sırasını sabitle (testte karıştırılmaz)
+                    {!editForm.lockOptionOrder && hasOrderedOptionSet(parseOptions(editForm.optionsText)) && (
+                      <span className="block text-[11px] text-brand-600 dark:text-brand-400">Sıralı şık seti algılandı; işaretlenmese de sabit kalır.</span>
+                    )}
+                  </span>
+                </label>
+                <div className="grid grid-cols-[88px_minmax(0,1fr)_minmax(0,1fr)] gap-4">
+                  <div>
+                    <label className="block text-[10px] font-bold text-surface-400 uppercase tracking-wider mb-1.5">Doğru</label>
+                    <select className="w-full px-2 py-2.5 rounded-xl bg-surface-50 dark:bg-surface-900 border border-surface-200 dark:border-surface-700 outline-none focus:border-brand-500 dark:text-white font-extrabold text-center text-xs" value={editForm.correctOption} onChange={e => setEditForm({...editForm, correctOption: parseInt(e.target.value)})}>
+                      <option value={UNKNOWN_ANSWER_INDEX}>?</option>
+                      {getFormOptionLetters(editForm.optionsText).map((letter, optionIdx) => (
+                        <option key={letter} value={optionIdx}>{letter}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs font-bold text-surface-400 uppercase tracking-wider mb-1.5">Açıklama</label>
+                    <input type="text" className="w-full px-4 py-3 rounded-xl bg-surface-50 dark:bg-surface-900 border border-surface-200 dark:border-surface-700 outline-none focus:border-brand-500 dark:text-white text-sm" value={editForm.explanation} onChange={e => setEditForm({...editForm, explanation: e.target.value})} />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-bold text-surface-400 uppercase tracking-wider mb-1.5">Kaynak Etiketi <span className="normal-case font-medium text-surface-300">(Opsiyonel)</span></label>
+                    <input
+                      type="text"
+                      className="w-full px-4 py-3 rounded-xl bg-surface-50 dark:bg-surface-900 border border-surface-200 dark:border-surface-700 outline-none focus:border-brand-500 dark:text-white text-sm"
+                      value={editForm.sourceTag}
+                      onChange={e => setEditForm({...editForm, sourceTag: e.target.value})}
+                      placeholder="Örn: 2024 KPSS Deneme 3"
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-xs font-bold text-surface-400 uppercase tracking-wider mb-1.5">Şık Açıklamaları <span className="normal-case font-medium text-surface-300">(Opsiyonel, her şık neden doğru/yanlış)</span></label>
+                  <textarea className="w-full px-4 py-3 rounded-xl bg-surface-50 dark:bg-surface-900 border border-surface-200 dark:border-surface-700 outline-none focus:border-brand-500 dark:text-white h-20 font-mono text-xs" value={editForm.optionExplanationsText} onChange={e => setEditForm({...editForm, optionExplanationsText: e.target.value})} placeholder={"B) ... neden yanlis\nD) ... neden yanlis"} />
                 </div>
               </div>
-            </div>
+            )}
             <div className="flex gap-3 mt-6 pt-5 border-t border-surface-100 dark:border-surface-700">
               <button onClick={() => setEditingQuestion(null)} className="flex-1 py-3 font-bold text-sm text-surface-500 hover:bg-surface-100 dark:hover:bg-surface-700 rounded-xl transition">İptal</button>
               <button onClick={handleSaveEditQuestion} className="flex-[2] py-3 bg-gradient-to-r from-amber-500 to-orange-500 text-white font-bold text-sm rounded-xl hover:shadow-lg hover:shadow-amber-500/20 transition flex items-center justify-center gap-2">
@@ -7612,6 +9584,174 @@ export default function App() {
         </div>
       )}
 
+      {/* Duplicate Question Report Modal */}
+      {isDuplicateReportOpen && (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 modal-backdrop">
+          <div className="bg-white dark:bg-surface-800 rounded-2xl shadow-2xl border border-surface-100 dark:border-surface-700 w-full max-w-3xl max-h-[90vh] flex flex-col overflow-hidden modal-content">
+            <div className="flex items-center justify-between p-5 border-b border-surface-100 dark:border-surface-700">
+              <div>
+                <h3 className="text-lg font-extrabold text-surface-800 dark:text-white">Benzer Soru Raporu</h3>
+                <p className="text-xs text-surface-400">
+                  {questionBankEntries.length} soru tarandi, {duplicateQuestionClusters.length} benzer grup bulundu
+                </p>
+              </div>
+              <button onClick={() => setIsDuplicateReportOpen(false)} className="w-9 h-9 rounded-xl bg-surface-100 dark:bg-surface-700 flex items-center justify-center hover:bg-surface-200 dark:hover:bg-surface-600 transition">
+                <Icon name="X" className="w-4 h-4 text-surface-500" />
+              </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-5 space-y-3">
+              {duplicateQuestionClusters.length === 0 ? (
+                <div className="text-center py-12">
+                  <Icon name="CheckCircle" className="w-12 h-12 text-emerald-400 mx-auto mb-3" />
+                  <p className="text-surface-400 text-sm font-medium">Benzer soru bulunamadi.</p>
+                </div>
+              ) : (
+                duplicateQuestionClusters.map((cluster, clusterIdx) => (
+                  <div key={clusterIdx} className="rounded-xl border border-amber-200 dark:border-amber-700/60 bg-amber-50/60 dark:bg-amber-900/10 p-3">
+                    <p className="text-[11px] font-bold uppercase tracking-wider text-amber-700 dark:text-amber-300 mb-2">
+                      Grup {clusterIdx + 1} - {cluster.entries.length} soru, en yuksek benzerlik %{Math.round(cluster.score * 100)}
+                    </p>
+                    <div className="space-y-2">
+                      {cluster.entries.map(({ question, topicId }, entryIdx) => (
+                        <div key={`${getQuestionStableId(question) || entryIdx}`} className="flex items-start justify-between gap-3 rounded-lg bg-white dark:bg-surface-800 border border-surface-100 dark:border-surface-700 p-2.5">
+                          <div className="min-w-0">
+                            <p className="text-[11px] text-surface-400">
+                              {topicNameById[topicId] || 'Bilinmeyen konu'}{question.sourceTag ? ` - ${question.sourceTag}` : ''}
+                            </p>
+                            <p className="text-sm text-surface-700 dark:text-surface-200 truncate">
+                              {question.questionText.substring(0, 120)}{question.questionText.length > 120 ? '...' : ''}
+                            </p>
+                          </div>
+                          <div className="flex items-center gap-1.5 shrink-0">
+                            <button
+                              onClick={() => handleOpenAdminPreview(question)}
+                              className="px-2.5 py-1.5 rounded-lg bg-surface-100 dark:bg-surface-700 text-surface-600 dark:text-surface-300 text-xs font-bold hover:bg-surface-200 dark:hover:bg-surface-600 transition"
+                            >
+                              Onizle
+                            </button>
+                            {question.id && (
+                              <button
+                                onClick={() => handleDeleteQuestion(question.id!)}
+                                className="px-2.5 py-1.5 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 text-xs font-bold hover:bg-red-100 dark:hover:bg-red-900/30 transition"
+                              >
+                                Sil
+                              </button>
+                            )}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Missing Answer Queue Modal */}
+      {isMissingAnswerQueueOpen && (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 modal-backdrop">
+          <div className="bg-white dark:bg-surface-800 rounded-2xl shadow-2xl border border-surface-100 dark:border-surface-700 w-full max-w-3xl max-h-[90vh] flex flex-col overflow-hidden modal-content">
+            <div className="flex items-center justify-between p-5 border-b border-surface-100 dark:border-surface-700">
+              <div>
+                <h3 className="text-lg font-extrabold text-surface-800 dark:text-white">Cevabi Eksik Sorular</h3>
+                <p className="text-xs text-surface-400">
+                  {missingAnswerQueue.length} soru listeleniyor. Bu sorular cevap girilene kadar testlere alinmaz.
+                </p>
+              </div>
+              <button onClick={() => setIsMissingAnswerQueueOpen(false)} className="w-9 h-9 rounded-xl bg-surface-100 dark:bg-surface-700 flex items-center justify-center hover:bg-surface-200 dark:hover:bg-surface-600 transition">
+                <Icon name="X" className="w-4 h-4 text-surface-500" />
+              </button>
+            </div>
+
+            <div className="p-5 border-b border-surface-100 dark:border-surface-700 space-y-3">
+              <select
+                value={missingAnswerTopicFilter}
+                onChange={(e) => setMissingAnswerTopicFilter(e.target.value)}
+                className="w-full px-3 py-2 rounded-xl bg-surface-50 dark:bg-surface-900 border border-surface-200 dark:border-surface-700 outline-none focus:border-brand-500 dark:text-white text-sm"
+              >
+                <option value="">Tum konular ({missingAnswerEntries.length})</option>
+                {Array.from(new Set<string>(missingAnswerEntries.map((entry) => entry.topicId))).map((topicId) => (
+                  <option key={topicId} value={topicId}>
+                    {topicNameById[topicId] || 'Bilinmeyen konu'} ({missingAnswerEntries.filter((entry) => entry.topicId === topicId).length})
+                  </option>
+                ))}
+              </select>
+              <div className="flex flex-col sm:flex-row gap-2">
+                <textarea
+                  value={missingAnswerKeyText}
+                  onChange={(e) => setMissingAnswerKeyText(e.target.value)}
+                  className="flex-1 h-20 px-3 py-2 rounded-xl bg-surface-50 dark:bg-surface-900 border border-surface-200 dark:border-surface-700 outline-none focus:border-brand-500 dark:text-white text-xs font-mono resize-none"
+                  placeholder={"Cevap anahtari yapistirin (numaralar bu listedeki siradir):\n1-A 2-C 3-E ..."}
+                />
+                <button
+                  onClick={handleApplyMissingAnswerKey}
+                  disabled={!missingAnswerKeyText.trim() || missingAnswerQueue.length === 0}
+                  className="sm:w-40 px-3 py-2 rounded-xl bg-brand-600 text-white text-xs font-bold hover:bg-brand-700 transition disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  Cevap Anahtarini Uygula
+                </button>
+              </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-5 space-y-2">
+              {missingAnswerQueue.length === 0 ? (
+                <div className="text-center py-12">
+                  <Icon name="CheckCircle" className="w-12 h-12 text-emerald-400 mx-auto mb-3" />
+                  <p className="text-surface-400 text-sm font-medium">Cevabi eksik soru yok.</p>
+                </div>
+              ) : (
+                missingAnswerQueue.map(({ question, topicId }, entryIdx) => {
+                  const isExternal = Boolean(topicBloggerPages[topicId]);
+                  return (
+                    <div key={`${getQuestionStableId(question) || entryIdx}`} className="flex items-start justify-between gap-3 rounded-lg bg-surface-50 dark:bg-surface-900/50 border border-surface-100 dark:border-surface-700 p-2.5">
+                      <div className="min-w-0">
+                        <p className="text-[11px] text-surface-400">
+                          #{entryIdx + 1} - {topicNameById[topicId] || 'Bilinmeyen konu'}{question.sourceTag ? ` - ${question.sourceTag}` : ''}
+                        </p>
+                        <p className="text-sm text-surface-700 dark:text-surface-200 truncate">
+                          {question.questionText.substring(0, 120)}{question.questionText.length > 120 ? '...' : ''}
+                        </p>
+                        {isExternal && (
+                          <p className="text-[11px] text-amber-600 dark:text-amber-400">Blogger kaynakli; cevabi JSON kaynaginda duzeltin.</p>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-1 shrink-0">
+                        {!isExternal && question.id && !hasSingleAnswer(question) && (
+                          <button
+                            onClick={() => handleStartEditQuestion({ ...question, topicId } as Question, -1)}
+                            className="px-2.5 py-1.5 rounded-lg bg-violet-50 dark:bg-violet-900/20 text-violet-600 dark:text-violet-400 text-xs font-bold hover:bg-violet-100 dark:hover:bg-violet-900/40 transition"
+                          >
+                            {QUESTION_TYPE_LABELS[getQuestionType(question)]} cevabini duzenle
+                          </button>
+                        )}
+                        {!isExternal && question.id && hasSingleAnswer(question) && getOptionLetters(question.options.length).map((letter, optionIdx) => (
+                          <button
+                            key={letter}
+                            onClick={() => handleSetMissingAnswer(question, optionIdx)}
+                            className="w-7 h-7 rounded-lg bg-surface-100 dark:bg-surface-700 text-surface-600 dark:text-surface-300 text-xs font-extrabold hover:bg-emerald-100 hover:text-emerald-700 dark:hover:bg-emerald-900/30 dark:hover:text-emerald-400 transition"
+                          >
+                            {letter}
+                          </button>
+                        ))}
+                        <button
+                          onClick={() => handleOpenAdminPreview(question)}
+                          className="ml-1 px-2.5 py-1.5 rounded-lg bg-surface-100 dark:bg-surface-700 text-surface-600 dark:text-surface-300 text-xs font-bold hover:bg-surface-200 dark:hover:bg-surface-600 transition"
+                        >
+                          Onizle
+                        </button>
+                      </div>
+                    </div>
+                  );
+                })
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Admin Question Preview Modal */}
       {adminPreviewQuestion && (
         <div className="fixed inset-0 z-[65] flex items-center justify-center bg-black/55 backdrop-blur-sm p-4 modal-backdrop">
@@ -7632,11 +9772,26 @@ export default function App() {
                   {adminPreviewQuestion.sourceTag}
                 </span>
               )}
+              {adminPreviewQuestion.passage && (
+                <div className="rounded-xl px-3 py-2.5 border border-sky-200/80 dark:border-sky-800/60 bg-sky-50/70 dark:bg-sky-900/15">
+                  <p className="text-[11px] font-bold uppercase tracking-wider text-sky-700 dark:text-sky-300 mb-1">Ortak metin</p>
+                  <p className="text-sm text-surface-600 dark:text-surface-300 leading-relaxed whitespace-pre-line">{adminPreviewQuestion.passage.text}</p>
+                </div>
+              )}
+              {getQuestionImages(adminPreviewQuestion).map((image, imageIdx) => (
+                <figure key={`${image.url}-${imageIdx}`} className="rounded-xl overflow-hidden border border-surface-100 dark:border-surface-700">
+                  <img src={image.url} alt={image.alt || 'Soru'} className="w-full max-h-72 h-auto object-contain bg-surface-50 dark:bg-surface-900" />
+                  {image.alt && <figcaption className="px-3 py-1.5 text-[11px] text-surface-400">{image.alt}</figcaption>}
+                </figure>
+              ))}
               {adminPreviewQuestion.contextText && (
                 <p className="text-sm text-surface-600 dark:text-surface-300 leading-relaxed">
                   {adminPreviewQuestion.contextText}
                 </p>
               )}
+              {adminPreviewQuestion.tables && adminPreviewQuestion.tables.length > 0 && (
+                <QuestionTableBlock tables={adminPreviewQuestion.tables} />
+              )}
               {adminPreviewQuestion.contentItems && adminPreviewQuestion.contentItems.length > 0 && (
                 <div className="rounded-xl bg-surface-50 dark:bg-surface-900/50 border border-surface-100 dark:border-surface-700 p-3.5 space-y-1">
                   {adminPreviewQuestion.contentItems.map((item, idx) => (
@@ -7650,47 +9805,90 @@ export default function App() {
                 {adminPreviewQuestion.questionText}
               </h4>
 
-              <div className="space-y-2">
-                {adminPreviewQuestion.options.map((option, idx) => {
-                  const isSelected = adminPreviewSelectedOption === idx;
-                  const isCorrect = idx === adminPreviewQuestion.correctOptionIndex;
-                  const checkedWrong = adminPreviewChecked && isSelected && !isCorrect;
-                  const checkedRight = adminPreviewChecked && isCorrect;
+              {adminPreviewQuestion.type === 'matching' ? (
+                <MatchingAnswerInput
+                  question={adminPreviewQuestion}
+                  answer={adminPreviewSelectedOption as number[] | null}
+                  onChange={(answer) => {
+                    setAdminPreviewSelectedOption(answer);
+                    setAdminPreviewChecked(false);
+                  }}
+                  accentGradient="from-brand-500 to-brand-600"
+                />
+              ) : adminPreviewQuestion.type === 'ordering' ? (
+                <OrderingAnswerInput
+                  question={adminPreviewQuestion}
+                  answer={adminPreviewSelectedOption as number[] | null}
+                  onChange={(answer) => {
+                    setAdminPreviewSelectedOption(answer);
+                    setAdminPreviewChecked(false);
+                  }}
+                  accentGradient="from-brand-500 to-brand-600"
+                />
+              ) : (
+                <div className="space-y-2">
+                  {adminPreviewQuestion.options.map((option, idx) => {
+                    const isSelected = adminPreviewSelectedOption === idx;
+                    const isCorrect = idx === adminPreviewQuestion.correctOptionIndex;
+                    const checkedWrong = adminPreviewChecked && isSelected && !isCorrect;
+                    const checkedRight = adminPreviewChecked && isCorrect;
 
-                  return (
-                    <button
-                      key={`${option}_${idx}`}
-                      onClick={() => {
-                        setAdminPreviewSelectedOption(idx);
-                        setAdminPreviewChecked(false);
-                      }}
-                      className={`w-full text-left border-2 rounded-xl p-3.5 flex items-start gap-3 transition ${
-                        checkedRight
-                          ? 'bg-emerald-50 dark:bg-emerald-900/20 border-emerald-300 dark:border-emerald-700'
-                          : checkedWrong
-                            ? 'bg-red-50 dark:bg-red-900/20 border-red-300 dark:border-red-700'
-                            : isSelected
-                              ? 'bg-brand-50 dark:bg-brand-900/20 border-brand-300 dark:border-brand-700'
-                              : 'bg-white dark:bg-surface-800 border-surface-200 dark:border-surface-700 hover:border-surface-300 dark:hover:border-surface-500'
-                      }`}
-                    >
-                      <span className={`w-7 h-7 rounded-lg flex items-center justify-center text-xs font-bold ${
-                        checkedRight
-                          ? 'bg-emerald-100 dark:bg-emerald-900/40 text-emerald-700 dark:text-emerald-300'
-                          : checkedWrong
-                            ? 'bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300'
-                            : isSelected
-                              ? 'bg-brand-100 dark:bg-brand-900/40 text-brand-700 dark:text-brand-300'
-                              : 'bg-surface-100 dark:bg-surface-700 text-surface-500 dark:text-surface-400'
-                      }`}>
-                        {String.fromCharCode(65 + idx)}
-                      </span>
-                      <span className="text-sm text-surface-700 dark:text-surface-200 font-medium leading-relaxed">{option}</span>
-                    </button>
-                  );
-                })}
-              </div>
+                    return (
+                      <button
+                        key={`${option}_${idx}`}
+                        onClick={() => {
+                          setAdminPreviewSelectedOption(idx);
+                          setAdminPreviewChecked(false);
+                        }}
+                        className={`w-full text-left border-2 rounded-xl p-3.5 flex items-start gap-3 transition ${
+                          checkedRight
+                            ? 'bg-emerald-50 dark:bg-emerald-900/20 border-emerald-300 dark:border-emerald-700'
+                            : checkedWrong
+                              ? 'bg-red-50 dark:bg-red-900/20 border-red-300 dark:border-red-700'
+                              : isSelected
+                                ? 'bg-brand-50 dark:bg-brand-900/20 border-brand-300 dark:border-brand-700'
+                                : 'bg-white dark:bg-surface-800 border-surface-200 dark:border-surface-700 hover:border-surface-300 dark:hover:border-surface-500'
+                        }`}
+                      >
+                        <span className={`w-7 h-7 rounded-lg flex items-center justify-center text-xs font-bold ${
+                          checkedRight
+                            ? 'bg-emerald-100 dark:bg-emerald-900/40 text-emerald-700 dark:text-emerald-300'
+                            : checkedWrong
+                              ? 'bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300'
+                              : isSelected
+                                ? 'bg-brand-100 dark:bg-brand-900/40 text-brand-700 dark:text-brand-300'
+                                : 'bg-surface-100 dark:bg-surface-700 text-surface-500 dark:text-surface-400'
+                        }`}>
+                          {getOptionLetter(idx)}
+                        </span>
+                        <span className="text-sm text-surface-700 dark:text-surface-200 font-medium leading-relaxed">
+                          {option}
+                          {adminPreviewQuestion.optionImages?.[idx] && (
+                            <img
+                              src={adminPreviewQuestion.optionImages[idx]!.url}
+                              alt={adminPreviewQuestion.optionImages[idx]!.alt || `${getOptionLetter(idx)} secenegi`}
+                              className={`block max-h-32 rounded-lg object-contain bg-white ${option ? 'mt-1.5' : ''}`}
+                            />
+                          )}
+                        </span>
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
 
+              {adminPreviewChecked && (adminPreviewQuestion.type === 'matching' || adminPreviewQuestion.type === 'ordering') && (
+                <div className="rounded-xl border border-surface-200 dark:border-surface-700 bg-surface-50 dark:bg-surface-900/40 p-3.5">
+                  <p className="text-xs font-bold uppercase tracking-wider text-surface-400 mb-1.5">Cevap Anahtari</p>
+                  <QuestionAnswerKey question={adminPreviewQuestion} />
+                </div>
+              )}
+              {adminPreviewChecked && typeof adminPreviewSelectedOption === 'number' && adminPreviewQuestion.optionExplanations?.[adminPreviewSelectedOption] && (
+                <div className="rounded-xl border border-surface-200 dark:border-surface-700 bg-surface-50 dark:bg-surface-900/40 p-3.5">
+                  <p className="text-xs font-bold uppercase tracking-wider text-surface-400 mb-1.5">{getOptionLetter(adminPreviewSelectedOption)}) Sikki</p>
+                  <p className="text-sm text-surface-600 dark:text-surface-300 leading-relaxed">{adminPreviewQuestion.optionExplanations[adminPreviewSelectedOption]}</p>
+                </div>
+              )}
               {adminPreviewChecked && adminPreviewQuestion.explanation && (
                 <div className="rounded-xl border border-surface-200 dark:border-surface-700 bg-surface-50 dark:bg-surface-900/40 p-3.5">
                   <p className="text-xs font-bold uppercase tracking-wider text-surface-400 mb-1.5">Aciklama</p>
@@ -7701,11 +9899,18 @@ export default function App() {
 
             <div className="p-5 border-t border-surface-100 dark:border-surface-700 flex flex-col sm:flex-row items-stretch sm:items-center justify-between gap-3">
               <p className="text-xs font-semibold text-surface-500 dark:text-surface-400">
-                {adminPreviewChecked && adminPreviewSelectedOption !== null
-                  ? adminPreviewSelectedOption === adminPreviewQuestion.correctOptionIndex
+                {!hasKnownAnswer(adminPreviewQuestion)
+                  ? 'Bu sorunun cevabi eksik; testlerde gosterilmez.'
+                  : adminPreviewChecked && adminPreviewSelectedOption !== null
+                  ? isAnswerCorrect(adminPreviewQuestion, adminPreviewSelectedOption)
                     ? 'Dogru cevap.'
-                    : `Yanlis cevap. Dogru: ${String.fromCharCode(65 + adminPreviewQuestion.correctOptionIndex)}`
+                    : `Yanlis cevap. Dogru: ${formatQuizAnswer(adminPreviewQuestion, getCorrectQuizAnswer(adminPreviewQuestion))}`
                   : 'Bir secenek secip cevabi kontrol edebilirsiniz.'}
+                <span className="block text-[11px] font-medium text-surface-400">
+                  {getQuestionType(adminPreviewQuestion) !== 'multipleChoice'
+                    ? QUESTION_TYPE_LABELS[getQuestionType(adminPreviewQuestion)]
+                    : shouldLockOptionOrder(adminPreviewQuestion) ? 'Sik sirasi sabit; testte yazildigi gibi gosterilir.' : 'Siklar testte karistirilir.'}
+                </span>
               </p>
               <div className="flex gap-2">
                 <button
@@ -7789,7 +9994,7 @@ export default function App() {
               <div className="max-h-[54vh] overflow-y-auto custom-scrollbar pr-0.5 space-y-2">
                 {topicPickerCategory.subCategories.map((sub) => {
                   const color = getCatColor(topicPickerCategory.id);
-                  const questionCount = allQuestions[sub.id]?.length || 0;
+                  const questionCount = quizQuestionsByTopic[sub.id]?.length || 0;
                   return (
                     <button
                       key={`topic_picker_${sub.id}`}
@@ -7861,8 +10066,8 @@ export default function App() {
                   <Icon name="Layers" className="w-5 h-5 text-white" />
                 </div>
                 <div>
-                  <h3 className="text-lg font-extrabold text-surface-800 dark:text-white">Toplu Soru Aktarimi</h3>
-                  <p className="text-xs text-surface-400">{bulkStep === 'paste' ? 'Sorulari yapistirin' : `${bulkParsed.length} soru ayristirildi${bulkParseErrors.length > 0 ? `, ${bulkParseErrors.length} hata` : ''}`}</p>
+                  <h3 className="text-lg font-extrabold text-surface-800 dark:text-white">{bulkTextEditSource ? 'Konuyu Metin Olarak Duzenle' : 'Toplu Soru Aktarimi'}</h3>
+                  <p className="text-xs text-surface-400">{bulkStep === 'paste' ? (bulkTextEditSource ? `${bulkTextEditSource.length} soru metne aktarildi, [ID: ...] satirlarina gore guncellenir` : 'Sorulari yapistirin') : `${bulkParsed.length} soru ayristirildi${bulkParseErrors.length > 0 ? `, ${bulkParseErrors.length} hata` : ''}`}</p>
                 </div>
               </div>
               <button onClick={handleBulkClose} className="w-9 h-9 rounded-xl bg-surface-100 dark:bg-surface-700 flex items-center justify-center hover:bg-surface-200 dark:hover:bg-surface-600 transition">
@@ -7892,27 +10097,180 @@ export default function App() {
 
             {bulkStep === 'paste' ? (
               /* Paste Step */
-              <div className="flex flex-col flex-1 overflow-hidden p-5 gap-4">
+              <div className="flex flex-col flex-1 overflow-y-auto p-5 gap-4">
                 <p className="text-xs text-surface-400">
-                  Duz metin veya JSON formati desteklenir. JSON icin alanlar: <span className="font-mono">questionId</span>, <span className="font-mono">questionText</span>, <span className="font-mono">contentItems</span>, <span className="font-mono">options</span>, <span className="font-mono">answer</span>.
+                  Duz metin, JSON veya baslik satirli CSV/TSV (Excel/Sheets'ten kopyala-yapistir) desteklenir. JSON icin alanlar: <span className="font-mono">questionId</span>, <span className="font-mono">questionText</span>, <span className="font-mono">contentItems</span>, <span className="font-mono">options</span>, <span className="font-mono">answer</span> (harf ya da 1'den baslayan secenek numarasi, 1 = A).
+                  Gorseller soru kokune veya sik satirina <span className="font-mono">[GÖRSEL: url | aciklama]</span> ya da <span className="font-mono">![aciklama](url)</span> olarak eklenir.
+                  Duz metinde her sorunun altina <span className="font-mono">Cevap: C</span> / <span className="font-mono">Cozum: ...</span> satiri yazilabilir veya dogru secenek <span className="font-mono">*C)</span> ile isaretlenebilir. Sorular 4 (A-D) veya 5 (A-E) secenekli olabilir.
                 </p>
                 <textarea
                   value={bulkText}
+                  readOnly={isBulkParsing}
                   onChange={(e) => {
                     setBulkText(e.target.value);
                     if (bulkParseErrors.length > 0) setBulkParseErrors([]);
+                    if (bulkNormalizationPreview) setBulkNormalizationPreview(null);
                   }}
                   className="flex-1 min-h-[250px] w-full p-4 rounded-xl bg-surface-50 dark:bg-surface-900 border border-surface-200 dark:border-surface-700 outline-none focus:border-brand-500 dark:text-white text-sm font-mono resize-none"
                   placeholder={"Sorulari buraya yapistirin...\n\nDuz metin ornegi:\n1. Asagidakilerden hangisi...?\nA) Secenek 1\nB) Secenek 2\nC) Secenek 3\nD) Secenek 4\nE) Secenek 5\n\n1. COZUM: Aciklama... CEVAP: A\n\nJSON ornegi:\n[{\"questionId\":\"123\",\"questionText\":\"...\",\"contentItems\":[\"...\"],\"options\":[\"...\"],\"answer\":\"A\"}]"}
                 />
-                <button
-                  onClick={handleBulkParse}
-                  disabled={!bulkText.trim() || !isBulkSourceTagValid}
-                  className="w-full py-3.5 bg-gradient-to-r from-brand-600 to-brand-500 text-white font-bold text-sm rounded-xl hover:shadow-lg hover:shadow-brand-600/20 transition disabled:opacity-40 disabled:cursor-not-allowed flex items-center justify-center gap-2"
-                >
-                  <Icon name="Sparkles" className="w-4 h-4" />
-                  Ayristir ve Onizle
-                </button>
+                <div className="rounded-xl border border-surface-200 dark:border-surface-700 p-3 space-y-2">
+                  <div className="flex items-center justify-between gap-3">
+                    <p className="text-xs font-bold uppercase tracking-wider text-surface-400">PDF / Word Dosyasindan Aktar</p>
+                    <label className={`px-3 py-1.5 rounded-lg bg-surface-100 dark:bg-surface-700 text-surface-600 dark:text-surface-300 text-xs font-bold hover:bg-surface-200 dark:hover:bg-surface-600 transition flex items-center gap-1.5 ${isBulkDocumentLoading ? 'opacity-40 cursor-wait' : 'cursor-pointer'}`}>
+                      <Icon name="FileUp" className="w-3.5 h-3.5" />
+                      {isBulkDocumentLoading ? 'Okunuyor...' : 'Dosya Sec'}
+                      <input
+                        type="file"
+                        accept=".pdf,.docx,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+                        onChange={handleBulkDocumentSelect}
+                        disabled={isBulkDocumentLoading}
+                        className="hidden"
+                      />
+                    </label>
+                  </div>
+                  {bulkDocument ? (
+                    <div className="space-y-2">
+                      <p className="text-[11px] text-surface-500 dark:text-surface-400">
+                        <span className="font-semibold">{bulkDocument.fileName}</span> - {bulkDocument.kind === 'pdf' ? `${bulkDocument.pages.length} sayfa` : 'Word belgesi'}.
+                        {bulkDocument.kind === 'pdf'
+                          ? ' PDF gorselleri soruya otomatik baglanmaz: gorsele tiklayip isaretini kopyalayin ve ilgili sorunun ustune yapistirin.'
+                          : ' Gorseller metinde bulunduklari yere isaret olarak eklenir.'}
+                      </p>
+                      {bulkDocument.warnings.length > 0 && (
+                        <div className="rounded-lg bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-700 p-2 space-y-0.5">
+                          {bulkDocument.warnings.slice(0, 8).map((warning, idx) => (
+                            <p key={idx} className="text-[11px] text-amber-700 dark:text-amber-300">{warning}</p>
+                          ))}
+                        </div>
+                      )}
+                      <div className="max-h-64 overflow-y-auto">
+                        <DocumentImportPreview
+                          document={bulkDocument}
+                          questionCounts={bulkDocumentQuestionCounts}
+                          excludedPages={bulkDocumentExcludedPages}
+                          onTogglePage={handleToggleBulkDocumentPage}
+                          onCopyImage={handleCopyBulkDocumentImage}
+                        />
+                      </div>
+                      <div className="flex gap-2">
+                        <button
+                          onClick={handleApplyBulkDocument}
+                          disabled={bulkDocumentExcludedPages.length >= bulkDocument.pages.length}
+                          className="px-3 py-1.5 rounded-lg bg-brand-600 text-white text-xs font-bold hover:bg-brand-700 transition disabled:opacity-40 disabled:cursor-not-allowed"
+                        >
+                          Metne Aktar
+                        </button>
+                        <button
+                          onClick={() => {
+                            setBulkDocument(null);
+                            setBulkDocumentExcludedPages([]);
+                          }}
+                          className="px-3 py-1.5 rounded-lg bg-surface-100 dark:bg-surface-700 text-surface-600 dark:text-surface-300 text-xs font-bold hover:bg-surface-200 dark:hover:bg-surface-600 transition"
+                        >
+                          Kapat
+                        </button>
+                      </div>
+                    </div>
+                  ) : (
+                    <p className="text-[11px] text-surface-400">
+                      .pdf veya .docx deneme kitapcigi secin; metin ve gorseller internet gerekmeden tarayicida okunur.
+                    </p>
+                  )}
+                </div>
+                <div className="rounded-xl border border-surface-200 dark:border-surface-700 p-3 space-y-2">
+                  <div className="flex items-center justify-between gap-3">
+                    <p className="text-xs font-bold uppercase tracking-wider text-surface-400">PDF / OCR Metin Temizleme</p>
+                    <button
+                      onClick={handlePreviewBulkNormalization}
+                      disabled={!bulkText.trim()}
+                      className="px-3 py-1.5 rounded-lg bg-surface-100 dark:bg-surface-700 text-surface-600 dark:text-surface-300 text-xs font-bold hover:bg-surface-200 dark:hover:bg-surface-600 transition disabled:opacity-40 disabled:cursor-not-allowed"
+                    >
+                      Temizligi Onizle
+                    </button>
+                  </div>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-1.5">
+                    {(Object.keys(TEXT_NORMALIZATION_STEP_LABELS) as TextNormalizationStep[]).map((step) => (
+                      <label key={step} className="flex items-center gap-2 text-xs text-surface-500 dark:text-surface-400 cursor-pointer select-none">
+                        <input
+                          type="checkbox"
+                          checked={bulkNormalizationSettings[step]}
+                          onChange={() => handleToggleBulkNormalizationStep(step)}
+                          className="w-4 h-4 rounded accent-brand-600"
+                        />
+                        {TEXT_NORMALIZATION_STEP_LABELS[step]}
+                      </label>
+                    ))}
+                  </div>
+                  {bulkTextEditSource && (
+                    <p className="text-[11px] text-surface-400">
+                      Metin duzenlemede temizlik ayristirmada otomatik uygulanmaz; gerekirse Temizligi Onizle ile elle uygulayin.
+                    </p>
+                  )}
+                  {bulkNormalizationPreview && (
+                    <div className="border-t border-surface-100 dark:border-surface-700 pt-2 space-y-2">
+                      <div className="max-h-48 overflow-y-auto">
+                        <TextNormalizationChangeList changes={bulkNormalizationPreview.changes} />
+                      </div>
+                      <div className="flex gap-2">
+                        <button
+                          onClick={handleApplyBulkNormalization}
+                          disabled={bulkNormalizationPreview.changes.length === 0}
+                          className="px-3 py-1.5 rounded-lg bg-brand-600 text-white text-xs font-bold hover:bg-brand-700 transition disabled:opacity-40 disabled:cursor-not-allowed"
+                        >
+                          Metne Uygula
+                        </button>
+                        <button
+                          onClick={() => setBulkNormalizationPreview(null)}
+                          className="px-3 py-1.5 rounded-lg bg-surface-100 dark:bg-surface-700 text-surface-600 dark:text-surface-300 text-xs font-bold hover:bg-surface-200 dark:hover:bg-surface-600 transition"
+                        >
+                          Kapat
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+                <label className="flex items-center gap-2 text-xs text-surface-500 dark:text-surface-400 cursor-pointer select-none">
+                  <input
+                    type="checkbox"
+                    checked={isBulkStrictJson}
+                    onChange={(e) => setIsBulkStrictJson(e.target.checked)}
+                    className="w-4 h-4 rounded accent-brand-600"
+                  />
+                  Kati JSON modu: tirnak/satir sonlarini otomatik duzeltme, hatanin yerini goster
+                </label>
+                {isBulkParsing ? (
+                  <div className="rounded-xl border border-brand-200 dark:border-brand-700 p-3 space-y-2">
+                    <div className="flex items-center justify-between gap-3 text-xs">
+                      <span className="font-semibold text-brand-700 dark:text-brand-300">
+                        {bulkParseProgress
+                          ? `Ayristiriliyor... ${bulkParseProgress.done} / ${bulkParseProgress.total} ${bulkParseProgress.format === 'text' ? 'blok' : 'kayit'}`
+                          : 'Ayristiriliyor...'}
+                      </span>
+                      <button
+                        onClick={handleCancelBulkParse}
+                        className="px-3 py-1.5 rounded-lg bg-surface-100 dark:bg-surface-700 text-surface-600 dark:text-surface-300 text-xs font-bold hover:bg-surface-200 dark:hover:bg-surface-600 transition"
+                      >
+                        Iptal
+                      </button>
+                    </div>
+                    <div className="h-2 rounded-full bg-surface-100 dark:bg-surface-700 overflow-hidden">
+                      <div
+                        className="h-full bg-brand-500 transition-all"
+                        style={{ width: `${bulkParseProgress && bulkParseProgress.total > 0 ? Math.round((bulkParseProgress.done / bulkParseProgress.total) * 100) : 0}%` }}
+                      />
+                    </div>
+                  </div>
+                ) : (
+                  <button
+                    onClick={handleBulkParse}
+                    disabled={!bulkText.trim() || !isBulkSourceTagValid}
+                    className="w-full py-3.5 bg-gradient-to-r from-brand-600 to-brand-500 text-white font-bold text-sm rounded-xl hover:shadow-lg hover:shadow-brand-600/20 transition disabled:opacity-40 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                  >
+                    <Icon name="Sparkles" className="w-4 h-4" />
+                    Ayristir ve Onizle
+                  </button>
+                )}
               </div>
             ) : (
               /* Preview Step */
@@ -7935,6 +10293,68 @@ export default function App() {
                       </div>
                     </div>
                   )}
+                  {bulkNormalizationChanges.length > 0 && (
+                    <details className="rounded-xl border border-surface-200 dark:border-surface-700 bg-surface-50 dark:bg-surface-900/40 p-3">
+                      <summary className="text-xs font-bold uppercase tracking-wider text-surface-500 dark:text-surface-400 cursor-pointer">
+                        Metin temizlendi ({bulkNormalizationChanges.length} degisiklik) - satir numaralari temizlenmis metne gore
+                      </summary>
+                      <div className="mt-2 max-h-60 overflow-y-auto">
+                        <TextNormalizationChangeList changes={bulkNormalizationChanges} />
+                      </div>
+                    </details>
+                  )}
+                  {bulkJsonSyntaxError && (
+                    <div className="rounded-xl border border-red-200 bg-red-50 dark:bg-red-900/20 dark:border-red-700 p-3">
+                      <p className="text-xs font-bold uppercase tracking-wider text-red-700 dark:text-red-300 mb-1">
+                        JSON Sozdizimi Hatasi{bulkJsonSyntaxError.line !== undefined ? ` - Satir ${bulkJsonSyntaxError.line}, Sutun ${bulkJsonSyntaxError.column}` : ''}
+                      </p>
+                      <p className="text-xs text-red-800 dark:text-red-200 mb-2">{bulkJsonSyntaxError.message}</p>
+                      {bulkJsonSyntaxError.lineText !== undefined && bulkJsonSyntaxError.column !== undefined && (
+                        <pre className="text-[11px] font-mono text-red-900 dark:text-red-100 bg-white/70 dark:bg-surface-900/60 rounded-lg p-2 overflow-x-auto whitespace-pre">
+                          {bulkJsonSyntaxError.lineText}
+                          {'\n'}
+                          {' '.repeat(Math.max(0, bulkJsonSyntaxError.column - 1))}^
+                        </pre>
+                      )}
+                    </div>
+                  )}
+                  {bulkJsonRepairs.length > 0 && (
+                    <div className="rounded-xl border border-violet-200 bg-violet-50 dark:bg-violet-900/20 dark:border-violet-700 p-3">
+                      <p className="text-xs font-bold uppercase tracking-wider text-violet-700 dark:text-violet-300 mb-2">
+                        JSON Duzeltmeleri ({bulkJsonRepairs.length})
+                      </p>
+                      <div className="space-y-1.5">
+                        {bulkJsonRepairs.slice(0, 20).map((repair) => (
+                          <div key={`${repair.kind}-${repair.offset}`} className="text-[11px] text-violet-900 dark:text-violet-100">
+                            <span className="font-semibold">
+                              Satir {repair.line}, Sutun {repair.column} - {repair.kind === 'smart-quote' ? 'Akilli tirnak' : repair.kind === 'newline' ? 'Satir sonu' : 'Ic tirnak'}:
+                            </span>{' '}
+                            <span className="font-mono">{JSON.stringify(repair.before)} → {JSON.stringify(repair.after)}</span>
+                            <p className="font-mono text-violet-600 dark:text-violet-300 truncate">...{repair.context}...</p>
+                          </div>
+                        ))}
+                        {bulkJsonRepairs.length > 20 && (
+                          <p className="text-[11px] text-violet-700 dark:text-violet-300">+{bulkJsonRepairs.length - 20} duzeltme daha...</p>
+                        )}
+                      </div>
+                      <p className="text-[11px] text-violet-700 dark:text-violet-300 mt-2">
+                        Yanlis tahmin varsa metni duzeltin ya da kati JSON moduyla tekrar ayristirin.
+                      </p>
+                    </div>
+                  )}
+                  {bulkDuplicateCount > 0 && (
+                    <div className="rounded-xl border border-amber-200 bg-amber-50 dark:bg-amber-900/20 dark:border-amber-700 p-3 flex items-center justify-between gap-3">
+                      <p className="text-xs font-semibold text-amber-800 dark:text-amber-200">
+                        {bulkDuplicateCount} soru bankadaki veya listedeki bir soruya cok benziyor.
+                      </p>
+                      <button
+                        onClick={handleSkipBulkDuplicates}
+                        className="px-3 py-1.5 rounded-lg bg-amber-500 hover:bg-amber-600 text-white text-xs font-bold transition shrink-0"
+                      >
+                        Benzerleri Atla
+                      </button>
+                    </div>
+                  )}
                   {bulkParsed.length === 0 ? (
                     <div className="text-center py-12">
                       <Icon name="FileQuestion" className="w-12 h-12 text-surface-300 dark:text-surface-600 mx-auto mb-3" />
@@ -7950,6 +10370,21 @@ export default function App() {
                               <span className="inline-flex items-center justify-center w-6 h-6 rounded-lg bg-brand-100 dark:bg-brand-900/30 text-brand-600 dark:text-brand-400 text-xs font-bold shrink-0">{idx + 1}</span>
                               <p className="text-sm font-semibold text-surface-800 dark:text-white truncate">{q.questionText.substring(0, 80)}{q.questionText.length > 80 ? '...' : ''}</p>
                             </div>
+                            {(getQuestionImages(q).length > 0 || q.optionImages) && (
+                              <p className="ml-8 mb-1.5 text-[11px] text-violet-600 dark:text-violet-400">
+                                {getQuestionImages(q).length} soru gorseli{q.optionImages ? `, ${q.optionImages.filter(Boolean).length} secenek gorseli` : ''}
+                              </p>
+                            )}
+                            {q.tables && q.tables.length > 0 && (
+                              <p className="ml-8 mb-1.5 text-[11px] text-cyan-600 dark:text-cyan-400">
+                                {q.tables.map((table) => `${table.caption ? `${table.caption}: ` : ''}${table.headers.length} sutun, ${table.rows.length} satir`).join(' / ')}
+                              </p>
+                            )}
+                            {q.passage && (
+                              <p className="ml-8 mb-1.5 text-[11px] text-sky-600 dark:text-sky-400 truncate">
+                                Ortak metin: {q.passage.text.substring(0, 70)}{q.passage.text.length > 70 ? '...' : ''}
+                              </p>
+                            )}
                             {q.contentItems && q.contentItems.length > 0 && (
                               <div className="ml-8 mb-2 space-y-0.5">
                                 {q.contentItems.map((item, i) => (
@@ -7959,16 +10394,48 @@ export default function App() {
                                 ))}
                               </div>
                             )}
-                            <div className="ml-8 flex flex-wrap gap-1.5">
-                              {q.options.map((opt, oi) => (
-                                <span key={oi} className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-md text-xs ${oi === q.correctOptionIndex ? 'bg-emerald-100 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-400 font-semibold' : 'bg-surface-100 dark:bg-surface-800 text-surface-500'}`}>
-                                  <span className="font-medium">{'ABCDE'[oi]})</span> {opt.substring(0, 30)}{opt.length > 30 ? '...' : ''}
-                                </span>
-                              ))}
-                            </div>
+                            {q.type === 'matching' || q.type === 'ordering' ? (
+                              <div className="ml-8">
+                                <p className="text-[11px] font-semibold text-violet-600 dark:text-violet-400 mb-0.5">{QUESTION_TYPE_LABELS[q.type]}</p>
+                                <QuestionAnswerKey question={q} />
+                              </div>
+                            ) : (
+                              <div className="ml-8 flex flex-wrap gap-1.5">
+                                {q.options.map((opt, oi) => (
+                                  <span key={oi} className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-md text-xs ${oi === q.correctOptionIndex ? 'bg-emerald-100 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-400 font-semibold' : 'bg-surface-100 dark:bg-surface-800 text-surface-500'}`}>
+                                    <span className="font-medium">{getOptionLetter(oi)})</span> {opt.substring(0, 30)}{opt.length > 30 ? '...' : ''}
+                                  </span>
+                                ))}
+                              </div>
+                            )}
                             {q.explanation && (
                               <p className="ml-8 mt-1.5 text-xs text-surface-400 dark:text-surface-500 italic truncate">Aciklama: {q.explanation.substring(0, 80)}...</p>
                             )}
+                            {bulkDuplicateMatches[idx] && (
+                              <p className="ml-8 mt-1.5 text-[11px] font-semibold text-amber-600 dark:text-amber-400 truncate">
+                                {bulkDuplicateMatches[idx].batchIndex !== undefined
+                                  ? `Bu listede #${bulkDuplicateMatches[idx].batchIndex + 1} ile benzer (%${Math.round(bulkDuplicateMatches[idx].score * 100)})`
+                                  : `Benzer soru mevcut (%${Math.round(bulkDuplicateMatches[idx].score * 100)}): ${topicNameById[bulkDuplicateMatches[idx].topicId ?? ''] || 'Bilinmeyen konu'} - ${bulkDuplicateMatches[idx].question.questionText.substring(0, 60)}`}
+                              </p>
+                            )}
+                            {(bulkQuestionDiagnostics[idx] ?? []).length > 0 && (
+                              <div className="ml-8 mt-2 space-y-1">
+                                {bulkQuestionDiagnostics[idx].map((diagnostic, di) => (
+                                  <p
+                                    key={`${diagnostic.message}-${di}`}
+                                    className={`text-[11px] font-medium ${
+                                      diagnostic.severity === 'error'
+                                        ? 'text-red-600 dark:text-red-400'
+                                        : diagnostic.severity === 'warning'
+                                          ? 'text-amber-600 dark:text-amber-400'
+                                          : 'text-surface-400 dark:text-surface-500'
+                                    }`}
+                                  >
+                                    {formatBulkParseDiagnostic(diagnostic)}
+                                  </p>
+                                ))}
+                              </div>
+                            )}
                           </div>
                           <button
                             onClick={() => handleRemoveBulkQuestion(idx)}
@@ -7982,20 +10449,34 @@ export default function App() {
                   )}
                 </div>
                 {/* Footer */}
+                {bulkSaveProgress && (
+                  <div className="px-5 pt-3 shrink-0 space-y-1">
+                    <p className="text-xs font-semibold text-emerald-700 dark:text-emerald-300">
+                      Kaydediliyor... {bulkSaveProgress.done} / {bulkSaveProgress.total}
+                    </p>
+                    <div className="h-2 rounded-full bg-surface-100 dark:bg-surface-700 overflow-hidden">
+                      <div
+                        className="h-full bg-emerald-500 transition-all"
+                        style={{ width: `${bulkSaveProgress.total > 0 ? Math.round((bulkSaveProgress.done / bulkSaveProgress.total) * 100) : 0}%` }}
+                      />
+                    </div>
+                  </div>
+                )}
                 <div className="p-5 border-t border-surface-100 dark:border-surface-700 shrink-0 flex gap-3">
                   <button
                     onClick={() => setBulkStep('paste')}
-                    className="flex-1 py-3 font-bold text-sm text-surface-500 hover:bg-surface-100 dark:hover:bg-surface-700 rounded-xl transition"
+                    disabled={Boolean(bulkSaveProgress)}
+                    className="flex-1 py-3 font-bold text-sm text-surface-500 hover:bg-surface-100 dark:hover:bg-surface-700 rounded-xl transition disabled:opacity-40 disabled:cursor-not-allowed"
                   >
                     Geri Don
                   </button>
                   <button
                     onClick={handleBulkSave}
-                    disabled={bulkParsed.length === 0 || !adminSelectedTopicId || !isBulkSourceTagValid}
+                    disabled={bulkParsed.length === 0 || !adminSelectedTopicId || !isBulkSourceTagValid || Boolean(bulkSaveProgress)}
                     className="flex-[2] py-3 bg-gradient-to-r from-emerald-600 to-emerald-500 text-white font-bold text-sm rounded-xl hover:shadow-lg hover:shadow-emerald-600/20 transition disabled:opacity-40 disabled:cursor-not-allowed flex items-center justify-center gap-2"
                   >
                     <Icon name="CircleCheck" className="w-4 h-4" />
-                    {bulkParsed.length} Soruyu Kaydet
+                    {bulkSaveProgress ? 'Kaydediliyor...' : `${bulkParsed.length} Soruyu Kaydet`}
                   </button>
                 </div>
               </div>
@@ -0,0 +1,63 @@
+import React from 'react';
+import { ImportedDocument } from '../services/documentImport';
+
+type DocumentImportPreviewProps = {
+  document: ImportedDocument;
+  /** Questions the parser finds on each page on its own, by page number. */
+  questionCounts: Record<number, number>;
+  excludedPages: number[];
+  onTogglePage: (pageNumber: number) => void;
+  onCopyImage: (url: string) => void;
+};
+
+// Yuklenen PDF/Word dosyasinin sayfa sayfa onizlemesi
+export const DocumentImportPreview = ({ document, questionCounts, excludedPages, onTogglePage, onCopyImage }: DocumentImportPreviewProps) => (
+  <div className="space-y-2">
+    {document.pages.map((page) => {
+      const isIncluded = !excludedPages.includes(page.pageNumber);
+      const questionCount = questionCounts[page.pageNumber] ?? 0;
+      return (
+        <div
+          key={page.pageNumber}
+          className={`rounded-lg border p-2 text-[11px] ${isIncluded ? 'border-surface-200 dark:border-surface-700' : 'border-dashed border-surface-200 dark:border-surface-700 opacity-50'}`}
+        >
+          <label className="flex items-center gap-2 cursor-pointer select-none">
+            <input
+              type="checkbox"
+              checked={isIncluded}
+              onChange={() => onTogglePage(page.pageNumber)}
+              className="w-4 h-4 rounded accent-brand-600"
+            />
+            <span className="font-bold text-surface-600 dark:text-surface-300">
+              {document.kind === 'pdf' ? `Sayfa ${page.pageNumber}` : 'Belge'}
+            </span>
+            <span className="text-surface-400">
+              {questionCount} soru - {page.text.length} karakter{page.images.length > 0 ? ` - ${page.images.length} gorsel` : ''}
+            </span>
+          </label>
+          {page.images.length > 0 && (
+            <div className="flex flex-wrap gap-2 mt-2">
+              {page.images.map((url, idx) => (
+                <button
+                  key={idx}
+                  type="button"
+                  onClick={() => onCopyImage(url)}
+                  title="Gorsel isaretini kopyala"
+                  className="w-16 h-16 rounded border border-surface-200 dark:border-surface-700 overflow-hidden bg-white hover:ring-2 hover:ring-brand-500 transition"
+                >
+                  <img src={url} alt={`Sayfa ${page.pageNumber} gorsel ${idx + 1}`} className="w-full h-full object-contain" />
+                </button>
+              ))}
+            </div>
+          )}
+          <details className="mt-1">
+            <summary className="cursor-pointer text-surface-400">Metni goster</summary>
+            <pre className="mt-1 font-mono whitespace-pre-wrap break-words text-surface-600 dark:text-surface-300 max-h-40 overflow-y-auto">
+              {page.text || '(metin yok)'}
+            </pre>
+          </details>
+        </div>
+      );
+    })}
+  </div>
+);
@@ -0,0 +1,42 @@
+import React from 'react';
+import { ExamSectionRange, findExamSectionRange } from '../services/examBlueprint';
+
+type ExamSectionNavigatorProps = {
+  sections: ExamSectionRange[];
+  currentQuestionIndex: number;
+  /** Answered question count per section, in section order. */
+  answeredCounts: number[];
+  onSelect: (questionIndex: number) => void;
+};
+
+// Deneme sinavinda bolumler arasi gecis: her sekme bolumun ilk sorusuna gider
+export const ExamSectionNavigator = ({ sections, currentQuestionIndex, answeredCounts, onSelect }: ExamSectionNavigatorProps) => {
+  const currentSection = findExamSectionRange(sections, currentQuestionIndex);
+
+  return (
+    <nav className="flex-shrink-0 bg-white/80 dark:bg-surface-800/80 border-b border-surface-200/80 dark:border-surface-700/70 px-2.5 sm:px-4 md:px-8 py-1.5 overflow-x-auto custom-scrollbar">
+      <div className="flex items-center gap-1.5 min-w-max">
+        {sections.map((section, sectionIndex) => {
+          const isCurrent = currentSection?.id === section.id;
+          const answeredCount = answeredCounts[sectionIndex] ?? 0;
+          return (
+            <button
+              key={section.id}
+              onClick={() => onSelect(section.startIndex)}
+              className={`flex items-center gap-1.5 px-2.5 py-1 rounded-lg border text-[11px] font-semibold transition ${
+                isCurrent
+                  ? 'bg-brand-50 dark:bg-brand-900/30 text-brand-700 dark:text-brand-300 border-brand-200 dark:border-brand-800/60'
+                  : 'text-surface-500 dark:text-surface-300 border-surface-200 dark:border-surface-700 hover:bg-surface-100 dark:hover:bg-surface-700'
+              }`}
+            >
+              <span>{section.name}</span>
+              <span className={`tabular-nums ${answeredCount === section.questionCount ? 'text-emerald-600 dark:text-emerald-400' : 'text-surface-400'}`}>
+                {answeredCount}/{section.questionCount}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+    </nav>
+  );
+};
@@ -0,0 +1,46 @@
+import React from 'react';
+
+export type ExamSectionScore = {
+  id: string;
+  name: string;
+  questionCount: number;
+  correctCount: number;
+  wrongCount: number;
+  blankCount: number;
+  /** Already formatted, e.g. "21,75". */
+  net: string;
+};
+
+// Deneme sinavi sonucu: bolum bazinda dogru/yanlis/bos ve net
+export const ExamSectionResults = ({ scores }: { scores: ExamSectionScore[] }) => (
+  <div className="bg-white dark:bg-surface-800 rounded-3xl p-5 shadow-card dark:shadow-card-dark border border-surface-100 dark:border-surface-700 mb-5">
+    <h4 className="text-sm font-bold text-surface-500 uppercase tracking-wider mb-3">Bolum Sonuclari</h4>
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm text-left">
+        <thead>
+          <tr className="text-[10px] font-bold uppercase tracking-wider text-surface-400">
+            <th className="py-1.5 pr-2">Bolum</th>
+            <th className="py-1.5 px-1.5 text-center">D</th>
+            <th className="py-1.5 px-1.5 text-center">Y</th>
+            <th className="py-1.5 px-1.5 text-center">B</th>
+            <th className="py-1.5 pl-1.5 text-right">Net</th>
+          </tr>
+        </thead>
+        <tbody>
+          {scores.map((score) => (
+            <tr key={score.id} className="border-t border-surface-100 dark:border-surface-700">
+              <td className="py-2 pr-2 font-semibold text-surface-700 dark:text-surface-200">
+                {score.name}
+                <span className="ml-1 text-[11px] font-medium text-surface-400">({score.questionCount})</span>
+              </td>
+              <td className="py-2 px-1.5 text-center font-bold text-emerald-500">{score.correctCount}</td>
+              <td className="py-2 px-1.5 text-center font-bold text-red-400">{score.wrongCount}</td>
+              <td className="py-2 px-1.5 text-center font-bold text-orange-500 dark:text-orange-300">{score.blankCount}</td>
+              <td className="py-2 pl-1.5 text-right font-black text-sky-500 dark:text-sky-300 tabular-nums">{score.net}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  </div>
+);
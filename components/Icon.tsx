@@ -46,6 +46,7 @@ import {
   Flag,
   Info,
   Landmark,
+  FileUp,
 } from 'lucide-react';
 
 export const Icon = ({ name, className }: { name: string, className?: string }) => {
@@ -96,6 +97,7 @@ export const Icon = ({ name, className }: { name: string, className?: string })
     Flag: <Flag className={className} />,
     Info: <Info className={className} />,
     Landmark: <Landmark className={className} />,
+    FileUp: <FileUp className={className} />,
   };
 
   return <>{icons[name] || <BookOpen className={className} />}</>;
@@ -0,0 +1,67 @@
+import React from 'react';
+import { MatchingQuestion } from '../types';
+import { getOptionLetter } from '../services/questionParser';
+
+type MatchingAnswerInputProps = {
+  question: MatchingQuestion;
+  /** Option index chosen for each prompt; -1 while a prompt is still unmatched. */
+  answer: number[] | null;
+  onChange: (answer: number[] | null) => void;
+  /** Tailwind gradient of the active category, e.g. "from-sky-500 to-blue-600". */
+  accentGradient: string;
+};
+
+// Eslestirme: her sol ogeye sag sutundan bir harf secilir; secili harfe tekrar basmak eslesmeyi kaldirir
+export const MatchingAnswerInput = ({ question, answer, onChange, accentGradient }: MatchingAnswerInputProps) => {
+  const matches = question.matchPrompts.map((_, promptIndex) => answer?.[promptIndex] ?? -1);
+  const usedOptionIndexes = new Set(matches.filter((optionIndex) => optionIndex >= 0));
+
+  const handleMatch = (promptIndex: number, optionIndex: number) => {
+    const nextMatches = [...matches];
+    nextMatches[promptIndex] = nextMatches[promptIndex] === optionIndex ? -1 : optionIndex;
+    onChange(nextMatches.some((value) => value >= 0) ? nextMatches : null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="rounded-xl border border-surface-200 dark:border-surface-700 bg-surface-50 dark:bg-surface-900/60 p-3 space-y-1">
+        {question.options.map((option, optionIndex) => (
+          <p key={optionIndex} className="text-sm text-surface-700 dark:text-surface-200">
+            <span className="font-bold text-surface-500 dark:text-surface-400 mr-1.5">{getOptionLetter(optionIndex)})</span>
+            {option}
+          </p>
+        ))}
+      </div>
+      {question.matchPrompts.map((prompt, promptIndex) => (
+        <div key={promptIndex} className="rounded-xl border border-surface-200 dark:border-surface-700 bg-white/95 dark:bg-surface-800/95 p-3 shadow-card dark:shadow-card-dark">
+          <p className="text-sm font-medium text-surface-700 dark:text-surface-200 mb-2">
+            <span className="font-bold text-surface-500 dark:text-surface-400 mr-1.5">{promptIndex + 1}.</span>
+            {prompt}
+          </p>
+          <div className="flex flex-wrap gap-1.5">
+            {question.options.map((_, optionIndex) => {
+              const isSelected = matches[promptIndex] === optionIndex;
+              const isUsedElsewhere = !isSelected && usedOptionIndexes.has(optionIndex);
+              return (
+                <button
+                  key={optionIndex}
+                  onClick={() => handleMatch(promptIndex, optionIndex)}
+                  className={`w-9 h-9 rounded-lg border text-xs font-bold transition ${
+                    isSelected
+                      ? `bg-gradient-to-r ${accentGradient} text-white border-transparent shadow`
+                      : isUsedElsewhere
+                        ? 'bg-surface-50 dark:bg-surface-900 text-surface-300 dark:text-surface-600 border-surface-200 dark:border-surface-700'
+                        : 'bg-surface-100 dark:bg-surface-700 text-surface-500 dark:text-surface-300 border-surface-200 dark:border-surface-600 hover:bg-surface-200 dark:hover:bg-surface-600'
+                  }`}
+                >
+                  {getOptionLetter(optionIndex)}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+      <p className="text-[11px] text-surface-400">Tum ogeler eslestirilmeden soru bos sayilir.</p>
+    </div>
+  );
+};
@@ -0,0 +1,70 @@
+import React from 'react';
+import { OrderingQuestion } from '../types';
+import { getOptionLetter } from '../services/questionParser';
+
+type OrderingAnswerInputProps = {
+  question: OrderingQuestion;
+  /** Option indexes in the order the user tapped them. */
+  answer: number[] | null;
+  onChange: (answer: number[] | null) => void;
+  /** Tailwind gradient of the active category, e.g. "from-sky-500 to-blue-600". */
+  accentGradient: string;
+};
+
+// Siralama: ogelere dogru sirayla dokunulur; sirasi verilmis ogeye dokunmak onu siradan cikarir
+export const OrderingAnswerInput = ({ question, answer, onChange, accentGradient }: OrderingAnswerInputProps) => {
+  const order = answer ?? [];
+
+  const handleToggle = (optionIndex: number) => {
+    const nextOrder = order.includes(optionIndex)
+      ? order.filter((value) => value !== optionIndex)
+      : [...order, optionIndex];
+    onChange(nextOrder.length > 0 ? nextOrder : null);
+  };
+
+  return (
+    <div className="space-y-2">
+      {question.options.map((option, optionIndex) => {
+        const position = order.indexOf(optionIndex);
+        const isPlaced = position >= 0;
+        return (
+          <button
+            key={optionIndex}
+            onClick={() => handleToggle(optionIndex)}
+            className={`w-full text-left border rounded-xl p-3 flex items-center gap-3 transition ${
+              isPlaced
+                ? `bg-gradient-to-r ${accentGradient} border-transparent shadow-lg`
+                : 'bg-white/95 dark:bg-surface-800/95 border-surface-200 dark:border-surface-700 hover:border-surface-300 dark:hover:border-surface-500 shadow-card dark:shadow-card-dark'
+            }`}
+          >
+            <span className={`w-8 h-8 flex-shrink-0 rounded-xl border flex items-center justify-center text-xs font-bold ${
+              isPlaced
+                ? 'bg-white/20 text-white border-white/30'
+                : 'bg-surface-100 dark:bg-surface-700 text-surface-500 dark:text-surface-400 border-surface-200 dark:border-surface-600'
+            }`}>
+              {isPlaced ? position + 1 : getOptionLetter(optionIndex)}
+            </span>
+            <span className={`text-sm font-medium leading-relaxed ${isPlaced ? 'text-white' : 'text-surface-700 dark:text-surface-200'}`}>
+              {option}
+            </span>
+          </button>
+        );
+      })}
+      <div className="flex items-center justify-between gap-2 pt-1">
+        <p className="text-[11px] text-surface-400">
+          {order.length > 0
+            ? `Sira: ${order.map(getOptionLetter).join(' > ')}${order.length < question.options.length ? ' ...' : ''}`
+            : 'Ogelere dogru sirayla dokunun.'}
+        </p>
+        {order.length > 0 && (
+          <button
+            onClick={() => onChange(null)}
+            className="px-2.5 py-1 rounded-lg border border-surface-200 dark:border-surface-700 text-[11px] font-semibold text-surface-500 dark:text-surface-300 hover:bg-surface-100 dark:hover:bg-surface-700 transition"
+          >
+            Sifirla
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
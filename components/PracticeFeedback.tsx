@@ -0,0 +1,59 @@
+import React from 'react';
+import { Question, QuizAnswer } from '../types';
+import { formatQuizAnswer, getOptionLetter, isAnswerCorrect } from '../services/questionParser';
+import { QuestionAnswerKey } from './QuestionAnswerKey';
+import { Icon } from './Icon';
+
+type PracticeFeedbackProps = {
+  question: Question;
+  answer: QuizAnswer;
+  isLastQuestion: boolean;
+  onContinue: () => void;
+};
+
+// Alistirma modunda cevap kontrol edilince: dogru/yanlis, dogru cevap ve aciklamalar
+export const PracticeFeedback = ({ question, answer, isLastQuestion, onContinue }: PracticeFeedbackProps) => {
+  const isCorrect = isAnswerCorrect(question, answer);
+  const optionExplanation = typeof answer === 'number' ? question.optionExplanations?.[answer] : null;
+
+  return (
+    <div className={`mt-3 rounded-2xl border p-4 animate-fade-in ${
+      isCorrect
+        ? 'bg-emerald-50/80 dark:bg-emerald-900/20 border-emerald-200 dark:border-emerald-800/60'
+        : 'bg-red-50/80 dark:bg-red-900/20 border-red-200 dark:border-red-800/60'
+    }`}>
+      <div className="flex items-center gap-2 mb-2">
+        <Icon name={isCorrect ? 'CircleCheck' : 'CircleX'} className={`w-5 h-5 ${isCorrect ? 'text-emerald-500' : 'text-red-500'}`} />
+        <p className={`text-sm font-extrabold ${isCorrect ? 'text-emerald-700 dark:text-emerald-300' : 'text-red-600 dark:text-red-300'}`}>
+          {isCorrect ? 'Doğru!' : 'Yanlış'}
+        </p>
+      </div>
+      <div className="text-xs space-y-1">
+        {!isCorrect && (
+          question.type === 'matching' || question.type === 'ordering' ? (
+            <QuestionAnswerKey question={question} />
+          ) : (
+            <p className="text-emerald-700 dark:text-emerald-400 font-semibold">
+              Dogru cevap: {formatQuizAnswer(question, question.correctOptionIndex)}
+            </p>
+          )
+        )}
+        {typeof answer === 'number' && optionExplanation && (
+          <p className={isCorrect ? 'text-emerald-700/90 dark:text-emerald-300/90' : 'text-red-600/90 dark:text-red-300/90'}>
+            {getOptionLetter(answer)}) sikki: {optionExplanation}
+          </p>
+        )}
+        {question.explanation && (
+          <p className="text-surface-600 dark:text-surface-300 leading-relaxed whitespace-pre-line">{question.explanation}</p>
+        )}
+      </div>
+      <button
+        onClick={onContinue}
+        className="mt-3 w-full py-2.5 rounded-xl bg-gradient-to-r from-emerald-500 to-teal-600 hover:from-emerald-600 hover:to-teal-700 text-white font-bold text-sm transition flex items-center justify-center gap-1"
+      >
+        {isLastQuestion ? 'Sonuçları gör' : 'Devam et'}
+        <Icon name="ChevronRight" className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
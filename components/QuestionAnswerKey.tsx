@@ -0,0 +1,23 @@
+import React from 'react';
+import { MatchingQuestion, OrderingQuestion } from '../types';
+import { getOptionLetter } from '../services/questionParser';
+
+// Eslestirme ve siralama sorularinin cevap anahtari: "sol -> sag" satirlari veya numarali dogru sira
+export const QuestionAnswerKey = ({ question }: { question: MatchingQuestion | OrderingQuestion }) => (
+  <ol className="space-y-0.5 text-xs text-emerald-700 dark:text-emerald-400">
+    {question.type === 'matching'
+      ? question.matchPrompts.map((prompt, promptIndex) => {
+        const optionIndex = question.correctMatches[promptIndex];
+        return (
+          <li key={promptIndex}>
+            {promptIndex + 1}. {prompt} <span className="text-surface-400">&rarr;</span> {getOptionLetter(optionIndex)}) {question.options[optionIndex]}
+          </li>
+        );
+      })
+      : question.correctOrder.map((optionIndex, position) => (
+        <li key={position}>
+          {position + 1}. {getOptionLetter(optionIndex)}) {question.options[optionIndex]}
+        </li>
+      ))}
+  </ol>
+);
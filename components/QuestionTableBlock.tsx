@@ -0,0 +1,54 @@
+import React from 'react';
+import { QuestionTable } from '../types';
+
+type QuestionTableBlockProps = {
+  tables: QuestionTable[];
+  /** Smaller cells for the compact quiz text size. */
+  compact?: boolean;
+  className?: string;
+};
+
+// Soru tablolari; dar ekranda tablo kendi icinde yatay kayar, sayfa tasmaz
+export const QuestionTableBlock = ({ tables, compact = false, className = '' }: QuestionTableBlockProps) => (
+  <div className={`space-y-3 ${className}`}>
+    {tables.map((table, tableIndex) => (
+      <figure key={tableIndex} className="rounded-xl border border-surface-200/70 dark:border-surface-700/60 overflow-hidden">
+        {table.caption && (
+          <figcaption className="px-3 py-1.5 text-[11px] font-semibold text-surface-500 dark:text-surface-400 bg-surface-50 dark:bg-surface-900/60 border-b border-surface-200/70 dark:border-surface-700/60">
+            {table.caption}
+          </figcaption>
+        )}
+        <div className="overflow-x-auto">
+          <table className={`w-full border-collapse text-left ${compact ? 'text-xs' : 'text-sm'}`}>
+            <thead className="bg-surface-100/80 dark:bg-surface-800">
+              <tr>
+                {table.headers.map((header, columnIndex) => (
+                  <th
+                    key={columnIndex}
+                    className={`${compact ? 'px-2 py-1' : 'px-3 py-2'} font-bold text-surface-700 dark:text-surface-200 whitespace-nowrap`}
+                  >
+                    {header}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {table.rows.map((row, rowIndex) => (
+                <tr key={rowIndex} className="border-t border-surface-200/70 dark:border-surface-700/60">
+                  {row.map((cell, columnIndex) => (
+                    <td
+                      key={columnIndex}
+                      className={`${compact ? 'px-2 py-1' : 'px-3 py-2'} text-surface-700 dark:text-surface-300 ${columnIndex === 0 ? 'font-medium' : ''}`}
+                    >
+                      {cell}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </figure>
+    ))}
+  </div>
+);
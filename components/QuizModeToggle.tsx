@@ -0,0 +1,36 @@
+import React from 'react';
+import { QuizMode } from '../types';
+import { Icon } from './Icon';
+
+const QUIZ_MODE_OPTIONS: Array<{ mode: QuizMode; label: string; hint: string; icon: string }> = [
+  { mode: 'exam', label: 'Sınav', hint: 'Sonuçlar test bitince', icon: 'Timer' },
+  { mode: 'practice', label: 'Alıştırma', hint: 'Her cevaptan sonra açıklama', icon: 'GraduationCap' },
+];
+
+// Test kurulumunda sinav / alistirma secimi
+export const QuizModeToggle = ({ mode, onChange }: { mode: QuizMode; onChange: (mode: QuizMode) => void }) => (
+  <div className="grid grid-cols-2 gap-2">
+    {QUIZ_MODE_OPTIONS.map((option) => {
+      const isActive = option.mode === mode;
+      return (
+        <button
+          key={option.mode}
+          onClick={() => onChange(option.mode)}
+          className={`flex items-center gap-2.5 p-3 rounded-xl border text-left transition ${
+            isActive
+              ? 'bg-brand-50 dark:bg-brand-900/30 border-brand-300 dark:border-brand-700/60'
+              : 'bg-white dark:bg-surface-800 border-surface-200 dark:border-surface-600 hover:border-surface-300 dark:hover:border-surface-500'
+          }`}
+        >
+          <Icon name={option.icon} className={`w-4 h-4 flex-shrink-0 ${isActive ? 'text-brand-600 dark:text-brand-300' : 'text-surface-400'}`} />
+          <span className="min-w-0">
+            <span className={`block text-sm font-bold ${isActive ? 'text-brand-700 dark:text-brand-200' : 'text-surface-700 dark:text-surface-200'}`}>
+              {option.label}
+            </span>
+            <span className="block text-[11px] text-surface-400 truncate">{option.hint}</span>
+          </span>
+        </button>
+      );
+    })}
+  </div>
+);
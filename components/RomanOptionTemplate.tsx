@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { MAX_OPTION_COUNT, MIN_OPTION_COUNT } from '../services/questionParser';
+import {
+  MAX_ROMAN_ITEM_COUNT,
+  MIN_ROMAN_ITEM_COUNT,
+  RomanSubset,
+  buildRomanOptionSet,
+  formatRomanOptionLines,
+  formatRomanSubset,
+  isSameRomanSubset,
+  listRomanSubsets,
+} from '../services/romanOptions';
+
+type RomanOptionTemplateProps = {
+  /** Items written in the form's I., II., III. field. */
+  itemCount: number;
+  onApply: (optionsText: string, correctOption: number) => void;
+};
+
+const ROMAN_LABELS = ['I', 'II', 'III', 'IV', 'V'];
+
+// "Hangileri" sorulari icin oncul kombinasyonlarindan sik uretir
+export const RomanOptionTemplate = ({ itemCount, onApply }: RomanOptionTemplateProps) => {
+  const [correctItems, setCorrectItems] = useState<number[]>([]);
+  const [optionCount, setOptionCount] = useState<number>(MAX_OPTION_COUNT);
+  const [isCustom, setIsCustom] = useState(false);
+  const [customPicks, setCustomPicks] = useState<RomanSubset[]>([]);
+
+  if (itemCount < MIN_ROMAN_ITEM_COUNT || itemCount > MAX_ROMAN_ITEM_COUNT) {
+    return (
+      <p className="text-[11px] text-surface-400">
+        Oncul sablonu icin {MIN_ROMAN_ITEM_COUNT}-{MAX_ROMAN_ITEM_COUNT} arasi oncul (I., II., III. ...) yazin.
+      </p>
+    );
+  }
+
+  const correctSubset = correctItems.filter((index: number) => index < itemCount).sort((a: number, b: number) => a - b);
+  const distractorChoices = listRomanSubsets(itemCount).filter((subset) => !isSameRomanSubset(subset, correctSubset));
+  const selectedPicks = customPicks.filter((pick: RomanSubset) => distractorChoices.some((subset) => isSameRomanSubset(subset, pick)));
+  const canApply = correctSubset.length > 0 && (!isCustom || selectedPicks.length === optionCount - 1);
+
+  const toggleCorrectItem = (index: number) => {
+    setCorrectItems((prev: number[]) => (prev.includes(index) ? prev.filter((value) => value !== index) : [...prev, index]));
+  };
+
+  const toggleCustomPick = (subset: RomanSubset) => {
+    setCustomPicks((prev: RomanSubset[]) => (
+      prev.some((pick) => isSameRomanSubset(pick, subset))
+        ? prev.filter((pick) => !isSameRomanSubset(pick, subset))
+        : [...prev, subset]
+    ));
+  };
+
+  const handleApply = () => {
+    if (!canApply) return;
+    const optionSet = buildRomanOptionSet(itemCount, correctSubset, optionCount, isCustom ? selectedPicks : undefined);
+    onApply(formatRomanOptionLines(optionSet), optionSet.correctOptionIndex);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-3 text-xs text-surface-500 dark:text-surface-400">
+        <span className="font-semibold">Dogru oncul(ler):</span>
+        {ROMAN_LABELS.slice(0, itemCount).map((label, index) => (
+          <label key={label} className="flex items-center gap-1 cursor-pointer select-none">
+            <input
+              type="checkbox"
+              checked={correctItems.includes(index)}
+              onChange={() => toggleCorrectItem(index)}
+              className="w-4 h-4 rounded accent-brand-600"
+            />
+            {label}
+          </label>
+        ))}
+      </div>
+      <div className="flex flex-wrap items-center gap-3 text-xs text-surface-500 dark:text-surface-400">
+        <select
+          value={optionCount}
+          onChange={(e) => setOptionCount(parseInt(e.target.value, 10))}
+          className="px-2 py-1 rounded-lg bg-surface-50 dark:bg-surface-900 border border-surface-200 dark:border-surface-700 dark:text-white text-xs"
+        >
+          {[MIN_OPTION_COUNT, MAX_OPTION_COUNT].map((count) => (
+            <option key={count} value={count}>{count} sik</option>
+          ))}
+        </select>
+        <label className="flex items-center gap-1 cursor-pointer select-none">
+          <input type="radio" checked={!isCustom} onChange={() => setIsCustom(false)} className="accent-brand-600" />
+          Standart (OSYM)
+        </label>
+        <label className="flex items-center gap-1 cursor-pointer select-none">
+          <input type="radio" checked={isCustom} onChange={() => setIsCustom(true)} className="accent-brand-600" />
+          Ozel secim
+        </label>
+      </div>
+      {isCustom && (
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-1">
+          {distractorChoices.map((subset) => (
+            <label key={subset.join('-')} className="flex items-center gap-1.5 text-[11px] text-surface-500 dark:text-surface-400 cursor-pointer select-none">
+              <input
+                type="checkbox"
+                checked={selectedPicks.some((pick: RomanSubset) => isSameRomanSubset(pick, subset))}
+                onChange={() => toggleCustomPick(subset)}
+                className="w-3.5 h-3.5 rounded accent-brand-600"
+              />
+              {formatRomanSubset(subset)}
+            </label>
+          ))}
+          <p className="col-span-full text-[11px] text-surface-400">
+            Dogru secenek disinda {optionCount - 1} celdirici secin ({selectedPicks.length} secili).
+          </p>
+        </div>
+      )}
+      <button
+        type="button"
+        onClick={handleApply}
+        disabled={!canApply}
+        className="px-3 py-1.5 rounded-lg bg-brand-600 text-white text-xs font-bold hover:bg-brand-700 transition disabled:opacity-40 disabled:cursor-not-allowed"
+      >
+        Siklari Olustur
+      </button>
+    </div>
+  );
+};
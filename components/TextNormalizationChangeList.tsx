@@ -0,0 +1,28 @@
+import React from 'react';
+import { TEXT_NORMALIZATION_STEP_LABELS, TextNormalizationChange } from '../services/questionParser';
+
+const MAX_VISIBLE_CHANGES = 30;
+
+// Temizleme adimlarinin degistirdigi satirlar: once / sonra
+export const TextNormalizationChangeList = ({ changes }: { changes: TextNormalizationChange[] }) => {
+  if (changes.length === 0) {
+    return <p className="text-xs text-surface-400">Temizlenecek bir sey bulunamadi.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {changes.slice(0, MAX_VISIBLE_CHANGES).map((change, idx) => (
+        <div key={`${change.step}-${change.line}-${idx}`} className="text-[11px]">
+          <p className="font-semibold text-surface-500 dark:text-surface-400">
+            Satir {change.line} - {TEXT_NORMALIZATION_STEP_LABELS[change.step]}
+          </p>
+          <pre className="font-mono whitespace-pre-wrap break-words text-red-600 dark:text-red-400 line-through decoration-red-300 max-h-24 overflow-y-auto">{change.before}</pre>
+          <pre className="font-mono whitespace-pre-wrap break-words text-emerald-700 dark:text-emerald-400 max-h-24 overflow-y-auto">{change.after}</pre>
+        </div>
+      ))}
+      {changes.length > MAX_VISIBLE_CHANGES && (
+        <p className="text-[11px] text-surface-400">+{changes.length - MAX_VISIBLE_CHANGES} degisiklik daha...</p>
+      )}
+    </div>
+  );
+};
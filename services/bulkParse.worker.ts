@@ -0,0 +1,28 @@
+import { BulkParseOptions, parseBulkQuestionsWithReport } from './questionParser';
+import { BulkParseWorkerRequest, BulkParseWorkerResponse } from './bulkParseTask';
+
+// Ilerleme mesajlari en fazla bu aralikla gonderilir; her blokta mesaj atmak ana is parcacigini yorar
+const PROGRESS_INTERVAL_MS = 100;
+
+const workerScope = self as unknown as {
+  onmessage: ((event: MessageEvent<BulkParseWorkerRequest>) => void) | null;
+  postMessage: (message: BulkParseWorkerResponse) => void;
+};
+
+workerScope.onmessage = (event) => {
+  const { text, options } = event.data;
+  let lastProgressAt = 0;
+  const onProgress: BulkParseOptions['onProgress'] = (progress) => {
+    const now = Date.now();
+    if (now - lastProgressAt < PROGRESS_INTERVAL_MS) return;
+    lastProgressAt = now;
+    workerScope.postMessage({ type: 'progress', progress });
+  };
+
+  try {
+    const report = parseBulkQuestionsWithReport(text, { ...options, onProgress });
+    workerScope.postMessage({ type: 'result', report });
+  } catch (error) {
+    workerScope.postMessage({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,66 @@
+import { BulkParseOptions, BulkParseProgress, BulkParseReport, parseBulkQuestionsWithReport } from './questionParser';
+
+export type BulkParseWorkerRequest = { text: string; options: Omit<BulkParseOptions, 'onProgress'> };
+
+export type BulkParseWorkerResponse =
+  | { type: 'progress'; progress: BulkParseProgress }
+  | { type: 'result'; report: BulkParseReport }
+  | { type: 'error'; message: string };
+
+export type BulkParseTask = {
+  /** Resolves with the report, or null when the task was cancelled. */
+  promise: Promise<BulkParseReport | null>;
+  cancel: () => void;
+};
+
+/**
+ * Run `parseBulkQuestionsWithReport` in a Web Worker so long pastes do not freeze the modal.
+ * Cancelling terminates the worker outright; browsers without module workers parse on the main thread.
+ */
+export function startBulkParseTask(
+  text: string,
+  options: Omit<BulkParseOptions, 'onProgress'>,
+  onProgress: (progress: BulkParseProgress) => void
+): BulkParseTask {
+  let worker: Worker;
+  try {
+    worker = new Worker(new URL('./bulkParse.worker.ts', import.meta.url), { type: 'module' });
+  } catch (error) {
+    console.warn('Ayristirma is parcacigi baslatilamadi, ana is parcaciginda ayristiriliyor:', error);
+    return {
+      promise: Promise.resolve().then(() => parseBulkQuestionsWithReport(text, { ...options, onProgress })),
+      cancel: () => {},
+    };
+  }
+
+  let settle: (report: BulkParseReport | null) => void = () => {};
+  let fail: (error: Error) => void = () => {};
+  const promise = new Promise<BulkParseReport | null>((resolve, reject) => {
+    settle = resolve;
+    fail = reject;
+  });
+
+  worker.onmessage = (event: MessageEvent<BulkParseWorkerResponse>) => {
+    const message = event.data;
+    if (message.type === 'progress') {
+      onProgress(message.progress);
+      return;
+    }
+    worker.terminate();
+    if (message.type === 'result') settle(message.report);
+    else fail(new Error(message.message));
+  };
+  worker.onerror = (event) => {
+    worker.terminate();
+    fail(new Error(event.message || 'Ayristirma is parcacigi hata verdi.'));
+  };
+  worker.postMessage({ text, options } satisfies BulkParseWorkerRequest);
+
+  return {
+    promise,
+    cancel: () => {
+      worker.terminate();
+      settle(null);
+    },
+  };
+}
@@ -0,0 +1,293 @@
+import type { PDFPageProxy } from 'pdfjs-dist';
+import { formatImageMarker } from './questionParser';
+
+export type ImportedDocumentKind = 'pdf' | 'docx';
+
+export type ImportedDocumentPage = {
+  pageNumber: number;
+  text: string;
+  /** Downscaled JPEG/PNG data URLs of the figures found on the page. */
+  images: string[];
+};
+
+export type ImportedDocument = {
+  fileName: string;
+  kind: ImportedDocumentKind;
+  pages: ImportedDocumentPage[];
+  warnings: string[];
+};
+
+const MAX_IMAGE_SIDE = 1000;
+const MIN_IMAGE_SIDE = 24;
+// Gorseller soru belgesine data URL olarak yazilir ve Firestore 1 MiB'tan buyuk belgeyi reddeder;
+// bu siniri asan gorsel once daha dusuk kaliteyle kodlanir, yine asarsa uyariyla disarida birakilir
+const MAX_INLINE_IMAGE_LENGTH = 300 * 1024;
+// Ayni satirdaki iki metin parcasi arasinda bu kadar karakterlik bosluk varsa sutun araligi sayilir
+const COLUMN_GAP_CHARS = 3;
+
+export function detectDocumentKind(file: File): ImportedDocumentKind | null {
+  const name = file.name.toLowerCase();
+  if (file.type === 'application/pdf' || name.endsWith('.pdf')) return 'pdf';
+  if (file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' || name.endsWith('.docx')) return 'docx';
+  return null;
+}
+
+/**
+ * Read a deneme booklet entirely in the browser. The PDF reader and its worker are bundled with the app
+ * and loaded on first use, so import works without a network connection.
+ */
+export async function extractDocument(file: File): Promise<ImportedDocument> {
+  const kind = detectDocumentKind(file);
+  if (!kind) throw new Error('Yalnizca .pdf ve .docx dosyalari desteklenir.');
+  const buffer = await file.arrayBuffer();
+  const { pages, warnings } = kind === 'pdf' ? await extractPdfPages(buffer) : await extractDocxPages(buffer);
+  return { fileName: file.name, kind, pages, warnings };
+}
+
+/** Pages joined with "SAYFA n" lines; the text parser drops those lines and the normalizer treats them as page breaks. */
+export function buildDocumentText(pages: ImportedDocumentPage[]): string {
+  return pages.map(page => `SAYFA ${page.pageNumber}\n${page.text.trim()}`).join('\n\n');
+}
+
+async function extractPdfPages(buffer: ArrayBuffer): Promise<{ pages: ImportedDocumentPage[]; warnings: string[] }> {
+  const pdfjs = await import('pdfjs-dist');
+  const { default: workerUrl } = await import('pdfjs-dist/build/pdf.worker.min.mjs?url');
+  pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(buffer) }).promise;
+  const pages: ImportedDocumentPage[] = [];
+  const warnings: string[] = [];
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const textContent = await page.getTextContent();
+      const text = buildPdfPageText(textContent.items.filter(item => 'str' in item) as PdfTextItem[]);
+      let images: string[] = [];
+      try {
+        images = keepInlineImages(await extractPdfPageImages(page, pdfjs.OPS), `Sayfa ${pageNumber}`, warnings);
+      } catch (error) {
+        console.warn(`PDF sayfa ${pageNumber} gorselleri okunamadi:`, error);
+        warnings.push(`Sayfa ${pageNumber}: gorseller okunamadi.`);
+      }
+      if (!text.trim()) warnings.push(`Sayfa ${pageNumber}: metin bulunamadi (taranmis sayfa olabilir, OCR gerekir).`);
+      pages.push({ pageNumber, text, images });
+      page.cleanup();
+    }
+  } finally {
+    await pdf.destroy();
+  }
+  return { pages, warnings };
+}
+
+type PdfTextItem = { str: string; transform: number[]; width: number; hasEOL: boolean };
+
+/**
+ * Rebuild lines from positioned text runs: runs sharing a baseline form one line, ordered left to right.
+ * A wide horizontal jump is kept as a run of spaces so two-column pages can be split later.
+ */
+function buildPdfPageText(items: PdfTextItem[]): string {
+  const lines: { y: number; runs: PdfTextItem[] }[] = [];
+  items.forEach((item) => {
+    if (!item.str) return;
+    const y = item.transform[5];
+    const tolerance = Math.max(2, Math.abs(item.transform[3]) * 0.4);
+    const line = lines.find(candidate => Math.abs(candidate.y - y) <= tolerance);
+    if (line) line.runs.push(item);
+    else lines.push({ y, runs: [item] });
+  });
+
+  return lines
+    .sort((a, b) => b.y - a.y)
+    .map((line) => {
+      const runs = line.runs.sort((a, b) => a.transform[4] - b.transform[4]);
+      let text = '';
+      let previousEnd: number | null = null;
+      runs.forEach((run) => {
+        const x = run.transform[4];
+        const charWidth = run.str.length > 0 ? run.width / run.str.length : 0;
+        if (previousEnd !== null && charWidth > 0) {
+          const gapChars = (x - previousEnd) / charWidth;
+          if (gapChars >= COLUMN_GAP_CHARS) text += ' '.repeat(Math.min(Math.round(gapChars), 12));
+          else if (gapChars > 0.25 && !/\s$/.test(text) && !/^\s/.test(run.str)) text += ' ';
+        }
+        text += run.str;
+        previousEnd = x + run.width;
+      });
+      return text.trimEnd();
+    })
+    .join('\n');
+}
+
+type PdfImageObject = { width: number; height: number; bitmap?: ImageBitmap; data?: Uint8ClampedArray; kind?: number };
+
+async function extractPdfPageImages(page: PDFPageProxy, ops: Record<string, number>): Promise<string[]> {
+  const operatorList = await page.getOperatorList();
+  const imageNames = new Set<string>();
+  operatorList.fnArray.forEach((fn: number, index: number) => {
+    if (fn === ops.paintImageXObject || fn === ops.paintImageXObjectRepeat) {
+      imageNames.add(operatorList.argsArray[index][0]);
+    }
+  });
+
+  const images: string[] = [];
+  for (const name of imageNames) {
+    const store = name.startsWith('g_') ? page.commonObjs : page.objs;
+    const image = await new Promise<PdfImageObject | null>(resolve => store.get(name, resolve));
+    const dataUrl = image ? pdfImageToDataUrl(image) : null;
+    if (dataUrl) images.push(dataUrl);
+  }
+  return images;
+}
+
+/** pdf.js hands images over either as an ImageBitmap or as raw RGB/RGBA pixels. */
+function pdfImageToDataUrl(image: PdfImageObject): string | null {
+  const { width, height } = image;
+  if (!width || !height || width < MIN_IMAGE_SIDE || height < MIN_IMAGE_SIDE) return null;
+
+  const source = document.createElement('canvas');
+  source.width = width;
+  source.height = height;
+  const context = source.getContext('2d');
+  if (!context) return null;
+
+  if (image.bitmap) {
+    context.drawImage(image.bitmap, 0, 0);
+  } else if (image.data) {
+    const pixels = context.createImageData(width, height);
+    const channels = image.data.length / (width * height);
+    if (channels === 4) {
+      pixels.data.set(image.data);
+    } else if (channels === 3) {
+      for (let src = 0, dst = 0; src < image.data.length; src += 3, dst += 4) {
+        pixels.data[dst] = image.data[src];
+        pixels.data[dst + 1] = image.data[src + 1];
+        pixels.data[dst + 2] = image.data[src + 2];
+        pixels.data[dst + 3] = 255;
+      }
+    } else {
+      // 1 bit/piksel maskeler atlanir
+      return null;
+    }
+    context.putImageData(pixels, 0, 0);
+  } else {
+    return null;
+  }
+  return downscaleCanvas(source);
+}
+
+async function extractDocxPages(buffer: ArrayBuffer): Promise<{ pages: ImportedDocumentPage[]; warnings: string[] }> {
+  const { default: mammoth } = await import('mammoth');
+  const images: string[] = [];
+  const imageWarnings: string[] = [];
+  const result = await mammoth.convertToHtml({ arrayBuffer: buffer }, {
+    convertImage: mammoth.images.imgElement(async (image) => {
+      const base64 = await image.readAsBase64String();
+      const dataUrl = await downscaleDataUrl(`data:${image.contentType};base64,${base64}`);
+      // Bos src'li gorsel metne [GÖRSEL: ...] isareti olarak yazilmaz
+      const [kept] = keepInlineImages([dataUrl], `Gorsel ${images.length + imageWarnings.length + 1}`, imageWarnings);
+      if (kept) images.push(kept);
+      return { src: kept ?? '' };
+    }),
+  });
+
+  const warnings = [
+    ...result.messages.filter(message => message.type === 'error').map(message => message.message),
+    ...imageWarnings,
+  ];
+  // Word dosyasinda sayfa bilgisi yok; tum belge tek bolum olarak gelir
+  return { pages: [{ pageNumber: 1, text: docxHtmlToText(result.value), images }], warnings };
+}
+
+/**
+ * Flatten mammoth's HTML into the plain-text deneme format. Word's automatic numbering is lost in the
+ * HTML, so list items get it back: top-level items as "1.", nested items as "A)". Images stay where
+ * they were as [GÖRSEL: ...] markers.
+ */
+function docxHtmlToText(html: string): string {
+  const root = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html').body;
+  const lines: string[] = [];
+
+  const inlineText = (node: Node): string => {
+    if (node.nodeType === Node.TEXT_NODE) return node.textContent ?? '';
+    if (!(node instanceof HTMLElement)) return '';
+    if (node.tagName === 'IMG') {
+      const src = node.getAttribute('src');
+      const alt = node.getAttribute('alt')?.trim();
+      return src ? ` ${formatImageMarker({ url: src, ...(alt ? { alt } : {}) })} ` : '';
+    }
+    if (node.tagName === 'BR') return '\n';
+    if (node.tagName === 'OL' || node.tagName === 'UL') return '';
+    return Array.from(node.childNodes).map(inlineText).join('');
+  };
+
+  const walk = (element: Element, listDepth: number) => {
+    Array.from(element.children).forEach((child) => {
+      const tag = child.tagName;
+      if (tag === 'OL' || tag === 'UL') {
+        Array.from(child.children).forEach((item, itemIndex) => {
+          const marker = tag === 'UL' ? '- ' : listDepth === 0 ? `${itemIndex + 1}. ` : `${String.fromCharCode(65 + itemIndex)}) `;
+          lines.push(`${marker}${inlineText(item).trim()}`);
+          walk(item, listDepth + 1);
+        });
+        lines.push('');
+        return;
+      }
+      if (tag === 'TABLE') {
+        child.querySelectorAll('tr').forEach((row) => {
+          lines.push(Array.from(row.querySelectorAll('td, th')).map(cell => inlineText(cell).trim()).join(' | '));
+        });
+        lines.push('');
+        return;
+      }
+      lines.push(inlineText(child).trim());
+    });
+  };
+
+  walk(root, 0);
+  return lines.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+function downscaleDataUrl(dataUrl: string): Promise<string> {
+  return new Promise((resolve) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = image.naturalWidth;
+      canvas.height = image.naturalHeight;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        resolve(dataUrl);
+        return;
+      }
+      context.drawImage(image, 0, 0);
+      resolve(downscaleCanvas(canvas));
+    };
+    // Tarayicinin cizemedigi bicimler (EMF/WMF) oldugu gibi birakilir
+    image.onerror = () => resolve(dataUrl);
+    image.src = dataUrl;
+  });
+}
+
+/** Images still over MAX_INLINE_IMAGE_LENGTH are dropped; each one adds a warning naming where it came from. */
+function keepInlineImages(dataUrls: string[], label: string, warnings: string[]): string[] {
+  return dataUrls.filter((dataUrl) => {
+    if (dataUrl.length <= MAX_INLINE_IMAGE_LENGTH) return true;
+    warnings.push(`${label}: ${Math.round(dataUrl.length / 1024)} KB gorsel ${Math.round(MAX_INLINE_IMAGE_LENGTH / 1024)} KB sinirini asiyor, alinmadi.`);
+    return false;
+  });
+}
+
+/** Long side capped at MAX_IMAGE_SIDE and re-encoded as JPEG on white, to keep question documents small. */
+function downscaleCanvas(source: HTMLCanvasElement): string {
+  const scale = Math.min(1, MAX_IMAGE_SIDE / Math.max(source.width, source.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(source.width * scale);
+  canvas.height = Math.round(source.height * scale);
+  const context = canvas.getContext('2d');
+  if (!context) return source.toDataURL('image/png');
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+  const dataUrl = canvas.toDataURL('image/jpeg', 0.85);
+  return dataUrl.length > MAX_INLINE_IMAGE_LENGTH ? canvas.toDataURL('image/jpeg', 0.6) : dataUrl;
+}
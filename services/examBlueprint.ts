@@ -0,0 +1,82 @@
+import { foldLookupKey } from './questionParser';
+
+/** One section of an exam paper: questions are drawn from the categories whose names match `categoryNames`. */
+export interface ExamSection {
+  id: string;
+  name: string;
+  categoryNames: string[];
+  questionCount: number;
+}
+
+export interface ExamBlueprint {
+  id: string;
+  name: string;
+  durationMinutes: number;
+  sections: ExamSection[];
+}
+
+/** Section boundaries inside a built paper; sections are consecutive and in blueprint order. */
+export type ExamSectionRange = { id: string; name: string; startIndex: number; questionCount: number };
+
+export const MAX_EXAM_SECTION_QUESTION_COUNT = 60;
+export const MAX_EXAM_DURATION_MINUTES = 300;
+
+/** ÖSYM KPSS Genel Yetenek - Genel Kültür oturumu: 120 soru, 130 dakika. */
+export const KPSS_GY_GK_BLUEPRINT: ExamBlueprint = {
+  id: 'kpss_gy_gk',
+  name: 'KPSS GY-GK Deneme Sınavı',
+  durationMinutes: 130,
+  sections: [
+    { id: 'turkce', name: 'Türkçe', categoryNames: ['Türkçe'], questionCount: 30 },
+    { id: 'matematik', name: 'Matematik', categoryNames: ['Matematik', 'Geometri'], questionCount: 30 },
+    { id: 'tarih', name: 'Tarih', categoryNames: ['Tarih'], questionCount: 27 },
+    { id: 'cografya', name: 'Coğrafya', categoryNames: ['Coğrafya'], questionCount: 18 },
+    { id: 'vatandaslik', name: 'Vatandaşlık', categoryNames: ['Vatandaşlık'], questionCount: 9 },
+    { id: 'guncel', name: 'Güncel Bilgiler', categoryNames: ['Güncel Bilgiler', 'Genel Kültür'], questionCount: 6 },
+  ],
+};
+
+export function getExamQuestionCount(blueprint: ExamBlueprint): number {
+  return blueprint.sections.reduce((sum, section) => sum + section.questionCount, 0);
+}
+
+/** Id of the first section that takes questions from the category, or null when the category isn't part of the exam. */
+export function findExamSectionId(blueprint: ExamBlueprint, categoryName: string): string | null {
+  const key = foldLookupKey(categoryName);
+  const section = blueprint.sections.find(item => item.categoryNames.some(name => foldLookupKey(name) === key));
+  return section?.id ?? null;
+}
+
+/** The section containing the question at `questionIndex`. */
+export function findExamSectionRange(sections: ExamSectionRange[], questionIndex: number): ExamSectionRange | null {
+  return sections.find(section => questionIndex >= section.startIndex && questionIndex < section.startIndex + section.questionCount) ?? null;
+}
+
+/**
+ * Saved blueprint overrides (section question counts, duration) applied on top of `base`; sections the base
+ * doesn't have are ignored so a stored copy can't drift from the official section list.
+ */
+export function applyExamBlueprintOverrides(base: ExamBlueprint, value: unknown): ExamBlueprint {
+  if (!value || typeof value !== 'object') return base;
+  const raw = value as Record<string, unknown>;
+  const counts = raw.sectionCounts && typeof raw.sectionCounts === 'object' ? raw.sectionCounts as Record<string, unknown> : {};
+  const durationMinutes = Math.floor(Number(raw.durationMinutes));
+  return {
+    ...base,
+    durationMinutes: durationMinutes > 0 ? Math.min(durationMinutes, MAX_EXAM_DURATION_MINUTES) : base.durationMinutes,
+    sections: base.sections.map((section) => {
+      const count = Math.floor(Number(counts[section.id]));
+      return Number.isFinite(count) && count >= 0
+        ? { ...section, questionCount: Math.min(count, MAX_EXAM_SECTION_QUESTION_COUNT) }
+        : section;
+    }),
+  };
+}
+
+/** The part of a blueprint that differs per user; read back through `applyExamBlueprintOverrides`. */
+export function getExamBlueprintOverrides(blueprint: ExamBlueprint): { durationMinutes: number; sectionCounts: Record<string, number> } {
+  return {
+    durationMinutes: blueprint.durationMinutes,
+    sectionCounts: Object.fromEntries(blueprint.sections.map(section => [section.id, section.questionCount])),
+  };
+}
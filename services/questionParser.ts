@@ -1,15 +1,149 @@
-import { Question } from '../types';
+import { Question, QuestionBase, QuestionImage, QuestionPassage, QuestionTable, QuestionType, QuizAnswer } from '../types';
 
 type StructuredQuestion = Record<string, unknown>;
-type InputFormat = 'text' | 'json';
-type StructuredParseReport = { used: boolean; questions: Question[]; errors: string[] };
+type InputFormat = 'text' | 'json' | 'csv';
+type StructuredParseReport = {
+  used: boolean;
+  questions: Question[];
+  errors: string[];
+  repairs?: JsonRepair[];
+  syntaxError?: JsonSyntaxError | null;
+};
 type StructuredConvertResult = { question: Question | null; errors: string[] };
-type JsonParseResult = { parsed: unknown | null; repaired: boolean };
+type JsonCandidate = { text: string; offset: number };
+/** Offsets here are relative to the candidate text; they are shifted to the pasted text by the caller. */
+type JsonRepairDraft = Omit<JsonRepair, 'line' | 'column' | 'context'>;
+type JsonParseResult = { parsed: unknown | null; repairs: JsonRepairDraft[]; error: { message: string; offset?: number } | null };
+type JsonRepairResult = { text: string; repairs: JsonRepairDraft[] };
+type PlainTextParseReport = { questions: Question[]; errors: string[]; diagnostics: BulkParseDiagnostic[] };
+type QuestionBlock = { text: string; lineStart: number; lineEnd: number };
+type ParsedOptions = { options: string[]; markedIndex: number };
+type InlineSolution = { optionsText: string; answer: string; explanation: string };
+type AnswerSource = { label: string; letter: string };
+type PassageGroup = { passage: QuestionPassage; startNumber: number; endNumber: number; lineStart: number; lineEnd: number };
+type PassageExtraction = { groups: PassageGroup[]; remainingText: string };
+type ImageExtraction = { text: string; images: QuestionImage[] };
+type TableExtraction = { text: string; tables: QuestionTable[] };
+type QuestionImageFields = Pick<Question, 'imageUrl' | 'images' | 'optionImages'>;
+type StructuredField =
+  | 'questionText'
+  | 'contextText'
+  | 'contentItems'
+  | 'options'
+  | 'correctOptionIndex'
+  | 'answer'
+  | 'explanation'
+  | 'sourceTag'
+  | 'imageUrl'
+  | 'images'
+  | 'optionImages'
+  | 'questionId'
+  | 'passageId'
+  | 'passageText'
+  | 'lockOptionOrder'
+  | 'optionExplanations'
+  | 'questionType'
+  | 'pairs'
+  | 'correctOrder'
+  | 'tables';
+/** Column key per header cell: a structured field, an option letter column (index), or null when unknown. */
+type DelimitedColumn = { field: StructuredField } | { optionIndex: number } | null;
+type AnswerKeyPair = [number, string];
+type AnswerKeyExtraction = { answers: Map<number, string>; remainingText: string };
+
+export type BulkParseDiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export type BulkParseDiagnostic = {
+  severity: BulkParseDiagnosticSeverity;
+  message: string;
+  questionNumber?: number;
+  /** Index into `BulkParseReport.questions`; absent when the entry is not tied to a parsed question. */
+  questionIndex?: number;
+  /** 1-based, inclusive line range in the pasted text. */
+  lineStart?: number;
+  lineEnd?: number;
+};
+
+export type JsonRepairKind = 'smart-quote' | 'newline' | 'inner-quote';
+
+/** One character the lenient JSON reader rewrote before parsing. */
+export type JsonRepair = {
+  kind: JsonRepairKind;
+  /** 0-based offset in the pasted text (line endings normalised to \n). */
+  offset: number;
+  line: number;
+  column: number;
+  before: string;
+  after: string;
+  /** Original text around the repair, on one line. */
+  context: string;
+};
+
+export type JsonSyntaxError = {
+  message: string;
+  offset?: number;
+  line?: number;
+  column?: number;
+  /** The offending line, so the UI can point at `column`. */
+  lineText?: string;
+};
+
+export type TextNormalizationStep = 'unicode' | 'romanNumerals' | 'twoColumn' | 'hyphenation';
+export type TextNormalizationSettings = Record<TextNormalizationStep, boolean>;
+
+export type TextNormalizationChange = {
+  step: TextNormalizationStep;
+  /** 1-based line in the text entering this step (same as the pasted text unless an earlier step merged lines). */
+  line: number;
+  before: string;
+  after: string;
+};
+
+export type TextNormalizationResult = { text: string; changes: TextNormalizationChange[] };
+
+export type BulkParseOptions = {
+  /** Refuse automatic JSON repairs and report the exact syntax error location instead. */
+  strictJson?: boolean;
+  /** Clean-up applied to plain text before block splitting; defaults to `DEFAULT_TEXT_NORMALIZATION`. */
+  normalization?: Partial<TextNormalizationSettings>;
+  /** Called after each question record or text block; large imports run in a worker and forward this. */
+  onProgress?: (progress: BulkParseProgress) => void;
+};
+
+export type BulkParseProgress = { format: InputFormat; done: number; total: number };
 
 export type BulkParseReport = {
   questions: Question[];
   errors: string[];
+  diagnostics: BulkParseDiagnostic[];
   inputFormat: InputFormat;
+  jsonRepairs: JsonRepair[];
+  jsonSyntaxError: JsonSyntaxError | null;
+  /** Plain-text clean-up; diagnostics line numbers refer to `textNormalization.text`. Null for JSON/CSV. */
+  textNormalization: TextNormalizationResult | null;
+};
+
+/** Two-column repair guesses from spacing, so it is opt-in. */
+export const DEFAULT_TEXT_NORMALIZATION: TextNormalizationSettings = {
+  unicode: true,
+  romanNumerals: true,
+  twoColumn: false,
+  hyphenation: true,
+};
+
+/** All steps off; used where the text was written by `serializeQuestionsToText` and must parse back as is. */
+export const NO_TEXT_NORMALIZATION: TextNormalizationSettings = {
+  unicode: false,
+  romanNumerals: false,
+  twoColumn: false,
+  hyphenation: false,
+};
+
+export const TEXT_NORMALIZATION_STEP_LABELS: Record<TextNormalizationStep, string> = {
+  unicode: 'Bitisik harf, yumusak tire ve bosluk karakterleri',
+  romanNumerals: 'Roma rakamlarinda l / I karisikligi',
+  twoColumn: 'Iki sutunlu sayfa duzeni',
+  hyphenation: 'Satir sonunda tireyle bolunen kelimeler',
 };
 
 const ROMAN_VALUES: Record<string, number> = {
@@ -26,120 +160,988 @@ const ROMAN_VALUES: Record<string, number> = {
 };
 
 const ROMAN_PATTERN = '(?:I|II|III|IV|V|VI|VII|VIII|IX|X)';
+const LIGATURES: Record<string, string> = { 'ﬀ': 'ff', 'ﬁ': 'fi', 'ﬂ': 'fl', 'ﬃ': 'ffi', 'ﬄ': 'ffl', 'ﬅ': 'st', 'ﬆ': 'st' };
+// OCR'da "I", "II", "VI" kucuk L ile okunur. Yalnizca satir basindaki "ll." / "l)" isaretleri ve "B) l ve ll"
+// gibi Roma rakami seceneklerindeki l'ler duzeltilir; "20 l su", "x = l" gibi metinlere dokunulmaz
+const OCR_ROMAN_TOKEN_REGEX = /(?<![\p{L}\p{N}])[IVXl]*l[IVXl]*(?=[.,)\s]|$)/gu;
+const OCR_ROMAN_MARKER_REGEX = /^(\s*)([IVXl]*l[IVXl]*)(?=[.)](?:\s|$))/u;
+const OCR_ROMAN_OPTION_LINE_REGEX = /^(\s*\*?[A-Ea-e]\)\s*)(.+)$/;
+const COLUMN_GAP_REGEX = /\S( {3,}|\t+)(?=\S)/g;
 const SOLUTION_TOKEN = '[ÇC][OÖ]Z[ÜU]M';
+// Cozum icinde "ŞIK AÇIKLAMALARI:" satirindan sonraki "B) ..." satirlari secenek aciklamalaridir
+const OPTION_EXPLANATIONS_HEADER = 'ŞIK AÇIKLAMALARI:';
+const OPTION_EXPLANATIONS_HEADER_REGEX = /^\s*[ŞS][Iİ]K\s+A[ÇC][Iİ]KLAMALARI\s*:\s*$/im;
+// Disa aktarilan metinde her sorunun kaydi "[ID: ...]" satiriyla belirtilir; duzenleme kaydi bu kimlikle eslesir
+const QUESTION_ID_LINE_REGEX = /^[ \t]*\[ID:\s*([^\]\n]+?)\s*\][ \t]*$/im;
+// "[SIRA SABİT: evet]" satiri lockOptionOrder'i yazar; satir yoksa siralama otomatik algilanir
+const LOCK_OPTION_ORDER_LINE_REGEX = /^[ \t]*\[S[İI]RA\s+SAB[İI]T:\s*([^\]\n]+?)\s*\][ \t]*$/im;
+const OPTION_LETTERS = 'ABCDE';
+const ANSWER_KEY_HEADER_REGEX = /^\s*(?:CEVAP\s*ANAHTARI|CEVAPLAR)\s*:?\s*$/i;
+const ANSWER_KEY_PAIR_REGEX = /(\d{1,3})\s*[-.):]?\s*([A-Ea-e])(?![A-Za-zÇĞİÖŞÜçğıöşü0-9])/g;
+const ANSWER_KEY_NUMBER_ROW_REGEX = /^\s*\d{1,3}(?:[\s|]+\d{1,3})+\s*$/;
+const ANSWER_KEY_LETTER_ROW_REGEX = /^\s*[A-Ea-e](?:[\s|]+[A-Ea-e])+\s*$/;
+const CSV_OPTION_COLUMN_REGEX = /^(?:option|secenek|sik)?([a-e])(?:sikki|secenegi)?$/;
+const CSV_EXPORT_HEADER = ['questionId', 'contextText', 'contentItems', 'questionText', 'A', 'B', 'C', 'D', 'E', 'answer', 'explanation', 'sourceTag', 'imageUrl', 'images', 'passageId', 'passageText', 'lockOptionOrder', 'optionExplanations', 'questionType', 'pairs', 'tables'];
+
+// JSON anahtarlari ve CSV basliklari ayni takma adlari kullanir
+const STRUCTURED_FIELD_ALIASES: Record<StructuredField, string[]> = {
+  questionText: ['questionText', 'questionRoot', 'soruKoku', 'soruKökü', 'soru'],
+  contextText: ['contextText', 'ustMetin', 'üstMetin', 'girisMetni', 'girişMetni'],
+  contentItems: ['contentItems', 'items', 'onculler', 'öncüller', 'onculListesi'],
+  options: ['options', 'siklar', 'şıklar', 'secenekler', 'seçenekler'],
+  correctOptionIndex: ['correctOptionIndex', 'correctIndex', 'dogruSecenekIndex', 'doğruSeçenekIndex'],
+  answer: ['answer', 'correctAnswer', 'dogruCevap', 'doğruCevap', 'cevap'],
+  explanation: ['explanation', 'cozum', 'çözüm', 'aciklama', 'açıklama'],
+  sourceTag: ['sourceTag', 'kaynak', 'kaynakEtiketi'],
+  imageUrl: ['imageUrl', 'gorselUrl', 'görselUrl'],
+  images: ['images', 'gorseller', 'görseller'],
+  optionImages: ['optionImages', 'secenekGorselleri', 'seçenekGörselleri'],
+  questionId: ['questionId', 'id'],
+  passageId: ['passageId', 'paragrafId', 'metinId'],
+  passageText: ['passageText', 'passage', 'paragraf', 'ortakMetin'],
+  lockOptionOrder: ['lockOptionOrder', 'siraSabit', 'sikSirasiSabit', 'şıkSırasıSabit'],
+  optionExplanations: ['optionExplanations', 'secenekAciklamalari', 'seçenekAçıklamaları', 'sikAciklamalari', 'şıkAçıklamaları'],
+  questionType: ['questionType', 'type', 'soruTipi', 'tip'],
+  pairs: ['pairs', 'eslestirmeler', 'eşleştirmeler', 'eslestirme', 'eşleştirme'],
+  correctOrder: ['correctOrder', 'dogruSira', 'doğruSıra', 'dogruSiralama', 'doğruSıralama'],
+  tables: ['tables', 'table', 'tablolar', 'tablo'],
+};
+
+// soruTipi degerleri katlanmis (foldLookupKey) haliyle eslesir
+const QUESTION_TYPE_ALIASES: Record<QuestionType, string[]> = {
+  multipleChoice: ['multiplechoice', 'coktansecmeli', 'test'],
+  trueFalse: ['truefalse', 'dogruyanlis', 'dy', 'tf'],
+  matching: ['matching', 'eslestirme'],
+  ordering: ['ordering', 'siralama'],
+};
+const TRUE_ANSWER_TEXTS = ['dogru', 'd', 'true', 'evet', 'a'];
+const FALSE_ANSWER_TEXTS = ['yanlis', 'y', 'false', 'hayir', 'b'];
+const MATCHING_PAIR_SEPARATOR_REGEX = /\s*(?:=|→|->|\|)\s*/;
+
+const PASSAGE_HEADER_REGEX = /^\s*(\d{1,3})(?:\s*\.?\s*(?:[-–—]|ve)\s*(\d{1,3}))?\s*\.?\s*(?:soruyu|sorular[ıi])\s+.*?g[öo]re\s+cevaplay[ıi]n[ıi]z\s*\.?\s*$/i;
+const INLINE_ANSWER_REGEX = /(?:^|\s)(?:DO[ĞG]RU\s+)?CEVAP\s*[:=]\s*\(?([A-E])\)?(?![A-Za-zÇĞİÖŞÜçğıöşü])/i;
+const INLINE_SOLUTION_REGEX = new RegExp(`(?:^|\\s)(?:${SOLUTION_TOKEN}|A[CÇ]IKLAMA)\\s*:\\s*`, 'i');
+// [GÖRSEL: url] / [GÖRSEL: url | alt metin] veya markdown ![alt](url)
+const OPTION_LETTER_PREFIX_REGEX = /^\(?[A-Ea-e]\s*[).]\s+/;
+const OPTION_EXPLANATION_LINE_REGEX = /^\s*\(?([A-Ea-e])\s*[).:-]\s*/;
+const ROMAN_COMBINATION_OPTION_REGEX = new RegExp(`^(?:Yaln[ıi]z\\s+)?${ROMAN_PATTERN}(?:(?:\\s*,\\s*${ROMAN_PATTERN})*\\s+ve\\s+${ROMAN_PATTERN})?\\.?$`, 'i');
+const LEADING_NUMBER_REGEX = /^%?\s*([-+]?\d+(?:[.,]\d+)?)/;
+const ALL_NONE_OPTION_REGEX = /^(?:yukar[ıi]dakilerin\s+)?(?:hepsi|hi[çc]biri|t[üu]m[üu])(?=[\s.!]|$)/i;
+// Markdown tablo satiri ("| a | b |" veya "a | b") ve baslik alti ayirici ("|---|:--:|")
+const TABLE_SEPARATOR_ROW_REGEX = /^\s*\|?\s*:?-{2,}:?\s*(?:\|\s*:?-{2,}:?\s*)*\|?\s*$/;
+const TABLE_CAPTION_REGEX = /^\s*Tablo\s*\d*\s*[:.-]\s*([^|]{1,120})$/i;
+const IMAGE_MARKER_START_REGEX = /\[\s*G[ÖOöo]RSEL\s*:|!\[/i;
+const IMAGE_MARKER_REGEX = /\[\s*G[ÖOöo]RSEL\s*:\s*([^\]|\s]+)\s*(?:\|\s*([^\]]*?)\s*)?\]|!\[([^\]]*)\]\(\s*([^)\s]+)\s*\)/gi;
+
+/** Sorular 4 (A-D) veya 5 (A-E) secenekli olabilir. */
+export const MIN_OPTION_COUNT = 4;
+export const MAX_OPTION_COUNT = OPTION_LETTERS.length;
+/** `correctOptionIndex` of a question whose answer could not be read; such questions stay out of quizzes. */
+export const UNKNOWN_ANSWER_INDEX = -1;
+
+export function getOptionLetter(index: number): string {
+  return OPTION_LETTERS[index] ?? String.fromCharCode(65 + index);
+}
+
+export function getOptionLetters(count: number): string[] {
+  return Array.from({ length: Math.max(0, count) }, (_, index) => getOptionLetter(index));
+}
+
+/** Index of an answer letter within the first `optionCount` options, or -1. */
+export function getOptionLetterIndex(letter: string, optionCount: number = MAX_OPTION_COUNT): number {
+  const normalized = letter.trim().toUpperCase();
+  const index = normalized.length === 1 ? OPTION_LETTERS.indexOf(normalized) : -1;
+  return index >= 0 && index < optionCount ? index : -1;
+}
+
+export function isSupportedOptionCount(count: number): boolean {
+  return count >= MIN_OPTION_COUNT && count <= MAX_OPTION_COUNT;
+}
+
+export function hasKnownAnswer(question: Question): boolean {
+  const optionCount = question.options?.length ?? 0;
+  if (question.type === 'matching') {
+    return question.matchPrompts?.length === optionCount && isIndexPermutation(question.correctMatches, optionCount);
+  }
+  if (question.type === 'ordering') return isIndexPermutation(question.correctOrder, optionCount);
+  const index = question.correctOptionIndex;
+  return Number.isInteger(index) && index >= 0 && index < optionCount;
+}
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  multipleChoice: 'Çoktan seçmeli',
+  trueFalse: 'Doğru / Yanlış',
+  matching: 'Eşleştirme',
+  ordering: 'Sıralama',
+};
+
+export const TRUE_FALSE_OPTIONS = ['Doğru', 'Yanlış'];
+
+/** Questions saved before question types existed have no `type` and are multiple choice. */
+export function getQuestionType(question: Pick<Question, 'type'>): QuestionType {
+  return question.type ?? 'multipleChoice';
+}
+
+/** Matching and ordering answers count only once every slot is filled; a partial one is graded as blank. */
+export function isQuestionAnswered(question: Question, answer: QuizAnswer | undefined): boolean {
+  if (answer === null || answer === undefined) return false;
+  if (question.type === 'matching') {
+    return Array.isArray(answer) && answer.length === question.matchPrompts.length && answer.every(optionIndex => optionIndex >= 0);
+  }
+  if (question.type === 'ordering') return Array.isArray(answer) && answer.length === question.options.length;
+  return typeof answer === 'number';
+}
+
+export function isAnswerCorrect(question: Question, answer: QuizAnswer | undefined): boolean {
+  if (!isQuestionAnswered(question, answer)) return false;
+  if (question.type === 'matching') {
+    return (answer as number[]).every((optionIndex, promptIndex) => optionIndex === question.correctMatches[promptIndex]);
+  }
+  if (question.type === 'ordering') {
+    return (answer as number[]).every((optionIndex, position) => optionIndex === question.correctOrder[position]);
+  }
+  return answer === question.correctOptionIndex;
+}
+
+/** One-line answer for result lists: "C) metin", "Doğru", "1-C, 2-A, 3-B" or "B, A, D, C". */
+export function formatQuizAnswer(question: Question, answer: QuizAnswer | undefined): string {
+  if (answer === null || answer === undefined) return '';
+  if (question.type === 'matching' && Array.isArray(answer)) {
+    return answer.map((optionIndex, promptIndex) => `${promptIndex + 1}-${optionIndex >= 0 ? getOptionLetter(optionIndex) : '?'}`).join(', ');
+  }
+  if (question.type === 'ordering' && Array.isArray(answer)) return answer.map(getOptionLetter).join(', ');
+  if (typeof answer !== 'number') return '';
+  if (question.type === 'trueFalse') return question.options[answer] ?? '';
+  return `${getOptionLetter(answer)}) ${question.options[answer] ?? ''}`;
+}
+
+/** The answer key in the same shape as a quiz answer. */
+export function getCorrectQuizAnswer(question: Question): QuizAnswer {
+  if (question.type === 'matching') return question.correctMatches;
+  if (question.type === 'ordering') return question.correctOrder;
+  return question.correctOptionIndex;
+}
+
+function isIndexPermutation(value: unknown, length: number): boolean {
+  if (!Array.isArray(value) || value.length !== length) return false;
+  return value.every(index => Number.isInteger(index) && index >= 0 && index < length) && new Set(value).size === length;
+}
+
+/**
+ * Option sets whose order carries meaning: Roman-numeral combinations ("Yalnız I", "I ve II"),
+ * numbers in ascending or descending order, and sets with a "Hepsi" / "Hiçbiri" option.
+ */
+export function hasOrderedOptionSet(options: string[]): boolean {
+  const texts = options.map(option => option.trim().replace(OPTION_LETTER_PREFIX_REGEX, '').trim());
+  if (texts.length < 2 || texts.some(text => !text)) return false;
+  if (texts.every(text => ROMAN_COMBINATION_OPTION_REGEX.test(text))) return true;
+  if (texts.some(text => ALL_NONE_OPTION_REGEX.test(text.toLocaleLowerCase('tr')))) return true;
+
+  const numbers = texts.map(text => text.match(LEADING_NUMBER_REGEX)?.[1]);
+  if (numbers.some(value => value === undefined)) return false;
+  const values = numbers.map(value => parseFloat(value!.replace(',', '.')));
+  const ascending = values.every((value, index) => index === 0 || value > values[index - 1]);
+  const descending = values.every((value, index) => index === 0 || value < values[index - 1]);
+  return ascending || descending;
+}
+
+/** An explicit `lockOptionOrder` wins; otherwise ordered option sets are detected from the text. */
+export function shouldLockOptionOrder(question: Pick<Question, 'options' | 'lockOptionOrder'>): boolean {
+  if (typeof question.lockOptionOrder === 'boolean') return question.lockOptionOrder;
+  return hasOrderedOptionSet(question.options ?? []);
+}
+
+/**
+ * Per-option explanations parallel to the options ('' where none is written). Accepts a list, an object
+ * keyed by option letter ({ "B": "..." }) or "B) ..." lines; undefined when nothing is written.
+ */
+export function parseOptionExplanations(value: unknown, optionCount: number): string[] | undefined {
+  const explanations = Array.from({ length: optionCount }, () => '');
+  if (Array.isArray(value)) {
+    value.slice(0, optionCount).forEach((entry, index) => {
+      explanations[index] = asNonEmptyString(entry) || '';
+    });
+  } else if (isRecord(value)) {
+    Object.entries(value).forEach(([letter, entry]) => {
+      const index = getOptionLetterIndex(letter.trim(), optionCount);
+      if (index >= 0) explanations[index] = asNonEmptyString(entry) || '';
+    });
+  } else if (typeof value === 'string') {
+    let currentIndex = -1;
+    value.split('\n').forEach((line) => {
+      const match = line.match(OPTION_EXPLANATION_LINE_REGEX);
+      if (match) currentIndex = getOptionLetterIndex(match[1], optionCount);
+      const text = (match ? line.slice(match[0].length) : line).trim();
+      if (currentIndex < 0 || !text) return;
+      explanations[currentIndex] = explanations[currentIndex] ? `${explanations[currentIndex]} ${text}` : text;
+    });
+  }
+  return explanations.some(Boolean) ? explanations : undefined;
+}
+
+/** "B) ..." lines for the options that have an explanation; parses back through `parseOptionExplanations`. */
+export function formatOptionExplanationLines(explanations: string[] | undefined): string {
+  return (explanations ?? [])
+    .map((explanation, index) => (explanation?.trim() ? `${getOptionLetter(index)}) ${explanation.trim()}` : ''))
+    .filter(Boolean)
+    .join('\n');
+}
+
+/** "A-D" for four options, "A-E" for five. */
+export function formatOptionRange(count: number): string {
+  return count > 0 ? `A-${getOptionLetter(count - 1)}` : 'A';
+}
+
+/**
+ * Remove image markers from `text` and return them in order. Lines holding only markers are dropped;
+ * other lines keep their text with the marker cut out.
+ */
+export function extractImageMarkers(text: string): ImageExtraction {
+  const images: QuestionImage[] = [];
+  const lines = text.split('\n').flatMap((line) => {
+    const stripped = line.replace(IMAGE_MARKER_REGEX, (_match, markerUrl?: string, markerAlt?: string, markdownAlt?: string, markdownUrl?: string) => {
+      const alt = (markerAlt ?? markdownAlt ?? '').trim();
+      images.push({ url: (markerUrl ?? markdownUrl ?? '').trim(), ...(alt ? { alt } : {}) });
+      return ' ';
+    });
+    if (stripped === line) return [line];
+    const cleaned = stripped.replace(/[ \t]{2,}/g, ' ').trim();
+    return cleaned ? [cleaned] : [];
+  });
+  return { text: images.length > 0 ? lines.join('\n') : text, images };
+}
+
+/**
+ * Lift markdown pipe tables (two or more consecutive "a | b" rows, optionally under a "|---|---|" line) out of
+ * `text`. A "Tablo: ..." line right above a table becomes its caption. Each table leaves a blank line behind so
+ * the text around it stays in separate paragraphs.
+ */
+export function extractTableBlocks(text: string): TableExtraction {
+  const lines = text.split('\n');
+  const tables: QuestionTable[] = [];
+  const output: string[] = [];
+  let index = 0;
+  while (index < lines.length) {
+    const rows: string[][] = [];
+    let end = index;
+    let hasSeparator = false;
+    while (end < lines.length) {
+      if (rows.length > 0 && TABLE_SEPARATOR_ROW_REGEX.test(lines[end])) {
+        hasSeparator = true;
+        end++;
+        continue;
+      }
+      const cells = splitTableRow(lines[end]);
+      if (!cells) break;
+      rows.push(cells);
+      end++;
+    }
+    if (rows.length < 2) {
+      output.push(lines[index]);
+      index++;
+      continue;
+    }
+
+    const captionMatch = output.length > 0 ? output[output.length - 1].match(TABLE_CAPTION_REGEX) : null;
+    if (captionMatch) output.pop();
+    const columnCount = Math.max(...rows.map(row => row.length));
+    const [headers, ...bodyRows] = rows.map(row => [...row, ...Array<string>(columnCount - row.length).fill('')]);
+    tables.push({ headers, rows: bodyRows, ...(captionMatch ? { caption: captionMatch[1].trim() } : {}) });
+    output.push('');
+    index = end;
+  }
+  return { text: tables.length > 0 ? output.join('\n').replace(/\n{3,}/g, '\n\n').trim() : text, tables };
+}
+
+/** Markdown pipe table with an optional "Tablo: ..." caption line; parses back through `extractTableBlocks`. */
+export function formatTableMarkdown(table: QuestionTable): string {
+  const formatRow = (cells: string[]) => `| ${cells.map(cell => cell.replace(/\|/g, '/').replace(/\s*\n\s*/g, ' ')).join(' | ')} |`;
+  const lines = [
+    formatRow(table.headers),
+    `| ${table.headers.map(() => '---').join(' | ')} |`,
+    ...table.rows.map(formatRow),
+  ];
+  return table.caption ? `Tablo: ${table.caption}\n${lines.join('\n')}` : lines.join('\n');
+}
+
+/**
+ * Tables from an import field: { headers, rows, caption } objects (Turkish keys accepted), a grid whose first row
+ * is the header, markdown pipe-table text, or a list of these.
+ */
+export function parseQuestionTables(value: unknown): QuestionTable[] {
+  if (typeof value === 'string') return extractTableBlocks(value).tables;
+  if (Array.isArray(value)) {
+    if (value.length > 0 && value.every(Array.isArray)) {
+      const [headers, ...rows] = value.map(row => (row as unknown[]).map(readTableCell));
+      return buildQuestionTable(headers, rows);
+    }
+    return value.flatMap(parseQuestionTables);
+  }
+  if (!isRecord(value)) return [];
+
+  const readKey = (keys: string[]) => keys.map(key => value[key]).find(entry => entry !== undefined);
+  const rawRows = readKey(['rows', 'satirlar', 'satırlar']);
+  const rawHeaders = readKey(['headers', 'columns', 'basliklar', 'başlıklar', 'sutunlar', 'sütunlar']);
+  const rows = Array.isArray(rawRows) ? rawRows.filter(Array.isArray).map(row => (row as unknown[]).map(readTableCell)) : [];
+  const headers = Array.isArray(rawHeaders) ? rawHeaders.map(readTableCell) : rows.shift() ?? [];
+  const caption = asNonEmptyString(readKey(['caption', 'title', 'baslik', 'başlık']));
+  return buildQuestionTable(headers, rows, caption);
+}
+
+function buildQuestionTable(headers: string[], rows: string[][], caption?: string | null): QuestionTable[] {
+  const columnCount = Math.max(headers.length, ...rows.map(row => row.length));
+  if (columnCount < 1 || rows.length === 0) return [];
+  const pad = (cells: string[]) => [...cells, ...Array<string>(columnCount - cells.length).fill('')];
+  return [{ headers: pad(headers), rows: rows.map(pad), ...(caption ? { caption } : {}) }];
+}
+
+function readTableCell(value: unknown): string {
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+/** Cells of a pipe-table row; null for lines that aren't one (no pipe, a single cell, or an image marker's "| alt"). */
+function splitTableRow(line: string): string[] | null {
+  if (!line.includes('|') || IMAGE_MARKER_START_REGEX.test(line)) return null;
+  const cells = line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim());
+  return cells.length >= 2 ? cells : null;
+}
+
+export function formatImageMarker(image: QuestionImage): string {
+  return image.alt ? `[GÖRSEL: ${image.url} | ${image.alt}]` : `[GÖRSEL: ${image.url}]`;
+}
+
+/** Stem images of a question; a legacy `imageUrl` missing from `images` comes first. */
+export function getQuestionImages(question: Pick<Question, 'imageUrl' | 'images'>): QuestionImage[] {
+  const images = question.images ?? [];
+  if (question.imageUrl && !images.some(image => image.url === question.imageUrl)) {
+    return [{ url: question.imageUrl }, ...images];
+  }
+  return images;
+}
+
+export function formatBulkParseDiagnostic(diagnostic: BulkParseDiagnostic): string {
+  if (diagnostic.lineStart === undefined) return diagnostic.message;
+  const range = diagnostic.lineEnd !== undefined && diagnostic.lineEnd !== diagnostic.lineStart
+    ? `${diagnostic.lineStart}-${diagnostic.lineEnd}`
+    : `${diagnostic.lineStart}`;
+  return `Satir ${range}: ${diagnostic.message}`;
+}
 
 export function parseBulkQuestions(rawText: string): Question[] {
   return parseBulkQuestionsWithReport(rawText).questions;
 }
 
-export function parseBulkQuestionsWithReport(rawText: string): BulkParseReport {
+export function parseBulkQuestionsWithReport(rawText: string, options: BulkParseOptions = {}): BulkParseReport {
   const text = rawText.replace(/\r\n/g, '\n').replace(/\r/g, '\n');
 
-  const structured = parseStructuredQuestionsWithReport(text);
+  const structured = parseStructuredQuestionsWithReport(text, options.strictJson === true, options.onProgress);
   if (structured.used) {
     return {
       questions: structured.questions,
       errors: structured.errors,
+      diagnostics: [],
       inputFormat: 'json',
+      jsonRepairs: structured.repairs ?? [],
+      jsonSyntaxError: structured.syntaxError ?? null,
+      textNormalization: null,
+    };
+  }
+
+  const delimited = parseDelimitedQuestionsWithReport(text, options.onProgress);
+  if (delimited.used) {
+    return {
+      questions: delimited.questions,
+      errors: delimited.errors,
+      diagnostics: [],
+      inputFormat: 'csv',
+      jsonRepairs: [],
+      jsonSyntaxError: null,
+      textNormalization: null,
     };
   }
 
+  const textNormalization = normalizeQuestionText(text, options.normalization);
+  const plain = parsePlainTextQuestions(textNormalization.text, options.onProgress);
   return {
-    questions: parsePlainTextQuestions(text),
-    errors: [],
+    questions: plain.questions,
+    errors: plain.errors,
+    diagnostics: plain.diagnostics,
     inputFormat: 'text',
+    jsonRepairs: [],
+    jsonSyntaxError: null,
+    textNormalization,
+  };
+}
+
+/**
+ * Clean text copied from scanned or two-column PDFs before it reaches block splitting and Roman-numeral
+ * detection. Steps run in a fixed order (unicode, romanNumerals, twoColumn, hyphenation); each changed
+ * line is reported so the admin can review the result before parsing.
+ */
+export function normalizeQuestionText(rawText: string, settings: Partial<TextNormalizationSettings> = {}): TextNormalizationResult {
+  const enabled = { ...DEFAULT_TEXT_NORMALIZATION, ...settings };
+  const changes: TextNormalizationChange[] = [];
+  let lines = rawText.replace(/\r\n/g, '\n').replace(/\r/g, '\n').split('\n');
+
+  const mapLines = (step: TextNormalizationStep, transform: (line: string) => string) => {
+    lines = lines.map((line, index) => {
+      const after = transform(line);
+      if (after !== line) changes.push({ step, line: index + 1, before: line, after });
+      return after;
+    });
+  };
+
+  if (enabled.unicode) mapLines('unicode', normalizeUnicodeArtifacts);
+  if (enabled.romanNumerals) mapLines('romanNumerals', fixOcrRomanNumerals);
+  if (enabled.twoColumn) lines = splitTwoColumnLayout(lines, changes);
+  if (enabled.hyphenation) lines = joinHyphenatedLines(lines, changes);
+
+  return { text: lines.join('\n'), changes };
+}
+
+function normalizeUnicodeArtifacts(line: string): string {
+  return line
+    .normalize('NFC')
+    .replace(/[\uFB00-\uFB06]/g, ligature => LIGATURES[ligature] ?? ligature)
+    // Satir sonundaki yumusak tire kelime bolme isaretidir, digerleri atilir
+    .replace(/\u00AD\s*$/, '-')
+    .replace(/\u00AD/g, '')
+    .replace(/[\u200B-\u200D\u2060\uFEFF]/g, '')
+    .replace(/[\u00A0\u2000-\u200A\u202F\u205F\u3000]/g, ' ')
+    .replace(/[\u2010\u2011\u2012]/g, '-');
+}
+
+function fixOcrRomanNumerals(line: string): string {
+  const toRoman = (token: string) => {
+    const candidate = token.replace(/l/g, 'I');
+    return ROMAN_VALUES[candidate] ? candidate : token;
   };
+  const marker = line.replace(OCR_ROMAN_MARKER_REGEX, (_, indent: string, token: string) => `${indent}${toRoman(token)}`);
+  if (marker !== line) return marker;
+
+  const option = line.match(OCR_ROMAN_OPTION_LINE_REGEX);
+  if (!option) return line;
+  const optionText = option[2].replace(OCR_ROMAN_TOKEN_REGEX, toRoman);
+  return ROMAN_COMBINATION_OPTION_REGEX.test(optionText.trim()) ? `${option[1]}${optionText}` : line;
+}
+
+/**
+ * "kelime-" at the end of a line followed by a lowercase continuation becomes one word.
+ * Capitalised continuations ("e-Devlet", option lines) are left alone.
+ */
+function joinHyphenatedLines(lines: string[], changes: TextNormalizationChange[]): string[] {
+  const result: string[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    let line = lines[i];
+    const startLine = i + 1;
+    const before = [line];
+    while (/\p{L}-\s*$/u.test(line) && i + 1 < lines.length && /^\s*\p{Ll}/u.test(lines[i + 1])) {
+      i++;
+      before.push(lines[i]);
+      line = line.replace(/-\s*$/, '') + lines[i].trimStart();
+    }
+    if (before.length > 1) changes.push({ step: 'hyphenation', line: startLine, before: before.join('\n'), after: line });
+    result.push(line);
+  }
+  return result;
+}
+
+/**
+ * Layout-preserving copies of two-column pages put both columns on one line, separated by a wide gap.
+ * Within each page (split at SAYFA lines and form feeds) the most common gap column is taken as the
+ * column boundary; the left column is emitted first, then the right one. Option rows such as
+ * "A) ...   B) ..." are not treated as columns.
+ */
+function splitTwoColumnLayout(lines: string[], changes: TextNormalizationChange[]): string[] {
+  const result: string[] = [];
+  let pageStart = 0;
+  for (let i = 0; i <= lines.length; i++) {
+    const isPageBreak = i === lines.length || /^\s*SAYFA\s*\d+/i.test(lines[i]) || lines[i].includes('\f');
+    if (!isPageBreak) continue;
+    result.push(...splitTwoColumnPage(lines.slice(pageStart, i), pageStart, changes));
+    if (i < lines.length) result.push(lines[i]);
+    pageStart = i + 1;
+  }
+  return result;
 }
 
-function parsePlainTextQuestions(text: string): Question[] {
+function splitTwoColumnPage(lines: string[], lineOffset: number, changes: TextNormalizationChange[]): string[] {
+  const gapColumns = new Map<number, number>();
+  lines.forEach((line) => {
+    findColumnGaps(line).forEach(column => gapColumns.set(column, (gapColumns.get(column) ?? 0) + 1));
+  });
+  const [boundary, gapLineCount] = Array.from(gapColumns.entries()).sort((a, b) => b[1] - a[1])[0] ?? [0, 0];
+  const contentLineCount = lines.filter(line => line.trim()).length;
+  if (gapLineCount < 3 || gapLineCount < contentLineCount * 0.3) return lines;
+
+  const left: string[] = [];
+  const right: string[] = [];
+  lines.forEach((line) => {
+    const gap = findColumnGaps(line).find(column => Math.abs(column - boundary) <= 3);
+    if (gap !== undefined) {
+      left.push(line.slice(0, gap).trimEnd());
+      right.push(line.slice(gap).trim());
+    } else if (line.length > boundary && !line.slice(0, boundary - 3).trim()) {
+      right.push(line.trim());
+    } else {
+      left.push(line.trimEnd());
+      if (!line.trim()) right.push('');
+    }
+  });
+
+  const reordered = [...left, '', ...right];
+  changes.push({
+    step: 'twoColumn',
+    line: lineOffset + 1,
+    before: lines.join('\n'),
+    after: reordered.join('\n'),
+  });
+  return reordered;
+}
+
+/** Start columns of wide gaps that separate two text columns on this line. */
+function findColumnGaps(line: string): number[] {
+  const columns: number[] = [];
+  let gap: RegExpExecArray | null;
+  COLUMN_GAP_REGEX.lastIndex = 0;
+  while ((gap = COLUMN_GAP_REGEX.exec(line)) !== null) {
+    const column = gap.index + gap[0].length;
+    const leftPart = line.slice(0, column).trim();
+    const rightPart = line.slice(column);
+    const leftOption = leftPart.match(/^\*?([A-E])[).]/);
+    const rightOption = rightPart.match(/^\*?([A-E])[).]/);
+    if (leftOption && rightOption && rightOption[1] > leftOption[1]) continue;
+    columns.push(column);
+  }
+  return columns;
+}
+
+function parsePlainTextQuestions(text: string, onProgress?: BulkParseOptions['onProgress']): PlainTextParseReport {
+  const diagnostics: BulkParseDiagnostic[] = [];
 
   // Remove SAYFA lines
   text = text.replace(/^SAYFA\s*\d+.*$/gm, '');
 
+  // Compact answer keys ("1-A 2-C", "1.B 2.D" grids) are lifted out before block splitting
+  const answerKey = extractAnswerKey(text);
+  text = answerKey.remainingText;
+
+  // "5-7. soruları ... göre cevaplayınız." headers and their passage are lifted out as well
+  const passageExtraction = extractPassageGroups(text);
+  text = passageExtraction.remainingText;
+  const usedPassageIds = new Set<string>();
+
   // --- 1) Split questions section vs solutions section ---
   const solStartRegex = new RegExp(`\\n\\s*1\\.\\s*${SOLUTION_TOKEN}`, 'i');
   const solHeaderRegex = new RegExp(`^.*${SOLUTION_TOKEN}(?:LER)?\\s*$`, 'im');
-  const solRegex = new RegExp(`(\\d+)\\.\\s*${SOLUTION_TOKEN}:\\s*([\\s\\S]*?)CEVAP:\\s*([A-E])`, 'gi');
+  const solRegex = new RegExp(`(\\d+)\\.\\s*${SOLUTION_TOKEN}:\\s*([\\s\\S]*?)CEVAP:\\s*([A-E?])`, 'gi');
 
   const solStartIdx = text.search(solStartRegex);
   // Also check for a "ÇÖZÜMLER" header line
   const solHeaderIdx = text.search(solHeaderRegex);
-  const splitIdx = solStartIdx !== -1 ? solStartIdx : solHeaderIdx !== -1 ? solHeaderIdx : -1;
+  // A header line right above "1. ÇÖZÜM" belongs to the solutions, not to the last question
+  const headerDirectlyBeforeSolutions =
+    solHeaderIdx !== -1 && solStartIdx !== -1 && solHeaderIdx < solStartIdx && !text.substring(solHeaderIdx, solStartIdx).includes('\n');
+  const splitIdx = headerDirectlyBeforeSolutions
+    ? solHeaderIdx
+    : solStartIdx !== -1 ? solStartIdx : solHeaderIdx !== -1 ? solHeaderIdx : -1;
 
   const qSection = splitIdx !== -1 ? text.substring(0, splitIdx) : text;
   const solSection = splitIdx !== -1 ? text.substring(splitIdx) : '';
 
   // --- 2) Parse solutions: number -> { explanation, answer } ---
-  const answers = new Map<number, { explanation: string; answer: string }>();
+  const answers = new Map<number, { explanation: string; optionExplanationText: string; answer: string; line: number }>();
   let sm: RegExpExecArray | null;
   while ((sm = solRegex.exec(solSection)) !== null) {
+    const headerMatch = sm[2].match(OPTION_EXPLANATIONS_HEADER_REGEX);
+    const explanationText = headerMatch ? sm[2].slice(0, headerMatch.index) : sm[2];
     answers.set(parseInt(sm[1]), {
-      explanation: sm[2].replace(/\n/g, ' ').replace(/\s+/g, ' ').trim(),
+      explanation: explanationText.replace(/\n/g, ' ').replace(/\s+/g, ' ').trim(),
+      optionExplanationText: headerMatch ? sm[2].slice(headerMatch.index + headerMatch[0].length) : '',
       answer: sm[3],
+      line: getLineNumberAt(text, splitIdx + sm.index),
     });
   }
 
   // --- 3) Split into question blocks ---
   // Each question starts with a number followed by period and space at line start
-  const blocks = qSection.split(/\n(?=\d+\.\s)/).filter(b => b.trim());
+  const blocks = splitQuestionBlocks(qSection);
+  const expectsExplanations = answers.size > 0 || INLINE_SOLUTION_REGEX.test(qSection);
 
   const results: Question[] = [];
+  const resultLocations: { questionNumber: number; lineStart: number; lineEnd: number }[] = [];
+  const firstLineByNumber = new Map<number, number>();
 
-  for (const block of blocks) {
-    const trimmed = block.trim();
+  for (const [blockIndex, block] of blocks.entries()) {
+    onProgress?.({ format: 'text', done: blockIndex, total: blocks.length });
+    const trimmed = block.text.trim();
+    const location = { lineStart: block.lineStart, lineEnd: block.lineEnd };
 
     // Extract question number
     const numMatch = trimmed.match(/^(\d+)\.\s*/);
-    if (!numMatch) continue;
+    if (!numMatch) {
+      diagnostics.push({ severity: 'info', message: 'Soru numarasi ile baslamayan metin atlandi.', ...location });
+      continue;
+    }
     const qNum = parseInt(numMatch[1]);
     let body = trimmed.substring(numMatch[0].length);
+    const idMatch = body.match(QUESTION_ID_LINE_REGEX);
+    if (idMatch) body = `${body.slice(0, idMatch.index)}${body.slice(idMatch.index + idMatch[0].length)}`.trim();
+    const lockMatch = body.match(LOCK_OPTION_ORDER_LINE_REGEX);
+    if (lockMatch) body = `${body.slice(0, lockMatch.index)}${body.slice(lockMatch.index + lockMatch[0].length)}`.trim();
+    const lockOptionOrder = lockMatch ? readBooleanFlag(lockMatch[1]) : undefined;
+
+    const firstLine = firstLineByNumber.get(qNum);
+    const duplicateDiagnostic: BulkParseDiagnostic | null = firstLine !== undefined
+      ? { severity: 'error', message: `Soru ${qNum}: soru numarasi tekrar ediyor (ilk kullanim satir ${firstLine}).`, questionNumber: qNum, ...location }
+      : null;
+    if (firstLine === undefined) firstLineByNumber.set(qNum, block.lineStart);
 
     // --- 4) Separate question body from options ---
     // Options start at first "A)" - could be on its own line or inline
-    const optIdx = body.search(/(?:^|\n)\s*A\)/m);
+    const optIdx = body.search(/(?:^|\n)\s*\*?A\)/m);
     let questionBody = optIdx !== -1 ? body.substring(0, optIdx).trim() : body.trim();
-    const optionsRaw = optIdx !== -1 ? body.substring(optIdx).trim() : '';
+    // "Cevap: C" / "Çözüm: ..." lines under the options belong to this question only
+    const inline = splitInlineSolution(optIdx !== -1 ? body.substring(optIdx).trim() : '');
 
-    // --- 5) Parse options ---
-    const options = parseOptions(optionsRaw);
+    // --- 5) Parse options, lifting [GÖRSEL: ...] markers out of stem and options ---
+    const parsedOptions = parseOptions(inline.optionsText);
+    const markedIndex = parsedOptions.markedIndex;
+    const stemImages = extractImageMarkers(questionBody);
+    const optionParts = parsedOptions.options.map(extractImageMarkers);
+    const options = optionParts.map(part => part.text);
 
-    // --- 6) Extract Roman numeral items (contentItems), contextText and questionText ---
-    const { contentItems, contextText, questionText } = extractRomanItems(questionBody);
+    // --- 6) Lift pipe tables, then extract Roman numeral items (contentItems), contextText and questionText ---
+    const { text: stemText, tables } = extractTableBlocks(stemImages.text);
+    const { contentItems, contextText, questionText } = extractRomanItems(stemText);
 
-    // --- 7) Get solution ---
+    // --- 7) Get solution (closest source wins: inline > *marked option > ÇÖZÜM section > answer key) ---
     const sol = answers.get(qNum);
-    const correctIndex = sol ? 'ABCDE'.indexOf(sol.answer) : -1;
+    const keyAnswer = answerKey.answers.get(qNum);
+    const answerSources: AnswerSource[] = [];
+    if (inline.answer) answerSources.push({ label: 'satir ici cevap', letter: inline.answer });
+    if (markedIndex >= 0) answerSources.push({ label: 'isaretli secenek', letter: OPTION_LETTERS[markedIndex] });
+    if (sol && sol.answer !== '?') answerSources.push({ label: 'cozum', letter: sol.answer.toUpperCase() });
+    if (keyAnswer) answerSources.push({ label: 'cevap anahtari', letter: keyAnswer });
+    const answerLetter = answerSources[0]?.letter ?? '';
+    const explanation = inline.explanation || sol?.explanation || '';
+    const optionExplanations = sol?.optionExplanationText ? parseOptionExplanations(sol.optionExplanationText, options.length) : undefined;
+    const letterIndex = answerLetter ? OPTION_LETTERS.indexOf(answerLetter) : -1;
+    const correctIndex = getOptionLetterIndex(answerLetter, options.length);
+
+    if (options.length < 2) {
+      diagnostics.push({ severity: 'error', message: `Soru ${qNum}: en az 2 secenek bulunamadi, soru atlandi.`, questionNumber: qNum, ...location });
+      continue;
+    }
 
-    if (options.length < 2) continue; // Skip invalid questions
+    const questionIndex = results.length;
+    const questionDiagnostic = (severity: BulkParseDiagnosticSeverity, message: string) => {
+      diagnostics.push({ severity, message: `Soru ${qNum}: ${message}`, questionNumber: qNum, questionIndex, ...location });
+    };
+    if (duplicateDiagnostic) diagnostics.push({ ...duplicateDiagnostic, questionIndex });
+    if (!isSupportedOptionCount(options.length)) {
+      questionDiagnostic('warning', `${options.length} secenek bulundu, ${MIN_OPTION_COUNT} (${formatOptionRange(MIN_OPTION_COUNT)}) veya ${MAX_OPTION_COUNT} (${formatOptionRange(MAX_OPTION_COUNT)}) bekleniyordu.`);
+    }
+    if (new Set(answerSources.map(source => source.letter)).size > 1) {
+      const sourceList = answerSources.map(source => `${source.label}: ${source.letter}`).join(', ');
+      questionDiagnostic('warning', `cevaplar uyusmuyor (${sourceList}), ${answerSources[0].label} kullanildi.`);
+    }
+    if (letterIndex >= options.length) {
+      questionDiagnostic('error', `cevap ${answerLetter} secenek araligi (${formatOptionRange(options.length)}) disinda, cevabi eksik olarak kaydedilecek.`);
+    } else if (correctIndex < 0) {
+      questionDiagnostic('warning', 'cevap bulunamadi, cevabi eksik olarak kaydedilecek (testlere alinmaz).');
+    }
+    if (expectsExplanations && !explanation) {
+      questionDiagnostic('warning', 'cozum/aciklama bulunamadi.');
+    }
+
+    const passageGroup = passageExtraction.groups.find(group => qNum >= group.startNumber && qNum <= group.endNumber);
+    if (passageGroup) usedPassageIds.add(passageGroup.passage.id);
 
     results.push({
-      id: `bulk_${Date.now()}_${qNum}`,
+      id: idMatch?.[1] || `bulk_${Date.now()}_${qNum}`,
       contextText: contextText || undefined,
       contentItems: contentItems.length > 0 ? contentItems : undefined,
       questionText: questionText.trim(),
+      ...(tables.length > 0 ? { tables } : {}),
       options,
-      correctOptionIndex: correctIndex >= 0 ? correctIndex : 0,
-      explanation: sol?.explanation || '',
+      correctOptionIndex: correctIndex >= 0 ? correctIndex : UNKNOWN_ANSWER_INDEX,
+      explanation,
+      ...(optionExplanations ? { optionExplanations } : {}),
+      ...(typeof lockOptionOrder === 'boolean' ? { lockOptionOrder } : {}),
+      passage: passageGroup?.passage,
+      ...buildImageFields(stemImages.images, optionParts.map(part => part.images[0] ?? null)),
+    });
+    if (optionParts.some(part => part.images.length > 1)) {
+      questionDiagnostic('warning', 'bir secenekte birden fazla gorsel var, yalnizca ilki kullanildi.');
+    }
+    resultLocations.push({ questionNumber: qNum, ...location });
+  }
+
+  // --- 8) Bank-level checks: numbering gaps, orphan solutions ---
+  const seenNumbers = Array.from(firstLineByNumber.keys()).sort((a, b) => a - b);
+  if (seenNumbers.length > 0) {
+    const missingNumbers: number[] = [];
+    for (let n = seenNumbers[0]; n <= seenNumbers[seenNumbers.length - 1]; n++) {
+      if (!firstLineByNumber.has(n)) missingNumbers.push(n);
+    }
+    if (missingNumbers.length > 0) {
+      diagnostics.push({ severity: 'warning', message: `Eksik soru numaralari: ${missingNumbers.join(', ')}.` });
+    }
+  }
+  answers.forEach((sol, num) => {
+    if (firstLineByNumber.has(num)) return;
+    diagnostics.push({ severity: 'warning', message: `Cozum ${num}: eslesen soru bulunamadi.`, questionNumber: num, lineStart: sol.line, lineEnd: sol.line });
+  });
+  passageExtraction.groups.forEach((group) => {
+    const location = { lineStart: group.lineStart, lineEnd: group.lineEnd };
+    if (!group.passage.text) {
+      diagnostics.push({ severity: 'warning', message: `${group.startNumber}-${group.endNumber}. sorularin ortak metni bos.`, ...location });
+    }
+    if (!usedPassageIds.has(group.passage.id)) {
+      diagnostics.push({ severity: 'warning', message: `${group.startNumber}-${group.endNumber}. sorular icin ortak metne bagli soru bulunamadi.`, ...location });
+    }
+  });
+  // 4 ve 5 secenek gecerli; cogunluktan farkli olan soruda bir sik eksik/fazla okunmus olabilir
+  const optionCountFrequency = new Map<number, number>();
+  results.forEach(question => optionCountFrequency.set(question.options.length, (optionCountFrequency.get(question.options.length) ?? 0) + 1));
+  const [commonOptionCount, commonFrequency] = Array.from(optionCountFrequency.entries()).sort((a, b) => b[1] - a[1])[0] ?? [0, 0];
+  if (commonFrequency > results.length / 2) {
+    results.forEach((question, questionIndex) => {
+      const optionCount = question.options.length;
+      if (optionCount === commonOptionCount || !isSupportedOptionCount(optionCount)) return;
+      const { questionNumber, lineStart, lineEnd } = resultLocations[questionIndex];
+      diagnostics.push({
+        severity: 'info',
+        message: `Soru ${questionNumber}: ${optionCount} secenekli, listedeki sorularin cogu ${commonOptionCount} secenekli.`,
+        questionNumber,
+        questionIndex,
+        lineStart,
+        lineEnd,
+      });
+    });
+  }
+  if (!expectsExplanations && results.length > 0) {
+    diagnostics.push({ severity: 'info', message: 'Metinde COZUM bolumu bulunamadi, aciklamalar bos kalacak.' });
+  }
+
+  // Soruya bagli olmayan kayitlar ust listede, digerleri sorunun yaninda gosterilir
+  const errors = diagnostics
+    .filter(diagnostic => diagnostic.questionIndex === undefined)
+    .map(formatBulkParseDiagnostic);
+
+  return { questions: results, errors, diagnostics };
+}
+
+/**
+ * Lift "X-Y. soruları aşağıdaki metne göre cevaplayınız." headers and the passage below them out of the text.
+ * The passage runs until the next numbered line; consumed lines are blanked so line numbers stay stable.
+ */
+function extractPassageGroups(text: string): PassageExtraction {
+  const lines = text.split('\n');
+  const groups: PassageGroup[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const headerMatch = lines[i].match(PASSAGE_HEADER_REGEX);
+    if (!headerMatch) continue;
+
+    const startNumber = parseInt(headerMatch[1], 10);
+    const endNumber = headerMatch[2] ? parseInt(headerMatch[2], 10) : startNumber;
+    const title = lines[i].trim();
+    let end = i + 1;
+    while (end < lines.length && !/^\s*\d+\.\s/.test(lines[end]) && !PASSAGE_HEADER_REGEX.test(lines[end])) end++;
+
+    const passageText = lines
+      .slice(i + 1, end)
+      .join('\n')
+      .trim()
+      .split(/\n[ \t]*\n/)
+      .map(paragraph => paragraph.replace(/\s*\n\s*/g, ' ').trim())
+      .filter(Boolean)
+      .join('\n\n');
+
+    groups.push({
+      passage: { id: `passage_${Date.now()}_${startNumber}_${endNumber}`, text: passageText, title },
+      startNumber: Math.min(startNumber, endNumber),
+      endNumber: Math.max(startNumber, endNumber),
+      lineStart: i + 1,
+      lineEnd: end,
     });
+    for (let j = i; j < end; j++) lines[j] = '';
+    i = end - 1;
+  }
+
+  if (groups.length === 0) return { groups, remainingText: text };
+  return { groups, remainingText: lines.join('\n') };
+}
+
+/** Split the question section into numbered blocks, keeping the 1-based line range of each block. */
+function splitQuestionBlocks(section: string): QuestionBlock[] {
+  const blocks: QuestionBlock[] = [];
+  let lineCursor = 1;
+  for (const raw of section.split(/\n(?=\d+\.\s)/)) {
+    const rawLineCount = raw.split('\n').length;
+    if (raw.trim()) {
+      const leadingLines = raw.substring(0, raw.length - raw.trimStart().length).split('\n').length - 1;
+      const lineStart = lineCursor + leadingLines;
+      blocks.push({ text: raw, lineStart, lineEnd: lineStart + raw.trim().split('\n').length - 1 });
+    }
+    lineCursor += rawLineCount;
+  }
+  return blocks;
+}
+
+function getLineNumberAt(text: string, offset: number): number {
+  return text.substring(0, offset).split('\n').length;
+}
+
+/**
+ * Lift compact answer-key tables out of the text. Recognised shapes:
+ * "1-A 2-C 3-E", multi-column "1.B  11.C  21.A" grids, single-column runs of "1) A" lines
+ * and a numbers row followed by a letters row. Lines after a "CEVAP ANAHTARI" header are
+ * accepted even when they hold a single pair. Consumed lines are blanked, not removed,
+ * so line numbers of the remaining text stay stable.
+ */
+function extractAnswerKey(text: string): AnswerKeyExtraction {
+  const lines = text.split('\n');
+  const keyLineIndexes = new Set<number>();
+  const answers = new Map<number, string>();
+  const take = (lineIndex: number, pairs: AnswerKeyPair[]) => {
+    keyLineIndexes.add(lineIndex);
+    for (const [num, letter] of pairs) answers.set(num, letter);
+  };
+
+  let afterHeader = false;
+  let singlePairRun: Array<{ lineIndex: number; pairs: AnswerKeyPair[] }> = [];
+  const flushSinglePairRun = () => {
+    if (singlePairRun.length >= 3) singlePairRun.forEach(entry => take(entry.lineIndex, entry.pairs));
+    singlePairRun = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (ANSWER_KEY_HEADER_REGEX.test(line)) {
+      flushSinglePairRun();
+      keyLineIndexes.add(i);
+      afterHeader = true;
+      continue;
+    }
+    if (!line.trim()) continue;
+
+    const gridPairs = readAnswerKeyGrid(line, lines[i + 1]);
+    if (gridPairs) {
+      flushSinglePairRun();
+      take(i, gridPairs);
+      keyLineIndexes.add(i + 1);
+      i++;
+      continue;
+    }
+
+    const pairs = readAnswerKeyPairs(line);
+    if (!pairs) {
+      flushSinglePairRun();
+      afterHeader = false;
+      continue;
+    }
+    if (afterHeader || pairs.length >= 2) {
+      flushSinglePairRun();
+      take(i, pairs);
+      continue;
+    }
+    singlePairRun.push({ lineIndex: i, pairs });
+  }
+  flushSinglePairRun();
+
+  if (answers.size === 0) return { answers, remainingText: text };
+  const remainingText = lines.map((line, index) => (keyLineIndexes.has(index) ? '' : line)).join('\n');
+  return { answers, remainingText };
+}
+
+/** Answer key pasted on its own (e.g. in the missing-answers queue): number -> letter. */
+export function parseAnswerKey(text: string): Map<number, string> {
+  return extractAnswerKey(`CEVAP ANAHTARI\n${text.replace(/\r\n?/g, '\n')}`).answers;
+}
+
+/** Matching or ordering answer typed as letters ("C-A-B") or 1-based digits; null unless it is a full permutation. */
+export function parseOptionOrder(text: string, optionCount: number): number[] | null {
+  if (isUnknownAnswerText(text)) return null;
+  return readOrderingAnswer(text, optionCount);
+}
+
+/** Returns the pairs of a line made only of "N-X" answer-key entries, otherwise null. */
+function readAnswerKeyPairs(line: string): AnswerKeyPair[] | null {
+  const pairs: AnswerKeyPair[] = [];
+  const regex = new RegExp(ANSWER_KEY_PAIR_REGEX.source, 'g');
+  let m: RegExpExecArray | null;
+  while ((m = regex.exec(line)) !== null) {
+    pairs.push([parseInt(m[1], 10), m[2].toUpperCase()]);
   }
+  if (pairs.length === 0) return null;
+
+  const leftover = line.replace(regex, '');
+  if (!/^[\s|,;/]*$/.test(leftover)) return null;
+  return pairs;
+}
+
+/** Two-row grid: a row of question numbers directly followed by a row of answer letters. */
+function readAnswerKeyGrid(numberRow: string, letterRow: string | undefined): AnswerKeyPair[] | null {
+  if (letterRow === undefined) return null;
+  if (!ANSWER_KEY_NUMBER_ROW_REGEX.test(numberRow) || !ANSWER_KEY_LETTER_ROW_REGEX.test(letterRow)) return null;
 
-  return results;
+  const numbers = numberRow.trim().split(/[\s|]+/).map(n => parseInt(n, 10));
+  const letters = letterRow.trim().split(/[\s|]+/).map(l => l.toUpperCase());
+  if (numbers.length !== letters.length) return null;
+  return numbers.map((num, index) => [num, letters[index]] as AnswerKeyPair);
+}
+
+/**
+ * Split the inline answer/solution tail ("Cevap: C", "Doğru cevap: B", "Çözüm: ...") off the options text.
+ * The markers may come in either order; whatever follows the solution marker up to the answer marker is the explanation.
+ */
+function splitInlineSolution(raw: string): InlineSolution {
+  const answerMatch = raw.match(INLINE_ANSWER_REGEX);
+  const solutionMatch = raw.match(INLINE_SOLUTION_REGEX);
+  const answerIdx = answerMatch?.index ?? -1;
+  const solutionIdx = solutionMatch?.index ?? -1;
+  if (answerIdx === -1 && solutionIdx === -1) return { optionsText: raw, answer: '', explanation: '' };
+
+  const tailStart = Math.min(...[answerIdx, solutionIdx].filter(idx => idx !== -1));
+  let explanation = '';
+  if (solutionMatch && solutionIdx !== -1) {
+    const explanationStart = solutionIdx + solutionMatch[0].length;
+    const explanationEnd = answerIdx > solutionIdx ? answerIdx : raw.length;
+    explanation = raw.substring(explanationStart, explanationEnd).replace(/\n/g, ' ').replace(/\s+/g, ' ').trim();
+  }
+
+  return {
+    optionsText: raw.substring(0, tailStart).trim(),
+    answer: answerMatch ? answerMatch[1].toUpperCase() : '',
+    explanation,
+  };
 }
 
-/** Parse A)...E) options from raw text. Handles both multiline and single-line formats. */
-function parseOptions(raw: string): string[] {
-  if (!raw.trim()) return [];
+/**
+ * Parse A)...E) options from raw text. Handles both multiline and single-line formats.
+ * An option written as "*C) ..." is taken as the marked correct answer; the asterisk is stripped.
+ */
+function parseOptions(raw: string): ParsedOptions {
+  if (!raw.trim()) return { options: [], markedIndex: -1 };
 
   // Split by option letter pattern: A) B) C) D) E)
-  const parts = raw.split(/(?=(?:^|\n|\s)[A-E][\)\.\-:]\s*)/);
+  const parts = raw.split(/(?=(?:^|\n|\s)\*?[A-E][\)\.\-:]\s*)/);
   const options: string[] = [];
+  let markedIndex = -1;
 
   for (const part of parts) {
-    const cleaned = part.replace(/^[\s\n]*[A-E][\)\.\-:]\s*/, '').replace(/\n/g, ' ').trim();
-    if (cleaned) options.push(cleaned);
+    const isMarked = /^[\s\n]*\*[A-E][\)\.\-:]/.test(part);
+    const cleaned = part.replace(/^[\s\n]*\*?[A-E][\)\.\-:]\s*/, '').replace(/\n/g, ' ').trim();
+    if (!cleaned) continue;
+    if (isMarked && markedIndex === -1) markedIndex = options.length;
+    options.push(cleaned);
   }
 
-  return options;
+  return { options, markedIndex };
 }
 
 /** Extract Roman numeral items and separate question text */
@@ -150,6 +1152,16 @@ function extractRomanItems(body: string): { contentItems: string[]; contextText:
   const inline = extractInlineRomans(body);
   if (inline.contentItems.length > 0) return inline;
 
+  // Without items, paragraphs above the last blank line are the passage (contextText)
+  const paragraphs = body.split(/\n[ \t]*\n/).map(p => p.trim()).filter(Boolean);
+  if (paragraphs.length > 1) {
+    return {
+      contentItems: [],
+      contextText: paragraphs.slice(0, -1).join('\n\n'),
+      questionText: paragraphs[paragraphs.length - 1],
+    };
+  }
+
   return { contentItems: [], contextText: '', questionText: body };
 }
 
@@ -183,10 +1195,19 @@ function extractMultilineRomans(body: string): { contentItems: string[]; context
     items.push(body.substring(start, end).replace(/\n/g, ' ').trim().replace(/,\s*$/, ''));
   }
 
-  const splitResult = splitQuestionTailFromItem(items[items.length - 1]);
-  let questionRoot = splitResult.questionTail;
-  if (splitResult.itemText !== items[items.length - 1]) {
-    items[items.length - 1] = splitResult.itemText;
+  // A blank line after the last item separates it from the question stem
+  const lastItemRaw = body.substring(positions[positions.length - 1].contentStart).trim();
+  const stemBreak = lastItemRaw.search(/\n[ \t]*\n/);
+  let questionRoot: string;
+  if (stemBreak !== -1) {
+    items[items.length - 1] = lastItemRaw.substring(0, stemBreak).replace(/\n/g, ' ').trim().replace(/,\s*$/, '');
+    questionRoot = lastItemRaw.substring(stemBreak).replace(/\n/g, ' ').replace(/\s+/g, ' ').trim();
+  } else {
+    const splitResult = splitQuestionTailFromItem(items[items.length - 1]);
+    questionRoot = splitResult.questionTail;
+    if (splitResult.itemText !== items[items.length - 1]) {
+      items[items.length - 1] = splitResult.itemText;
+    }
   }
 
   // Build question text - intro goes to contextText, questionRoot goes to questionText
@@ -278,16 +1299,33 @@ function isSequentialRomanList(numerals: string[]): boolean {
   return true;
 }
 
-function parseStructuredQuestionsWithReport(rawText: string): StructuredParseReport {
+function parseStructuredQuestionsWithReport(rawText: string, strict: boolean, onProgress?: BulkParseOptions['onProgress']): StructuredParseReport {
   const candidates = extractJsonCandidates(rawText);
-  const userLikelyPastedJson = looksLikeStructuredInput(rawText);
+  // ```json bloklari metnin ortasinda da olabilir
+  const userLikelyPastedJson = looksLikeStructuredInput(rawText) || candidates.length > 1;
   const payloadErrors: string[] = [];
   let hasParsedCandidate = false;
+  let syntaxError: JsonSyntaxError | null = null;
 
   for (const candidate of candidates) {
-    const parsedResult = safeJsonParse(candidate);
-    if (!parsedResult.parsed) continue;
+    const parsedResult = safeJsonParse(candidate.text, strict);
+    if (!parsedResult.parsed) {
+      // Cit blogu varsa asil JSON odur; hata konumu en son denenen adaydan gelir
+      if (parsedResult.error) syntaxError = buildJsonSyntaxError(rawText, candidate, parsedResult.error);
+      continue;
+    }
     hasParsedCandidate = true;
+    const repairs: JsonRepair[] = parsedResult.repairs.map((repair) => {
+      const offset = candidate.offset + repair.offset;
+      const line = getLineNumberAt(rawText, offset);
+      return {
+        ...repair,
+        offset,
+        line,
+        column: offset - rawText.lastIndexOf('\n', offset - 1),
+        context: rawText.slice(Math.max(0, offset - 24), offset + 24).replace(/\n/g, ' ⏎ '),
+      };
+    });
 
     const list = normalizeQuestionPayload(parsedResult.parsed);
     if (!list || list.length === 0) {
@@ -298,6 +1336,7 @@ function parseStructuredQuestionsWithReport(rawText: string): StructuredParseRep
     const results: Question[] = [];
     const errors: string[] = [];
     for (let i = 0; i < list.length; i++) {
+      onProgress?.({ format: 'json', done: i, total: list.length });
       const converted = convertStructuredQuestionWithErrors(list[i], i + 1);
       errors.push(...converted.errors);
       if (converted.question) results.push(converted.question);
@@ -307,10 +1346,10 @@ function parseStructuredQuestionsWithReport(rawText: string): StructuredParseRep
       errors.push('JSON icinde gecerli soru kaydi bulunamadi.');
     }
 
-    if (parsedResult.repaired) {
-      errors.unshift('JSON icindeki sorunlu tirnak/satir sonlari otomatik duzeltildi.');
+    if (repairs.length > 0) {
+      errors.unshift(`JSON icindeki sorunlu tirnak/satir sonlari otomatik duzeltildi (${repairs.length} duzeltme). Soru metinlerini duzeltme listesinden kontrol edin.`);
     }
-    return { used: true, questions: results, errors: dedupeErrors(errors) };
+    return { used: true, questions: results, errors: dedupeErrors(errors), repairs, syntaxError: null };
   }
 
   if (hasParsedCandidate) {
@@ -319,22 +1358,333 @@ function parseStructuredQuestionsWithReport(rawText: string): StructuredParseRep
   }
 
   if (userLikelyPastedJson) {
+    const location = syntaxError?.line !== undefined ? ` (satir ${syntaxError.line}, sutun ${syntaxError.column})` : '';
     return {
       used: true,
       questions: [],
-      errors: ['JSON parse edilemedi. Gecerli bir JSON dizi veya {"questions":[...]} formatini kullanin. String icindeki cift tirnaklari \\\" seklinde kacirip tekrar deneyin.'],
+      errors: [
+        strict
+          ? `Kati modda JSON parse edilemedi${location}: ${syntaxError?.message ?? 'bilinmeyen hata'}. Otomatik duzeltme kapali.`
+          : `JSON parse edilemedi${location}. Gecerli bir JSON dizi veya {"questions":[...]} formatini kullanin. String icindeki cift tirnaklari \\\" seklinde kacirip tekrar deneyin.`,
+      ],
+      syntaxError,
     };
   }
 
   return { used: false, questions: [], errors: [] };
 }
 
-function extractJsonCandidates(rawText: string): string[] {
-  const candidates: string[] = [rawText.trim()];
-  const fencedMatches = rawText.match(/```(?:json)?\s*([\s\S]*?)```/gi) || [];
-  for (const block of fencedMatches) {
-    const inner = block.replace(/```(?:json)?/i, '').replace(/```$/, '').trim();
-    if (inner) candidates.push(inner);
+/**
+ * Spreadsheet import: CSV (comma or semicolon) or TSV with a header row. Header cells are matched
+ * against the same aliases as JSON keys; option columns may be named A-E ("A", "A Şıkkı", "Seçenek A").
+ */
+function parseDelimitedQuestionsWithReport(text: string, onProgress?: BulkParseOptions['onProgress']): StructuredParseReport {
+  const notUsed: StructuredParseReport = { used: false, questions: [], errors: [] };
+  const headerLine = text.split('\n').find(line => line.trim()) ?? '';
+  const delimiter = detectDelimiter(headerLine);
+  if (!delimiter) return notUsed;
+
+  const rows = parseDelimitedRows(text, delimiter);
+  if (rows.length === 0) return notUsed;
+
+  const columns = rows[0].map(mapDelimitedHeader);
+  const hasQuestionColumn = columns.some(column => column !== null && 'field' in column && column.field === 'questionText');
+  const optionColumnCount = columns.filter(column => column !== null && 'optionIndex' in column).length;
+  const hasOptionsColumn = columns.some(column => column !== null && 'field' in column && column.field === 'options');
+  if (!hasQuestionColumn || (!hasOptionsColumn && optionColumnCount < 2)) return notUsed;
+
+  const results: Question[] = [];
+  const errors: string[] = [];
+  const unknownHeaders = rows[0].filter((cell, index) => columns[index] === null && cell.trim());
+  if (unknownHeaders.length > 0) {
+    errors.push(`Taninmayan sutunlar yok sayildi: ${unknownHeaders.map(cell => cell.trim()).join(', ')}.`);
+  }
+
+  for (let i = 1; i < rows.length; i++) {
+    onProgress?.({ format: 'csv', done: i - 1, total: rows.length - 1 });
+    const converted = convertStructuredQuestionWithErrors(buildRecordFromRow(rows[i], columns), i);
+    errors.push(...converted.errors);
+    if (converted.question) results.push(converted.question);
+  }
+
+  if (rows.length === 1) {
+    errors.push('Tablo basligi bulundu ama veri satiri yok.');
+  }
+  return { used: true, questions: results, errors: dedupeErrors(errors) };
+}
+
+function detectDelimiter(headerLine: string): string | null {
+  if (headerLine.includes('\t')) return '\t';
+  const semicolonCount = headerLine.split(';').length - 1;
+  const commaCount = headerLine.split(',').length - 1;
+  if (semicolonCount === 0 && commaCount === 0) return null;
+  return semicolonCount > commaCount ? ';' : ',';
+}
+
+/** RFC 4180 style rows: quoted cells may contain the delimiter, line breaks and doubled quotes. */
+function parseDelimitedRows(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        cell += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"' && !cell.trim()) {
+      inQuotes = true;
+      cell = '';
+    } else if (ch === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (ch === '\n') {
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(c => c.trim()));
+}
+
+function mapDelimitedHeader(cell: string): DelimitedColumn {
+  const key = foldLookupKey(cell);
+  if (!key) return null;
+
+  const optionMatch = key.match(CSV_OPTION_COLUMN_REGEX);
+  if (optionMatch) return { optionIndex: OPTION_LETTERS.indexOf(optionMatch[1].toUpperCase()) };
+
+  for (const field of Object.keys(STRUCTURED_FIELD_ALIASES) as StructuredField[]) {
+    if (STRUCTURED_FIELD_ALIASES[field].some(alias => foldLookupKey(alias) === key)) return { field };
+  }
+  return null;
+}
+
+/**
+ * Lookup key for Turkish labels typed in different ways: "Doğru Cevap", "dogru_cevap" and "doğruCevap" all fold
+ * to "dogrucevap". Used for CSV headers, answer words and exam category names.
+ */
+export function foldLookupKey(value: string): string {
+  return value
+    .trim()
+    .toLocaleLowerCase('tr')
+    .replace(/[\s_\-.]/g, '')
+    .replace(/ç/g, 'c')
+    .replace(/ğ/g, 'g')
+    .replace(/ı/g, 'i')
+    .replace(/ö/g, 'o')
+    .replace(/ş/g, 's')
+    .replace(/ü/g, 'u')
+    .replace(/â/g, 'a');
+}
+
+function buildRecordFromRow(row: string[], columns: DelimitedColumn[]): StructuredQuestion {
+  const record: StructuredQuestion = {};
+  const letterOptions: string[] = [];
+
+  columns.forEach((column, index) => {
+    const cell = (row[index] ?? '').trim();
+    if (!column || !cell) return;
+    if ('optionIndex' in column) {
+      letterOptions[column.optionIndex] = cell;
+      return;
+    }
+    // Tablolarda sayilar metin olarak gelir; indeks sutununu sayiya cevir (cevap numaralari metin olarak da okunur)
+    record[column.field] = column.field === 'correctOptionIndex' && /^\d+$/.test(cell) ? parseInt(cell, 10) : cell;
+  });
+
+  if (letterOptions.length > 0 && record.options === undefined) {
+    record.options = letterOptions.filter(Boolean);
+  }
+  return record;
+}
+
+/**
+ * Write questions back into the plain-text deneme format: numbered stems with contextText on top,
+ * markdown tables, Roman-numeral item lines, A) ... options, [SIRA SABİT: ...] and [ID: ...] lines and a closing ÇÖZÜMLER section with option
+ * explanations and CEVAP letters. Only multiple-choice questions fit the format (see `canSerializeQuestionToText`);
+ * `findTextRoundTripMismatches` tells which questions would not parse back unchanged.
+ */
+export function serializeQuestionsToText(questions: Question[]): string {
+  const romanNumerals = Object.keys(ROMAN_VALUES);
+  const singleLine = (value: string) => value.replace(/\s*\n\s*/g, ' ').trim();
+  const withoutBlankLines = (value: string) => value.trim().replace(/\n[ \t]*\n+/g, '\n');
+
+  const questionBlocks = questions.map((question, index) => {
+    const sections: string[] = [];
+    const passageHeader = buildPassageHeader(questions, index);
+    if (question.contextText?.trim()) sections.push(question.contextText.trim());
+    (question.tables ?? []).forEach(table => sections.push(formatTableMarkdown(table)));
+    const items = question.contentItems ?? [];
+    if (items.length > 0) {
+      sections.push(items.map((item, itemIndex) => `${romanNumerals[itemIndex] ?? itemIndex + 1}. ${singleLine(item)}`).join('\n'));
+    }
+    const images = getQuestionImages(question);
+    const imageLines = images.map(formatImageMarker).join('\n');
+    sections.push(imageLines ? `${imageLines}\n${withoutBlankLines(question.questionText)}` : withoutBlankLines(question.questionText));
+
+    const optionLines = question.options.map((option, optionIndex) => (
+      `${getOptionLetter(optionIndex)}) ${joinOptionImage(singleLine(option), question.optionImages?.[optionIndex])}`
+    ));
+    const lockLine = typeof question.lockOptionOrder === 'boolean' ? `\n[SIRA SABİT: ${question.lockOptionOrder ? 'evet' : 'hayır'}]` : '';
+    const questionId = question.questionId || question.id;
+    const idLine = questionId ? `\n[ID: ${questionId}]` : '';
+    const block = `${index + 1}. ${sections.join('\n\n')}\n${optionLines.join('\n')}${lockLine}${idLine}`;
+    return passageHeader ? `${passageHeader}\n\n${block}` : block;
+  });
+
+  const solutionLines = questions.map((question, index) => {
+    const optionExplanationLines = formatOptionExplanationLines(question.optionExplanations?.map(singleLine));
+    const answerLetter = canSerializeQuestionToText(question) && hasKnownAnswer(question) ? getOptionLetter(question.correctOptionIndex) : '?';
+    return [
+      `${index + 1}. ÇÖZÜM: ${singleLine(question.explanation || '')}`,
+      ...(optionExplanationLines ? [OPTION_EXPLANATIONS_HEADER, optionExplanationLines] : []),
+      `CEVAP: ${answerLetter}`,
+    ].join('\n');
+  });
+
+  return `${questionBlocks.join('\n\n')}\n\nÇÖZÜMLER\n${solutionLines.join('\n\n')}\n`;
+}
+
+/** The text format has no syntax for question types, match prompts or answer orders; only multiple choice fits. */
+export function canSerializeQuestionToText(question: Question): boolean {
+  return getQuestionType(question) === 'multipleChoice';
+}
+
+/**
+ * Indexes of questions that don't come back unchanged from `serializeQuestionsToText` -> `parseBulkQuestionsWithReport`
+ * with the given normalization: non-multiple-choice questions and any whose stem, items, tables, options, answer,
+ * explanations, images or passage would be altered. Whitespace differences are ignored.
+ */
+export function findTextRoundTripMismatches(questions: Question[], normalization: Partial<TextNormalizationSettings> = DEFAULT_TEXT_NORMALIZATION): number[] {
+  const squash = (value: string | null | undefined) => (value ?? '').replace(/\s+/g, ' ').trim();
+  const fingerprint = (question: Question) => JSON.stringify({
+    type: getQuestionType(question),
+    contextText: squash(question.contextText),
+    questionText: squash(question.questionText),
+    contentItems: (question.contentItems ?? []).map(squash),
+    tables: (question.tables ?? []).map(table => ({
+      headers: table.headers.map(squash),
+      rows: table.rows.map(row => row.map(squash)),
+    })),
+    options: question.options.map(squash),
+    answer: hasKnownAnswer(question) ? question.correctOptionIndex : UNKNOWN_ANSWER_INDEX,
+    explanation: squash(question.explanation),
+    optionExplanations: (question.optionExplanations ?? []).map(squash).filter(Boolean),
+    lockOptionOrder: typeof question.lockOptionOrder === 'boolean' ? question.lockOptionOrder : null,
+    images: getQuestionImages(question).map(image => image.url),
+    optionImages: question.options.map((_, index) => question.optionImages?.[index]?.url ?? ''),
+    passage: squash(question.passage?.text),
+  });
+
+  // Sorular tek tek yazilir; atlanan bir blok sonraki sorularin karsilastirmasini kaydirmasin
+  return questions.reduce<number[]>((mismatches, question, index) => {
+    if (!canSerializeQuestionToText(question)) {
+      mismatches.push(index);
+      return mismatches;
+    }
+    const parsed = parseBulkQuestionsWithReport(serializeQuestionsToText([question]), { normalization }).questions;
+    if (parsed.length !== 1 || fingerprint(parsed[0]) !== fingerprint(question)) mismatches.push(index);
+    return mismatches;
+  }, []);
+}
+
+function joinOptionImage(option: string, image: QuestionImage | null | undefined): string {
+  if (!image) return option;
+  return option ? `${option} ${formatImageMarker(image)}` : formatImageMarker(image);
+}
+
+/** Header plus passage text, written above the first question of each run sharing a passage. */
+function buildPassageHeader(questions: Question[], index: number): string {
+  const passage = questions[index].passage;
+  if (!passage?.text.trim()) return '';
+  if (index > 0 && questions[index - 1].passage?.id === passage.id) return '';
+
+  let lastIndex = index;
+  while (lastIndex + 1 < questions.length && questions[lastIndex + 1].passage?.id === passage.id) lastIndex++;
+  const header = lastIndex === index
+    ? `${index + 1}. soruyu aşağıdaki metne göre cevaplayınız.`
+    : `${index + 1}-${lastIndex + 1}. soruları aşağıdaki metne göre cevaplayınız.`;
+  return `${header}\n\n${passage.text.trim()}`;
+}
+
+/**
+ * Write questions as CSV with one column per option (A-E); four-option questions leave column E empty.
+ * The output parses back through the CSV import.
+ */
+export function serializeQuestionsToCsv(questions: Question[]): string {
+  const escapeCell = (value: string) => (/[",\n\r]|^\s|\s$/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+  const romanNumerals = Object.keys(ROMAN_VALUES);
+
+  const rows = questions.map((question) => {
+    const contentItems = (question.contentItems ?? [])
+      .map((item, index) => `${romanNumerals[index] ?? index + 1}. ${item}`)
+      .join('\n');
+    // Eslestirme sorularinin sutunlari "pairs" hucresine yazilir
+    const optionCells = OPTION_LETTERS.split('').map((_, index) => (
+      question.type === 'matching' || question.options[index] === undefined ? '' : joinOptionImage(question.options[index], question.optionImages?.[index])
+    ));
+    return [
+      question.questionId || question.id || '',
+      question.contextText || '',
+      contentItems,
+      question.questionText,
+      ...optionCells,
+      formatCsvAnswer(question),
+      question.explanation || '',
+      question.sourceTag || '',
+      question.imageUrl || '',
+      (question.images ?? []).map(formatImageMarker).join('\n'),
+      question.passage?.id || '',
+      question.passage?.text || '',
+      typeof question.lockOptionOrder === 'boolean' ? String(question.lockOptionOrder) : '',
+      formatOptionExplanationLines(question.optionExplanations),
+      question.type && question.type !== 'multipleChoice' ? question.type : '',
+      question.type === 'matching' ? formatMatchingPairLines(question.matchPrompts, question.options, question.correctMatches) : '',
+      (question.tables ?? []).map(formatTableMarkdown).join('\n\n'),
+    ];
+  });
+
+  return [CSV_EXPORT_HEADER, ...rows].map(row => row.map(escapeCell).join(',')).join('\r\n');
+}
+
+function formatCsvAnswer(question: Question): string {
+  if (!hasKnownAnswer(question)) return '';
+  if (question.type === 'matching') return '';
+  if (question.type === 'ordering') return question.correctOrder.map(getOptionLetter).join('-');
+  return getOptionLetter(question.correctOptionIndex);
+}
+
+/** "sol = sag" lines; parse back through the `pairs` field. */
+function formatMatchingPairLines(prompts: string[], options: string[], correctMatches: number[]): string {
+  return prompts.map((prompt, index) => `${prompt} = ${options[correctMatches[index]] ?? ''}`).join('\n');
+}
+
+function extractJsonCandidates(rawText: string): JsonCandidate[] {
+  const candidates: JsonCandidate[] = [{ text: rawText.trim(), offset: rawText.length - rawText.trimStart().length }];
+  const fenceRegex = /```(?:json)?\s*([\s\S]*?)```/gi;
+  let fence: RegExpExecArray | null;
+  while ((fence = fenceRegex.exec(rawText)) !== null) {
+    const inner = fence[1].trim();
+    if (inner) candidates.push({ text: inner, offset: fence.index + fence[0].indexOf(inner) });
   }
   return candidates;
 }
@@ -345,24 +1695,65 @@ function looksLikeStructuredInput(rawText: string): boolean {
   return trimmed.startsWith('{') || trimmed.startsWith('[') || /^```(?:json)?/i.test(trimmed);
 }
 
-function safeJsonParse(value: string): JsonParseResult {
+function safeJsonParse(value: string, strict: boolean): JsonParseResult {
   try {
-    return { parsed: JSON.parse(value), repaired: false };
-  } catch {
+    return { parsed: JSON.parse(value), repairs: [], error: null };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const originalError = { message, offset: readJsonErrorOffset(message, value) };
+    if (strict) return { parsed: null, repairs: [], error: originalError };
+
     const repaired = repairLikelyJson(value);
-    if (repaired !== value) {
+    if (repaired.text !== value) {
       try {
-        return { parsed: JSON.parse(repaired), repaired: true };
+        return { parsed: JSON.parse(repaired.text), repairs: repaired.repairs, error: null };
       } catch {
         // keep falling through
       }
     }
-    return { parsed: null, repaired: false };
+    return { parsed: null, repairs: [], error: originalError };
   }
 }
 
-function repairLikelyJson(value: string): string {
-  const normalizedQuotes = value.replace(/[\u201C\u201D]/g, '"').replace(/[\u2018\u2019]/g, "'");
+/** V8 reports "at position N", Firefox "at line L column C"; other engines give no location. */
+function readJsonErrorOffset(message: string, value: string): number | undefined {
+  const position = message.match(/position (\d+)/i);
+  if (position) return Math.min(Number(position[1]), value.length);
+  const lineColumn = message.match(/line (\d+) column (\d+)/i);
+  if (lineColumn) {
+    const lines = value.split('\n').slice(0, Number(lineColumn[1]) - 1);
+    return Math.min(lines.reduce((sum, line) => sum + line.length + 1, 0) + Number(lineColumn[2]) - 1, value.length);
+  }
+  if (/unexpected end/i.test(message)) return value.length;
+  return undefined;
+}
+
+function buildJsonSyntaxError(rawText: string, candidate: JsonCandidate, error: { message: string; offset?: number }): JsonSyntaxError {
+  if (error.offset === undefined) return { message: error.message };
+  const offset = candidate.offset + error.offset;
+  const lineStartOffset = rawText.lastIndexOf('\n', offset - 1) + 1;
+  const lineEndOffset = rawText.indexOf('\n', offset);
+  return {
+    // Motorun konumu aday metne gore; yapistirilan metne gore olan satir/sutun ayrica verilir
+    message: error.message.replace(/\s+at position \d+(?:\s*\(line \d+ column \d+\))?/i, '').replace(/\s+at line \d+ column \d+ of the JSON data/i, ''),
+    offset,
+    line: getLineNumberAt(rawText, offset),
+    column: offset - lineStartOffset + 1,
+    lineText: rawText.slice(lineStartOffset, lineEndOffset === -1 ? undefined : lineEndOffset),
+  };
+}
+
+/**
+ * Lenient rewrite of hand-edited JSON: curly quotes, raw newlines inside strings and unescaped inner
+ * double quotes. Every rewritten character is returned so the admin can check the guesses.
+ */
+function repairLikelyJson(value: string): JsonRepairResult {
+  const repairs: JsonRepairDraft[] = [];
+  const normalizedQuotes = value.replace(/[\u201C\u201D\u2018\u2019]/g, (quote, offset: number) => {
+    const after = quote === '\u201C' || quote === '\u201D' ? '"' : "'";
+    repairs.push({ kind: 'smart-quote', offset, before: quote, after });
+    return after;
+  });
   let out = '';
   let inString = false;
   let escaped = false;
@@ -391,12 +1782,14 @@ function repairLikelyJson(value: string): string {
     }
 
     if (ch === '\r') {
+      repairs.push({ kind: 'newline', offset: i, before: normalizedQuotes[i + 1] === '\n' ? '\r\n' : '\r', after: '\\n' });
       if (normalizedQuotes[i + 1] === '\n') i++;
       out += '\\n';
       continue;
     }
 
     if (ch === '\n') {
+      repairs.push({ kind: 'newline', offset: i, before: '\n', after: '\\n' });
       out += '\\n';
       continue;
     }
@@ -407,6 +1800,7 @@ function repairLikelyJson(value: string): string {
         inString = false;
         out += '"';
       } else {
+        repairs.push({ kind: 'inner-quote', offset: i, before: '"', after: '\\"' });
         out += '\\"';
       }
       continue;
@@ -415,7 +1809,18 @@ function repairLikelyJson(value: string): string {
     out += ch;
   }
 
-  return out;
+  // Akilli tirnaklar ayri turda toplandi; ayni konumdaki iki duzeltme tek kayda iner (“ -> \")
+  repairs.sort((a, b) => a.offset - b.offset);
+  const mergedRepairs = repairs.reduce<JsonRepairDraft[]>((list, repair) => {
+    const previous = list[list.length - 1];
+    if (previous && previous.offset === repair.offset) {
+      list[list.length - 1] = { ...repair, before: previous.before };
+    } else {
+      list.push(repair);
+    }
+    return list;
+  }, []);
+  return { text: out, repairs: mergedRepairs };
 }
 
 function nextNonWhitespaceChar(input: string, startIndex: number): string {
@@ -440,16 +1845,21 @@ function normalizeQuestionPayload(parsed: unknown): StructuredQuestion[] | null
 }
 
 function convertStructuredQuestionWithErrors(input: StructuredQuestion, index: number): StructuredConvertResult {
+  const rawQuestionType = readFirst(input, STRUCTURED_FIELD_ALIASES.questionType);
+  const questionType = readQuestionType(rawQuestionType);
+  if (!questionType) {
+    return { question: null, errors: [`Soru ${index}: soru tipi "${String(rawQuestionType)}" taninmadi (coktanSecmeli, dogruYanlis, eslestirme veya siralama olmali).`] };
+  }
+  if (questionType !== 'multipleChoice') return convertTypedStructuredQuestion(input, index, questionType);
+
   const errors: string[] = [];
 
-  const questionText =
-    asNonEmptyString(readFirst(input, ['questionText', 'questionRoot', 'soruKoku', 'soruKökü', 'soru'])) || '';
-  const contextText =
-    asNonEmptyString(readFirst(input, ['contextText', 'ustMetin', 'üstMetin', 'girisMetni', 'girişMetni'])) || '';
+  const { questionText, contextText, images: stemImages, tables } = readStructuredStem(input);
 
-  const rawItems = readFirst(input, ['contentItems', 'items', 'onculler', 'öncüller', 'onculListesi']);
+  const rawItems = readFirst(input, STRUCTURED_FIELD_ALIASES.contentItems);
   const contentItems = normalizeItems(rawItems);
-  const options = normalizeOptions(readFirst(input, ['options', 'siklar', 'şıklar', 'secenekler', 'seçenekler']));
+  const optionParts = normalizeOptions(readFirst(input, STRUCTURED_FIELD_ALIASES.options)).map(extractImageMarkers);
+  const options = optionParts.map(part => part.text);
 
   if (!questionText) {
     errors.push(`Soru ${index}: questionText (soru koku) bos.`);
@@ -457,8 +1867,8 @@ function convertStructuredQuestionWithErrors(input: StructuredQuestion, index: n
   if (options.length < 2) {
     errors.push(`Soru ${index}: options alaninda en az 2 secenek olmali.`);
   }
-  if (options.length > 0 && options.length !== 5) {
-    errors.push(`Soru ${index}: options 5 secenek olmali (A-E).`);
+  if (options.length >= 2 && !isSupportedOptionCount(options.length)) {
+    errors.push(`Soru ${index}: options ${MIN_OPTION_COUNT} (${formatOptionRange(MIN_OPTION_COUNT)}) veya ${MAX_OPTION_COUNT} (${formatOptionRange(MAX_OPTION_COUNT)}) secenek olmali, ${options.length} bulundu.`);
   }
 
   const answerValidation = validateAnswerField(input, options.length, index);
@@ -468,11 +1878,29 @@ function convertStructuredQuestionWithErrors(input: StructuredQuestion, index: n
   }
 
   const correctOptionIndex = readCorrectOptionIndex(input, options.length);
+  if (correctOptionIndex === UNKNOWN_ANSWER_INDEX && answerValidation.errors.length === 0) {
+    errors.push(`Soru ${index}: cevap bulunamadi, cevabi eksik olarak kaydedilecek (testlere alinmaz).`);
+  }
   const explanation =
-    asNonEmptyString(readFirst(input, ['explanation', 'cozum', 'çözüm', 'aciklama', 'açıklama'])) || '';
-  const sourceTag = asNonEmptyString(readFirst(input, ['sourceTag', 'kaynak', 'kaynakEtiketi']));
-  const imageUrl = asNonEmptyString(readFirst(input, ['imageUrl', 'gorselUrl', 'görselUrl']));
-  const questionId = asNonEmptyString(readFirst(input, ['questionId', 'id']));
+    asNonEmptyString(readFirst(input, STRUCTURED_FIELD_ALIASES.explanation)) || '';
+  const sourceTag = asNonEmptyString(readFirst(input, STRUCTURED_FIELD_ALIASES.sourceTag));
+  const imageUrl = asNonEmptyString(readFirst(input, STRUCTURED_FIELD_ALIASES.imageUrl));
+  const questionId = asNonEmptyString(readFirst(input, STRUCTURED_FIELD_ALIASES.questionId));
+  const passage = readStructuredPassage(input);
+  const lockOptionOrder = readBooleanFlag(readFirst(input, STRUCTURED_FIELD_ALIASES.lockOptionOrder));
+  const rawOptionExplanations = readFirst(input, STRUCTURED_FIELD_ALIASES.optionExplanations);
+  const optionExplanations = parseOptionExplanations(rawOptionExplanations, options.length);
+  if (Array.isArray(rawOptionExplanations) && rawOptionExplanations.length > options.length) {
+    errors.push(`Soru ${index}: secenekAciklamalari ${rawOptionExplanations.length} kayit iceriyor, ${options.length} secenek var; fazlasi yok sayildi.`);
+  }
+  const listedOptionImages = readFirst(input, STRUCTURED_FIELD_ALIASES.optionImages);
+  const optionImages = optionParts.map((part, optionIndex) => (
+    part.images[0] ?? (Array.isArray(listedOptionImages) ? readStructuredImages(listedOptionImages[optionIndex])[0] ?? null : null)
+  ));
+  const imageFields = buildImageFields(
+    [...stemImages, ...readStructuredImages(readFirst(input, STRUCTURED_FIELD_ALIASES.images))],
+    optionImages
+  );
 
   return {
     question: {
@@ -480,57 +1908,299 @@ function convertStructuredQuestionWithErrors(input: StructuredQuestion, index: n
       contextText: contextText || undefined,
       contentItems: contentItems.length > 0 ? contentItems : undefined,
       questionText,
+      ...(tables.length > 0 ? { tables } : {}),
       options,
       correctOptionIndex,
       explanation,
       sourceTag: sourceTag || undefined,
-      imageUrl: imageUrl || undefined,
+      passage,
+      ...imageFields,
+      imageUrl: imageUrl || imageFields.imageUrl,
+      ...(lockOptionOrder !== undefined ? { lockOptionOrder } : {}),
+      ...(optionExplanations ? { optionExplanations } : {}),
     },
     errors,
   };
 }
 
+/** True/false, matching and ordering questions; the option count rules of multiple choice don't apply. */
+function convertTypedStructuredQuestion(
+  input: StructuredQuestion,
+  index: number,
+  questionType: Exclude<QuestionType, 'multipleChoice'>
+): StructuredConvertResult {
+  const errors: string[] = [];
+  const base = readStructuredQuestionBase(input, index);
+  if (!base.questionText) errors.push(`Soru ${index}: questionText (soru koku) bos.`);
+
+  if (questionType === 'trueFalse') {
+    const rawAnswer = readFirst(input, STRUCTURED_FIELD_ALIASES.answer) ?? readFirst(input, STRUCTURED_FIELD_ALIASES.correctOptionIndex);
+    const correctOptionIndex = readTrueFalseAnswer(rawAnswer);
+    if (correctOptionIndex === UNKNOWN_ANSWER_INDEX) {
+      errors.push(`Soru ${index}: dogru/yanlis cevabi okunamadi (Dogru veya Yanlis yazin), cevabi eksik olarak kaydedilecek (testlere alinmaz).`);
+    }
+    if (!base.questionText) return { question: null, errors };
+    return { question: { ...base, type: 'trueFalse', options: [...TRUE_FALSE_OPTIONS], correctOptionIndex }, errors };
+  }
+
+  if (questionType === 'matching') {
+    const { pairs, skippedCount } = readMatchingPairs(readFirst(input, STRUCTURED_FIELD_ALIASES.pairs));
+    if (skippedCount > 0) errors.push(`Soru ${index}: ${skippedCount} eslestirme satiri okunamadi ("sol = sag" biciminde yazin).`);
+    if (pairs.length < 2 || pairs.length > MAX_OPTION_COUNT) {
+      errors.push(`Soru ${index}: eslestirme sorusunda 2-${MAX_OPTION_COUNT} eslestirme olmali, ${pairs.length} bulundu.`);
+      return { question: null, errors };
+    }
+    if (!base.questionText) return { question: null, errors };
+    return {
+      question: {
+        ...base,
+        type: 'matching',
+        matchPrompts: pairs.map(pair => pair.left),
+        options: pairs.map(pair => pair.right),
+        correctMatches: pairs.map((_, pairIndex) => pairIndex),
+        correctOptionIndex: UNKNOWN_ANSWER_INDEX,
+      },
+      errors,
+    };
+  }
+
+  const options = normalizeOptions(readFirst(input, STRUCTURED_FIELD_ALIASES.options));
+  if (options.length < 2 || options.length > MAX_OPTION_COUNT) {
+    errors.push(`Soru ${index}: siralama sorusunda 2-${MAX_OPTION_COUNT} oge olmali, ${options.length} bulundu.`);
+    return { question: null, errors };
+  }
+  // Sira verilmezse ogeler yazildigi sirayla dogru kabul edilir
+  const rawOrder = readFirst(input, STRUCTURED_FIELD_ALIASES.correctOrder) ?? readFirst(input, STRUCTURED_FIELD_ALIASES.answer);
+  const correctOrder = readOrderingAnswer(rawOrder, options.length);
+  if (!correctOrder) {
+    errors.push(`Soru ${index}: dogru sira ${options.length} ogenin her birini bir kez icermeli (orn. "${getOptionLetters(options.length).reverse().join('-')}").`);
+    return { question: null, errors };
+  }
+  if (!base.questionText) return { question: null, errors };
+  return {
+    question: { ...base, type: 'ordering', options, correctOrder, correctOptionIndex: UNKNOWN_ANSWER_INDEX },
+    errors,
+  };
+}
+
+/** Fields every question type reads the same way. */
+function readStructuredQuestionBase(input: StructuredQuestion, index: number): Omit<QuestionBase, 'options' | 'correctOptionIndex'> {
+  const { questionText, contextText, images: stemImages, tables } = readStructuredStem(input);
+  const contentItems = normalizeItems(readFirst(input, STRUCTURED_FIELD_ALIASES.contentItems));
+  const imageFields = buildImageFields(
+    [...stemImages, ...readStructuredImages(readFirst(input, STRUCTURED_FIELD_ALIASES.images))],
+    []
+  );
+  const imageUrl = asNonEmptyString(readFirst(input, STRUCTURED_FIELD_ALIASES.imageUrl));
+  return {
+    id: asNonEmptyString(readFirst(input, STRUCTURED_FIELD_ALIASES.questionId)) || `bulk_${Date.now()}_${index}`,
+    contextText: contextText || undefined,
+    contentItems: contentItems.length > 0 ? contentItems : undefined,
+    questionText,
+    ...(tables.length > 0 ? { tables } : {}),
+    explanation: asNonEmptyString(readFirst(input, STRUCTURED_FIELD_ALIASES.explanation)) || '',
+    sourceTag: asNonEmptyString(readFirst(input, STRUCTURED_FIELD_ALIASES.sourceTag)) || undefined,
+    passage: readStructuredPassage(input),
+    ...imageFields,
+    imageUrl: imageUrl || imageFields.imageUrl,
+  };
+}
+
+/** Stem and context text with image markers and pipe tables lifted out; tables from the `tables` field come first. */
+function readStructuredStem(input: StructuredQuestion): { questionText: string; contextText: string; images: QuestionImage[]; tables: QuestionTable[] } {
+  const stemImages = extractImageMarkers(asNonEmptyString(readFirst(input, STRUCTURED_FIELD_ALIASES.questionText)) || '');
+  const stem = extractTableBlocks(stemImages.text);
+  const context = extractTableBlocks(asNonEmptyString(readFirst(input, STRUCTURED_FIELD_ALIASES.contextText)) || '');
+  return {
+    questionText: stem.text.trim(),
+    contextText: context.text.trim(),
+    images: stemImages.images,
+    tables: [...parseQuestionTables(readFirst(input, STRUCTURED_FIELD_ALIASES.tables)), ...context.tables, ...stem.tables],
+  };
+}
+
+/** Missing type means multiple choice; an unrecognized one is null. */
+function readQuestionType(value: unknown): QuestionType | null {
+  if (value === undefined || value === null) return 'multipleChoice';
+  const key = typeof value === 'string' ? foldLookupKey(value) : '';
+  if (!key) return 'multipleChoice';
+  const match = (Object.keys(QUESTION_TYPE_ALIASES) as QuestionType[]).find(type => QUESTION_TYPE_ALIASES[type].includes(key));
+  return match ?? null;
+}
+
+/** Doğru / Yanlış, true / false, evet / hayır, 0 / 1 or the A / B letters of the exported options. */
+function readTrueFalseAnswer(value: unknown): number {
+  if (typeof value === 'boolean') return value ? 0 : 1;
+  const answerNumber = readAnswerNumber(value);
+  if (answerNumber !== null) return answerNumber === 1 || answerNumber === 2 ? answerNumber - 1 : UNKNOWN_ANSWER_INDEX;
+  if (typeof value !== 'string') return UNKNOWN_ANSWER_INDEX;
+  const key = foldLookupKey(value);
+  if (TRUE_ANSWER_TEXTS.includes(key)) return 0;
+  if (FALSE_ANSWER_TEXTS.includes(key)) return 1;
+  return UNKNOWN_ANSWER_INDEX;
+}
+
+/** Pairs as [{ left, right }], [[left, right]], { left: right } or "left = right" lines. */
+function readMatchingPairs(value: unknown): { pairs: { left: string; right: string }[]; skippedCount: number } {
+  const pairs: { left: string; right: string }[] = [];
+  let skippedCount = 0;
+  const addPair = (left: unknown, right: unknown) => {
+    const leftText = asNonEmptyString(left);
+    const rightText = asNonEmptyString(right);
+    if (leftText && rightText) pairs.push({ left: leftText, right: rightText });
+    else skippedCount++;
+  };
+  const addLine = (line: string) => {
+    const [left, ...rest] = line.split(MATCHING_PAIR_SEPARATOR_REGEX);
+    addPair(left, rest.join(' '));
+  };
+
+  if (Array.isArray(value)) {
+    value.forEach((entry) => {
+      if (Array.isArray(entry)) addPair(entry[0], entry[1]);
+      else if (isRecord(entry)) addPair(entry.left ?? entry.sol, entry.right ?? entry.sag ?? entry['sağ']);
+      else if (typeof entry === 'string') addLine(entry);
+      else skippedCount++;
+    });
+  } else if (isRecord(value)) {
+    Object.entries(value).forEach(([left, right]) => addPair(left, right));
+  } else if (typeof value === 'string') {
+    value.split('\n').filter(line => line.trim()).forEach(addLine);
+  }
+  return { pairs, skippedCount };
+}
+
+/**
+ * Option indexes in the right order from [2, 0, 1], ["C", "A", "B"], "C-A-B" / "CAB" or 1-based "3,1,2".
+ * A missing order keeps the written order; a list that isn't a full permutation is null.
+ */
+function readOrderingAnswer(value: unknown, optionCount: number): number[] | null {
+  const identity = Array.from({ length: optionCount }, (_, index) => index);
+  if (value === undefined || value === null) return identity;
+  let order: number[] = [];
+  if (Array.isArray(value)) {
+    order = value.map(entry => (typeof entry === 'number' ? Math.trunc(entry) : getOptionLetterIndex(String(entry), optionCount)));
+  } else if (typeof value === 'string') {
+    if (isUnknownAnswerText(value)) return identity;
+    const compact = value.replace(/[\s,;.>\-–]+/g, '');
+    if (/^[A-Ea-e]+$/.test(compact)) order = compact.split('').map(letter => getOptionLetterIndex(letter, optionCount));
+    else if (/^\d+$/.test(compact)) order = compact.split('').map(digit => parseInt(digit, 10) - 1);
+    else return null;
+  } else {
+    return null;
+  }
+  return isIndexPermutation(order, optionCount) ? order : null;
+}
+
+/**
+ * `passage` may be an object ({ id, text, title }) or plain text next to an optional `passageId`.
+ * Without an id, questions carrying the same passage text end up in the same group.
+ */
+function readStructuredPassage(input: StructuredQuestion): QuestionPassage | undefined {
+  const rawPassage = readFirst(input, STRUCTURED_FIELD_ALIASES.passageText);
+  const explicitId = asNonEmptyString(readFirst(input, STRUCTURED_FIELD_ALIASES.passageId));
+
+  let text: string | null = null;
+  let title: string | null = null;
+  let id = explicitId;
+  if (isRecord(rawPassage)) {
+    text = asNonEmptyString(rawPassage.text);
+    title = asNonEmptyString(rawPassage.title);
+    id = id || asNonEmptyString(rawPassage.id);
+  } else {
+    text = asNonEmptyString(rawPassage);
+  }
+  if (!text) return undefined;
+
+  return {
+    id: id || createPassageIdFromText(text),
+    text,
+    ...(title ? { title } : {}),
+  };
+}
+
+/** `images` may be a list of URLs / { url, alt } objects, or text with markers or bare URLs. */
+function readStructuredImages(value: unknown): QuestionImage[] {
+  if (Array.isArray(value)) return value.flatMap(readStructuredImages);
+  if (isRecord(value)) {
+    const url = asNonEmptyString(value.url) || asNonEmptyString(value.src);
+    const alt = asNonEmptyString(value.alt);
+    return url ? [{ url, ...(alt ? { alt } : {}) }] : [];
+  }
+  const text = asNonEmptyString(value);
+  if (!text) return [];
+  const extraction = extractImageMarkers(text);
+  if (extraction.images.length > 0) return extraction.images;
+  return text.split(/\s+/).filter(token => /^(?:https?:\/\/|data:image\/)/i.test(token)).map(url => ({ url }));
+}
+
+/** Image fields of a parsed question; empty lists are left out so plain questions stay unchanged. */
+function buildImageFields(images: QuestionImage[], optionImages: (QuestionImage | null)[]): QuestionImageFields {
+  const uniqueImages = images.filter((image, index) => image.url && images.findIndex(other => other.url === image.url) === index);
+  return {
+    ...(uniqueImages.length > 0 ? { imageUrl: uniqueImages[0].url, images: uniqueImages } : {}),
+    ...(optionImages.some(Boolean) ? { optionImages } : {}),
+  };
+}
+
+function createPassageIdFromText(text: string): string {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  }
+  return `passage_${(hash >>> 0).toString(36)}`;
+}
+
+/**
+ * One numbering rule for JSON and CSV: `answer` is a letter or an option number starting at 1 (1 = A,
+ * for true/false 1 = Doğru), given as a number or a numeric string. Only `correctOptionIndex` is 0-based.
+ */
+function readAnswerNumber(value: unknown): number | null {
+  if (typeof value === 'number' && Number.isFinite(value)) return Math.trunc(value);
+  if (typeof value === 'string' && /^\s*\d+\s*$/.test(value)) return parseInt(value, 10);
+  return null;
+}
+
 function readCorrectOptionIndex(input: StructuredQuestion, optionLength: number): number {
-  const numeric = readFirst(input, ['correctOptionIndex', 'correctIndex', 'dogruSecenekIndex', 'doğruSeçenekIndex']);
+  const numeric = readFirst(input, STRUCTURED_FIELD_ALIASES.correctOptionIndex);
   if (typeof numeric === 'number' && Number.isFinite(numeric)) {
     const n = Math.trunc(numeric);
     if (n >= 0 && n < optionLength) return n;
   }
 
-  const answerRaw = readFirst(input, ['answer', 'correctAnswer', 'dogruCevap', 'doğruCevap']);
-  if (typeof answerRaw === 'number' && Number.isFinite(answerRaw)) {
-    const n = Math.trunc(answerRaw);
-    if (n >= 0 && n < optionLength) return n;
-    if (n >= 1 && n <= optionLength) return n - 1;
+  const answerRaw = readFirst(input, STRUCTURED_FIELD_ALIASES.answer);
+  const answerNumber = readAnswerNumber(answerRaw);
+  if (answerNumber !== null) {
+    return answerNumber >= 1 && answerNumber <= optionLength ? answerNumber - 1 : UNKNOWN_ANSWER_INDEX;
   }
   if (typeof answerRaw === 'string') {
-    const answer = answerRaw.trim().toUpperCase();
-    const letterIndex = 'ABCDE'.indexOf(answer);
-    if (letterIndex >= 0 && letterIndex < optionLength) return letterIndex;
+    const letterIndex = getOptionLetterIndex(answerRaw, optionLength);
+    if (letterIndex >= 0) return letterIndex;
   }
 
-  return 0;
+  return UNKNOWN_ANSWER_INDEX;
 }
 
 function validateAnswerField(input: StructuredQuestion, optionLength: number, questionIndex: number): { errors: string[] } {
   const errors: string[] = [];
-  const answerRaw = readFirst(input, ['answer', 'correctAnswer', 'dogruCevap', 'doğruCevap']);
+  const answerRaw = readFirst(input, STRUCTURED_FIELD_ALIASES.answer);
   if (answerRaw === undefined || answerRaw === null) return { errors };
+  // Secenekler eksikse o hata ayrica yazilir; harf/numara yine de A-E icinde olmali
+  const letterRange = optionLength >= 2 ? optionLength : MAX_OPTION_COUNT;
 
-  if (typeof answerRaw === 'number' && Number.isFinite(answerRaw)) {
-    const n = Math.trunc(answerRaw);
-    const zeroBasedValid = n >= 0 && n < optionLength;
-    const oneBasedValid = n >= 1 && n <= optionLength;
-    if (!zeroBasedValid && !oneBasedValid) {
-      errors.push(`Soru ${questionIndex}: answer degeri secenek araliginda degil.`);
+  const answerNumber = readAnswerNumber(answerRaw);
+  if (answerNumber !== null) {
+    if (answerNumber < 1 || answerNumber > letterRange) {
+      errors.push(`Soru ${questionIndex}: answer numarasi 1-${letterRange} araliginda olmali (1 = A).`);
     }
     return { errors };
   }
 
   if (typeof answerRaw === 'string') {
-    const answer = answerRaw.trim().toUpperCase();
-    if ('ABCDE'.indexOf(answer) === -1) {
-      errors.push(`Soru ${questionIndex}: answer harfi A-E araliginda olmali.`);
+    // Bos veya "?" cevap bilerek eksik birakilmistir
+    if (isUnknownAnswerText(answerRaw)) return { errors };
+    if (getOptionLetterIndex(answerRaw, letterRange) === -1) {
+      errors.push(`Soru ${questionIndex}: answer harfi ${formatOptionRange(letterRange)} araliginda olmali.`);
     }
     return { errors };
   }
@@ -539,6 +2209,22 @@ function validateAnswerField(input: StructuredQuestion, optionLength: number, qu
   return { errors };
 }
 
+/** true/false, 1/0 or evet/hayir; anything else leaves the flag unset. */
+function readBooleanFlag(value: unknown): boolean | undefined {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value === 1 ? true : value === 0 ? false : undefined;
+  if (typeof value !== 'string') return undefined;
+  const normalized = value.trim().toLocaleLowerCase('tr');
+  if (['true', '1', 'evet', 'e'].includes(normalized)) return true;
+  if (['false', '0', 'hayir', 'hayır', 'h'].includes(normalized)) return false;
+  return undefined;
+}
+
+function isUnknownAnswerText(value: string): boolean {
+  const trimmed = value.trim();
+  return trimmed === '' || trimmed === '?';
+}
+
 function dedupeErrors(errors: string[]): string[] {
   return Array.from(new Set(errors));
 }
@@ -548,7 +2234,7 @@ function normalizeOptions(value: unknown): string[] {
     return value.map(v => asNonEmptyString(v)).filter((v): v is string => Boolean(v));
   }
   if (typeof value !== 'string') return [];
-  return parseOptions(value);
+  return parseOptions(value).options;
 }
 
 function normalizeItems(value: unknown): string[] {
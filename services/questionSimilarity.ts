@@ -0,0 +1,150 @@
+import { Question } from '../types';
+
+type QuestionFingerprint = { stemTokens: Set<string>; optionSet: Set<string> };
+
+export type SimilarityIndex = {
+  fingerprints: QuestionFingerprint[];
+  /** token -> indexes of questions whose stem contains it */
+  postings: Map<string, number[]>;
+};
+
+export type SimilarQuestionMatch = { index: number; score: number };
+
+export type DuplicateCluster = {
+  /** Indexes into the question list given to `findDuplicateClusters`, ascending. */
+  indexes: number[];
+  /** Highest pair score inside the cluster (0-1). */
+  score: number;
+};
+
+export const DUPLICATE_SIMILARITY_THRESHOLD = 0.85;
+
+const STEM_WEIGHT = 0.65;
+const CANDIDATE_TOKEN_COUNT = 4;
+
+/** Case (Turkish rules), punctuation and spacing differences are ignored. */
+export function normalizeSimilarityText(value: string): string {
+  return value
+    .toLocaleLowerCase('tr')
+    .replace(/[^\p{L}\p{N}\s]+/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function buildSimilarityIndex(questions: Question[]): SimilarityIndex {
+  const fingerprints = questions.map(buildFingerprint);
+  const postings = new Map<string, number[]>();
+  fingerprints.forEach((fingerprint, index) => {
+    fingerprint.stemTokens.forEach((token) => {
+      const list = postings.get(token);
+      if (list) list.push(index);
+      else postings.set(token, [index]);
+    });
+  });
+  return { fingerprints, postings };
+}
+
+/**
+ * Best match for `question` in the index at or above the threshold, or null.
+ * `accept` can limit which indexed questions count (e.g. only earlier rows of the same batch).
+ */
+export function findSimilarQuestion(
+  question: Question,
+  index: SimilarityIndex,
+  accept?: (candidateIndex: number) => boolean,
+  threshold = DUPLICATE_SIMILARITY_THRESHOLD
+): SimilarQuestionMatch | null {
+  const fingerprint = buildFingerprint(question);
+  let best: SimilarQuestionMatch | null = null;
+
+  for (const candidateIndex of collectCandidates(fingerprint, index)) {
+    if (accept && !accept(candidateIndex)) continue;
+    const score = scoreFingerprints(fingerprint, index.fingerprints[candidateIndex]);
+    if (score >= threshold && (!best || score > best.score)) {
+      best = { index: candidateIndex, score };
+    }
+  }
+  return best;
+}
+
+/** Group the whole list into clusters of near-duplicates (connected pairs above the threshold). */
+export function findDuplicateClusters(questions: Question[], threshold = DUPLICATE_SIMILARITY_THRESHOLD): DuplicateCluster[] {
+  const index = buildSimilarityIndex(questions);
+  const parent = questions.map((_, i) => i);
+  const bestScore = new Map<number, number>();
+  const findRoot = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  index.fingerprints.forEach((fingerprint, i) => {
+    for (const j of collectCandidates(fingerprint, index)) {
+      if (j <= i) continue;
+      const score = scoreFingerprints(fingerprint, index.fingerprints[j]);
+      if (score < threshold) continue;
+      const rootI = findRoot(i);
+      const rootJ = findRoot(j);
+      const merged = Math.max(score, bestScore.get(rootI) ?? 0, bestScore.get(rootJ) ?? 0);
+      parent[rootJ] = rootI;
+      bestScore.set(rootI, merged);
+    }
+  });
+
+  const clusters = new Map<number, number[]>();
+  questions.forEach((_, i) => {
+    const root = findRoot(i);
+    const members = clusters.get(root);
+    if (members) members.push(i);
+    else clusters.set(root, [i]);
+  });
+
+  return Array.from(clusters.entries())
+    .filter(([, members]) => members.length > 1)
+    .map(([root, members]) => ({ indexes: members, score: bestScore.get(root) ?? threshold }))
+    .sort((a, b) => b.indexes.length - a.indexes.length || b.score - a.score);
+}
+
+function buildFingerprint(question: Question): QuestionFingerprint {
+  // Ortak metin de koke dahil: ayni kalip soru farkli metinlerde tekrar sayilmasin
+  const stemText = [
+    question.passage?.text ?? '',
+    question.contextText ?? '',
+    ...(question.contentItems ?? []),
+    question.questionText,
+  ].join(' ');
+
+  return {
+    stemTokens: new Set(normalizeSimilarityText(stemText).split(' ').filter(token => token.length > 1)),
+    optionSet: new Set((question.options ?? []).map(normalizeSimilarityText).filter(Boolean)),
+  };
+}
+
+/** Only questions sharing one of the query's rarest stem tokens are compared. */
+function collectCandidates(fingerprint: QuestionFingerprint, index: SimilarityIndex): Set<number> {
+  const rareTokens = Array.from(fingerprint.stemTokens)
+    .filter(token => index.postings.has(token))
+    .sort((a, b) => index.postings.get(a)!.length - index.postings.get(b)!.length || a.localeCompare(b))
+    .slice(0, CANDIDATE_TOKEN_COUNT);
+
+  const candidates = new Set<number>();
+  rareTokens.forEach(token => index.postings.get(token)!.forEach(candidate => candidates.add(candidate)));
+  return candidates;
+}
+
+function scoreFingerprints(a: QuestionFingerprint, b: QuestionFingerprint): number {
+  const stemScore = jaccard(a.stemTokens, b.stemTokens);
+  if (a.optionSet.size === 0 || b.optionSet.size === 0) return stemScore;
+  return STEM_WEIGHT * stemScore + (1 - STEM_WEIGHT) * jaccard(a.optionSet, b.optionSet);
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(value => {
+    if (b.has(value)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+}
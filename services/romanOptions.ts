@@ -0,0 +1,75 @@
+import { MAX_OPTION_COUNT, getOptionLetter } from './questionParser';
+
+/** Roman-numeral item indexes (0 = I), ascending. */
+export type RomanSubset = number[];
+
+export type RomanOptionSet = { options: string[]; correctOptionIndex: number };
+
+export const MIN_ROMAN_ITEM_COUNT = 3;
+export const MAX_ROMAN_ITEM_COUNT = 5;
+
+const ROMAN_NUMERALS = ['I', 'II', 'III', 'IV', 'V'];
+
+/** "Yalnız I", "I ve II", "I, II ve III" */
+export function formatRomanSubset(subset: RomanSubset): string {
+  const labels = subset.map(index => ROMAN_NUMERALS[index] ?? String(index + 1));
+  if (labels.length === 1) return `Yalnız ${labels[0]}`;
+  return `${labels.slice(0, -1).join(', ')} ve ${labels[labels.length - 1]}`;
+}
+
+/** Every non-empty subset in exam order: fewer items first, then by the numerals. */
+export function listRomanSubsets(itemCount: number): RomanSubset[] {
+  const subsets: RomanSubset[] = [];
+  for (let mask = 1; mask < 1 << itemCount; mask++) {
+    subsets.push(Array.from({ length: itemCount }, (_, index) => index).filter(index => mask & (1 << index)));
+  }
+  return subsets.sort(compareRomanSubsets);
+}
+
+export function isSameRomanSubset(a: RomanSubset, b: RomanSubset): boolean {
+  return a.length === b.length && a.every((value, index) => value === b[index]);
+}
+
+/**
+ * ÖSYM-style option set for a "hangileri" question: the correct subset plus the distractors closest to it
+ * (one item added or removed first), listed in exam order. `picks` replaces the automatic distractor choice;
+ * the correct subset is always included.
+ */
+export function buildRomanOptionSet(
+  itemCount: number,
+  correctSubset: RomanSubset,
+  optionCount: number = MAX_OPTION_COUNT,
+  picks?: RomanSubset[]
+): RomanOptionSet {
+  const correct = [...correctSubset].sort((a, b) => a - b);
+  const distractors = (picks ?? listRomanSubsets(itemCount)
+    .filter(subset => !isSameRomanSubset(subset, correct))
+    .sort((a, b) => romanDistance(a, correct) - romanDistance(b, correct) || compareRomanSubsets(a, b))
+    .slice(0, optionCount - 1)
+  ).filter(subset => !isSameRomanSubset(subset, correct));
+
+  const subsets = [correct, ...distractors].sort(compareRomanSubsets);
+  return {
+    options: subsets.map(formatRomanSubset),
+    correctOptionIndex: subsets.findIndex(subset => isSameRomanSubset(subset, correct)),
+  };
+}
+
+/** Options in the "A) ..." form the admin option textareas expect. */
+export function formatRomanOptionLines(optionSet: RomanOptionSet): string {
+  return optionSet.options.map((option, index) => `${getOptionLetter(index)}) ${option}`).join('\n');
+}
+
+function compareRomanSubsets(a: RomanSubset, b: RomanSubset): number {
+  if (a.length !== b.length) return a.length - b.length;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return 0;
+}
+
+/** Number of items that would have to be added or removed to turn one subset into the other. */
+function romanDistance(a: RomanSubset, b: RomanSubset): number {
+  const shared = a.filter(index => b.includes(index)).length;
+  return a.length + b.length - 2 * shared;
+}
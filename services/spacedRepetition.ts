@@ -0,0 +1,70 @@
+/**
+ * Leitner-style review scheduling for the wrong-question pool and favourites. A question starts in box 0 and
+ * comes back the next day; each correct answer given on or after its due date moves it one box up, any miss
+ * sends it back to box 0.
+ */
+export interface ReviewSchedule {
+  box: number;
+  intervalDays: number;
+  /** Start of the local day the question is due again (ms). */
+  dueAt: number;
+  lastReviewedAt: number;
+}
+
+/** Review interval of each box, in days. */
+export const REVIEW_INTERVAL_DAYS = [1, 3, 7, 14, 30];
+export const LAST_REVIEW_BOX = REVIEW_INTERVAL_DAYS.length - 1;
+
+export function createReviewSchedule(now: number): ReviewSchedule {
+  return buildReviewSchedule(0, now);
+}
+
+export function isReviewDue(schedule: ReviewSchedule, now: number): boolean {
+  return schedule.dueAt <= now;
+}
+
+/** A wrong question that reaches the last box has been answered correctly at every interval and leaves the pool. */
+export function hasCompletedReviews(schedule: ReviewSchedule): boolean {
+  return schedule.box >= LAST_REVIEW_BOX;
+}
+
+/**
+ * Schedule after an answer. Correct answers given before the due date keep the current box, so solving the
+ * same question again on the same day doesn't skip ahead.
+ */
+export function getNextReviewSchedule(previous: ReviewSchedule | null, isCorrect: boolean, now: number): ReviewSchedule {
+  if (!isCorrect) return createReviewSchedule(now);
+  if (!previous) return buildReviewSchedule(1, now);
+  if (!isReviewDue(previous, now)) return { ...previous, lastReviewedAt: now };
+  return buildReviewSchedule(Math.min(previous.box + 1, LAST_REVIEW_BOX), now);
+}
+
+/** Schedule stored on a Firestore record; records written before scheduling existed start in box 0 from `fallbackReviewedAt`. */
+export function parseReviewSchedule(value: unknown, fallbackReviewedAt: number): ReviewSchedule {
+  if (!value || typeof value !== 'object') return createReviewSchedule(fallbackReviewedAt);
+  const raw = value as Record<string, unknown>;
+  const box = Math.floor(Number(raw.box));
+  const dueAt = Number(raw.dueAt);
+  if (!(box >= 0) || !Number.isFinite(dueAt)) return createReviewSchedule(fallbackReviewedAt);
+  const safeBox = Math.min(box, LAST_REVIEW_BOX);
+  const lastReviewedAt = Number(raw.lastReviewedAt);
+  return {
+    box: safeBox,
+    intervalDays: REVIEW_INTERVAL_DAYS[safeBox],
+    dueAt,
+    lastReviewedAt: Number.isFinite(lastReviewedAt) ? lastReviewedAt : fallbackReviewedAt,
+  };
+}
+
+function buildReviewSchedule(box: number, now: number): ReviewSchedule {
+  const intervalDays = REVIEW_INTERVAL_DAYS[box];
+  const dueDay = new Date(now);
+  dueDay.setHours(0, 0, 0, 0);
+  dueDay.setDate(dueDay.getDate() + intervalDays);
+  return {
+    box,
+    intervalDays,
+    dueAt: dueDay.getTime(),
+    lastReviewedAt: now,
+  };
+}
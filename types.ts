@@ -20,19 +20,76 @@ export interface Category {
   subCategories: SubCategory[];
 }
 
-export interface Question {
+// Several questions answered from one passage share the same `id`; the text is stored on each question
+export interface QuestionPassage {
+  id: string;
+  text: string;
+  title?: string; // e.g. "5-7. soruları aşağıdaki metne göre cevaplayınız."
+}
+
+export interface QuestionImage {
+  url: string;
+  alt?: string;
+}
+
+// Small data table of a question (population by year, province vs. product...)
+export interface QuestionTable {
+  headers: string[];
+  rows: string[][]; // Each row has one cell per header
+  caption?: string;
+}
+
+// Fields shared by every question type
+export interface QuestionBase {
   id?: string;
   questionId?: string;
-  imageUrl?: string; // Optional image link
+  imageUrl?: string; // Optional image link (first of `images` when the question has several)
+  images?: QuestionImage[]; // Optional figures of the stem (maps, charts...)
+  optionImages?: (QuestionImage | null)[]; // Parallel to `options`; null for options without an image
   contextText?: string; // Optional intro/context text above items
+  tables?: QuestionTable[]; // Optional data tables, shown under contextText
   contentItems?: string[]; // Optional list items (I., II., III. etc.)
   sourceTag?: string; // Optional source label (e.g. "2025 Deneme 3")
+  passage?: QuestionPassage; // Optional shared passage of a question group
   questionText: string;
   options: string[];
-  correctOptionIndex: number;
+  lockOptionOrder?: boolean; // true: options keep their authored order in quizzes; unset: detected from the options
+  correctOptionIndex: number; // -1 (UNKNOWN_ANSWER_INDEX) when the answer is missing; such questions stay out of quizzes
   explanation: string;
+  optionExplanations?: string[]; // Parallel to `options`: why each option is right or wrong; '' where none is written
+}
+
+export type QuestionType = 'multipleChoice' | 'trueFalse' | 'matching' | 'ordering';
+
+// Questions saved before question types existed have no `type`
+export interface MultipleChoiceQuestion extends QuestionBase {
+  type?: 'multipleChoice';
 }
 
+// options: ['Doğru', 'Yanlış']; correctOptionIndex 0 or 1
+export interface TrueFalseQuestion extends QuestionBase {
+  type: 'trueFalse';
+}
+
+// options hold the right-hand column; matchPrompts[i] goes with options[correctMatches[i]]. correctOptionIndex stays -1
+export interface MatchingQuestion extends QuestionBase {
+  type: 'matching';
+  matchPrompts: string[];
+  correctMatches: number[];
+}
+
+// options hold the items to put in order; correctOrder lists option indexes in the right order. correctOptionIndex stays -1
+export interface OrderingQuestion extends QuestionBase {
+  type: 'ordering';
+  correctOrder: number[];
+}
+
+export type Question = MultipleChoiceQuestion | TrueFalseQuestion | MatchingQuestion | OrderingQuestion;
+
+// Option index for multiple choice and true/false; one option index per prompt for matching (-1 = not matched yet);
+// option indexes in the chosen order for ordering
+export type QuizAnswer = number | number[] | null;
+
 export interface QuestionReport {
   id?: string;
   questionId: string;
@@ -48,9 +105,13 @@ export interface QuestionReport {
   createdAt?: unknown;
 }
 
+// 'exam': answers are graded at the end; 'practice': each answer is checked as soon as it is given
+export type QuizMode = 'exam' | 'practice';
+
 export interface QuizState {
+  mode: QuizMode;
   currentQuestionIndex: number;
-  userAnswers: (number | null)[]; // Stores the selected option index for each question
+  userAnswers: QuizAnswer[]; // Stores the answer given to each question
   showResults: boolean;
   questions: Question[];
   loading: boolean;
@@ -59,4 +120,7 @@ export interface QuizState {
   timeLeft: number; // in seconds
   totalTime: number; // in seconds (for progress calculation)
   isTimerActive: boolean;
+  // Practice mode: questions whose answer has been checked and locked
+  checkedQuestions: boolean[];
+  timeSpentSeconds: number[]; // seconds spent on each question, revisits included
 }
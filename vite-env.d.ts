@@ -0,0 +1,5 @@
+// Vite "?url" importlari dosyanin derlenmis adresini dondurur
+declare module '*?url' {
+  const url: string;
+  export default url;
+}
@@ -2,6 +2,33 @@ import path from 'path';
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
+const DOCUMENT_IMPORT_PACKAGES = [
+  'pdfjs-dist',
+  'mammoth',
+  '@xmldom/xmldom',
+  'argparse',
+  'base64-js',
+  'core-util-is',
+  'dingbat-to-unicode',
+  'immediate',
+  'inherits',
+  'isarray',
+  'jszip',
+  'lie',
+  'lop',
+  'option',
+  'pako',
+  'process-nextick-args',
+  'readable-stream',
+  'safe-buffer',
+  'setimmediate',
+  'sprintf-js',
+  'string_decoder',
+  'underscore',
+  'util-deprecate',
+  'xmlbuilder',
+];
+
 export default defineConfig(({ mode }) => {
     return {
       server: {
@@ -20,6 +47,9 @@ export default defineConfig(({ mode }) => {
             manualChunks(id) {
               if (!id.includes('node_modules')) return;
 
+              // PDF/Word okuyuculari yalnizca toplu eklemede dosya secilince yuklenir
+              if (DOCUMENT_IMPORT_PACKAGES.some(pkg => id.includes(`/node_modules/${pkg}/`))) return 'document-import';
+
               if (id.includes('firebase') || id.includes('@firebase')) return 'firebase-vendor';
               if (id.includes('react') || id.includes('scheduler')) return 'react-vendor';
               if (id.includes('lucide-react')) return 'icons-vendor';